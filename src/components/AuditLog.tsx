@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { TableInfo } from './api';
+
+interface AuditEntry {
+  id: string;
+  occurred_at: string;
+  actor: string;
+  operation: string;
+  table_name: string;
+  row_key: string[] | null;
+  before_image: Record<string, any> | null;
+  after_image: Record<string, any> | null;
+  details: Record<string, any> | null;
+}
+
+const rowOperations = ['INSERT', 'UPDATE', 'DELETE'];
+
+const formatValue = (value: any) =>
+  value === null || value === undefined ? 'NULL' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Row keys in the same form the row API uses: the raw value for single-column
+// keys, a JSON array for composite keys
+const formatRowKey = (rowKey: string[]) =>
+  rowKey.length === 1 ? rowKey[0] : JSON.stringify(rowKey);
+
+// One line per changed column for updates, the whole image for inserts and deletes
+const describeChanges = (entry: AuditEntry): string[] => {
+  const { before_image: before, after_image: after, details } = entry;
+  if (before && after) {
+    return Object.keys({ ...before, ...after })
+      .filter(column => JSON.stringify(before[column]) !== JSON.stringify(after[column]))
+      .map(column => `${column}: ${formatValue(before[column])} → ${formatValue(after[column])}`);
+  }
+  const image = after || before;
+  if (image) {
+    return Object.entries(image).map(([column, value]) => `${column}: ${formatValue(value)}`);
+  }
+  if (details?.statements) {
+    return details.statements;
+  }
+  if (details?.columns) {
+    const columns = details.columns.map((col: any) => typeof col === 'string' ? col : col.name);
+    return [`columns: ${columns.join(', ')}`, ...(details.rows !== undefined ? [`rows: ${details.rows}`] : [])];
+  }
+  return [];
+};
+
+const AuditLog: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tableFilter = searchParams.get('table') || '';
+  const keyFilter = searchParams.get('key');
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextBeforeId, setNextBeforeId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch('/api/tables')
+      .then(response => response.json())
+      .then(setTables)
+      .catch(err => console.error('Error fetching tables:', err));
+  }, []);
+
+  const fetchEntries = async (beforeId: string | null = null) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (tableFilter) params.set('table', tableFilter);
+      if (keyFilter !== null) params.set('key', keyFilter);
+      if (beforeId) params.set('beforeId', beforeId);
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      const data = await response.json();
+      if (response.ok) {
+        setEntries(prev => beforeId ? [...prev, ...data.entries] : data.entries);
+        setNextBeforeId(data.nextBeforeId);
+        setError('');
+      } else {
+        setError(data.error || 'Failed to load the audit log');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [tableFilter, keyFilter]);
+
+  const setFilters = (table: string, key: string | null = null) => {
+    const params: Record<string, string> = {};
+    if (table) params.table = table;
+    if (table && key !== null) params.key = key;
+    setSearchParams(params);
+  };
+
+  const handleRevert = async (entry: AuditEntry, force: boolean = false) => {
+    if (!force && !window.confirm(`Revert this ${entry.operation} on "${entry.table_name}"?`)) {
+      return;
+    }
+
+    setRevertingId(entry.id);
+    try {
+      const response = await fetch(`/api/audit/${entry.id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        fetchEntries();
+      } else if (response.status === 409 && data.details && !force) {
+        if (window.confirm(`${data.error}. Reverting will overwrite the later changes. Revert anyway?`)) {
+          await handleRevert(entry, true);
+        }
+      } else {
+        setError(data.error || 'Failed to revert change');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Change History</h1>
+        <button
+          onClick={() => navigate('/', { state: { table: tableFilter || undefined } })}
+          className="btn"
+        >
+          ← Back to Database Manager
+        </button>
+      </div>
+
+      <div className="controls-container">
+        <div className="audit-table-filter">
+          <label htmlFor="audit-table-select" className="form-label">Table:</label>
+          <select
+            id="audit-table-select"
+            value={tableFilter}
+            onChange={(e) => setFilters(e.target.value)}
+            className="form-select"
+          >
+            <option value="">All tables</option>
+            {/* Dropped tables are no longer listed but keep their history */}
+            {tableFilter && !tables.some(table => table.name === tableFilter) && (
+              <option value={tableFilter}>{tableFilter}</option>
+            )}
+            {tables.map(table => (
+              <option key={table.name} value={table.name}>
+                {table.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {keyFilter !== null && (
+          <div className="audit-row-filter">
+            Row {keyFilter}
+            <button onClick={() => setFilters(tableFilter)} className="btn btn-small">
+              Show all rows
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      <div className="table-container">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Actor</th>
+              <th>Operation</th>
+              <th>Table</th>
+              <th>Row</th>
+              <th>Changes</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.id}>
+                <td>{new Date(entry.occurred_at).toLocaleString()}</td>
+                <td>{entry.actor}</td>
+                <td>
+                  {entry.operation}
+                  {entry.details?.soft_delete && <div className="audit-note">soft delete</div>}
+                  {entry.details?.restore && <div className="audit-note">restore</div>}
+                  {entry.details?.bulk && <div className="audit-note">bulk</div>}
+                  {entry.details?.revert_of && <div className="audit-note">revert of #{entry.details.revert_of}</div>}
+                </td>
+                <td>
+                  <button onClick={() => setFilters(entry.table_name)} className="link-button">
+                    {entry.table_name}
+                  </button>
+                </td>
+                <td>
+                  {entry.row_key && (
+                    <button
+                      onClick={() => setFilters(entry.table_name, formatRowKey(entry.row_key!))}
+                      className="link-button"
+                      title="Show the history of this row"
+                    >
+                      {formatRowKey(entry.row_key)}
+                    </button>
+                  )}
+                </td>
+                <td>
+                  <ul className="audit-changes">
+                    {describeChanges(entry).map((line, index) => (
+                      <li key={index}>{line}</li>
+                    ))}
+                  </ul>
+                </td>
+                <td style={{ textAlign: 'center' }}>
+                  {rowOperations.includes(entry.operation) && entry.row_key && (
+                    <button
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertingId !== null}
+                      className="btn btn-small"
+                    >
+                      {revertingId === entry.id ? 'Reverting...' : 'Revert'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!loading && entries.length === 0 && (
+              <tr>
+                <td colSpan={7} className="no-results">No changes recorded</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {nextBeforeId && (
+        <div className="pagination">
+          <button onClick={() => fetchEntries(nextBeforeId)} disabled={loading} className="btn">
+            {loading ? 'Loading...' : 'Load older changes'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
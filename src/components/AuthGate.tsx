@@ -0,0 +1,151 @@
+import React, { useState, useEffect, createContext, useContext } from 'react';
+
+export interface SessionUser {
+  username: string;
+  role: 'viewer' | 'editor' | 'admin';
+}
+
+interface AuthContextValue {
+  user: SessionUser;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// The signed-in user, for components rendered inside AuthGate
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthGate');
+  }
+  return context;
+};
+
+// Shows the sign-in form (or first admin setup) until there is a session,
+// then renders the app
+const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchSession = async () => {
+    try {
+      const response = await fetch('/api/auth/session');
+      const data = await response.json();
+      if (response.ok) {
+        setUser(data.user);
+        setSetupRequired(data.setupRequired);
+      }
+    } catch (err) {
+      console.error('Error fetching session:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Check again when the tab regains focus, so an expired session shows the
+  // sign-in form instead of failing requests
+  useEffect(() => {
+    fetchSession();
+    window.addEventListener('focus', fetchSession);
+    return () => window.removeEventListener('focus', fetchSession);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(setupRequired ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setUser(data);
+        setSetupRequired(false);
+        setPassword('');
+      } else {
+        setError(data.error || 'Failed to sign in');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+    setUser(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="loading-text">Loading...</div>
+      </div>
+    );
+  }
+
+  if (user) {
+    return <AuthContext.Provider value={{ user, signOut }}>{children}</AuthContext.Provider>;
+  }
+
+  return (
+    <div className="page-container login-container">
+      <h1 className="page-title">Tomulator Database Manager</h1>
+      <form onSubmit={handleSubmit} className="login-form">
+        <h3 className="section-title">{setupRequired ? 'Create the first admin account' : 'Sign in'}</h3>
+        {setupRequired && (
+          <p className="info-text">No users exist yet. The account created here has full access and can add other users.</p>
+        )}
+
+        {error && (
+          <div className="error-message">
+            {error}
+          </div>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="login-username" className="form-label">Username</label>
+          <input
+            id="login-username"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="form-input"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="login-password" className="form-label">Password</label>
+          <input
+            id="login-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={setupRequired ? 'new-password' : 'current-password'}
+            className="form-input"
+            required
+          />
+        </div>
+        <button type="submit" disabled={isSubmitting} className="btn">
+          {isSubmitting ? 'Signing in...' : setupRequired ? 'Create Admin' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AuthGate;
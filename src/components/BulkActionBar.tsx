@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FilterGroup } from './FilterBuilder';
+
+// The rows a bulk action applies to, as sent to the server
+export interface BulkSelection {
+  keys?: string[];
+  matching?: {
+    search?: string;
+    filters?: Record<string, string>;
+    where?: FilterGroup | null;
+    hideDeleted?: boolean;
+    // Only deleted rows, as shown in the Trash
+    deleted?: boolean;
+  };
+}
+
+interface BulkActionBarProps {
+  tableName: string;
+  selection: BulkSelection;
+  selectedCount: number;
+  // Columns that can be set in bulk
+  columns: string[];
+  hasSoftDelete: boolean;
+  onComplete: (message: string) => void;
+  onClearSelection: () => void;
+}
+
+const actionLabels: Record<string, string> = {
+  'soft-delete': 'soft-deleted',
+  'restore': 'restored',
+  'hard-delete': 'permanently deleted',
+  'set': 'updated'
+};
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  tableName,
+  selection,
+  selectedCount,
+  columns,
+  hasSoftDelete,
+  onComplete,
+  onClearSelection
+}) => {
+  const [setColumn, setSetColumn] = useState('');
+  const [setValue, setSetValue] = useState('');
+  const [setNull, setSetNull] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const rowsLabel = `${selectedCount} row${selectedCount === 1 ? '' : 's'}`;
+
+  const runAction = async (action: string, confirmMessage: string, extra: Record<string, any> = {}) => {
+    if (!confirm(confirmMessage)) return;
+
+    setIsRunning(true);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/rows/bulk-action`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, selection, ...extra })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        onComplete(`${data.affected} row${data.affected === 1 ? '' : 's'} ${actionLabels[action]}.`);
+      } else {
+        alert(`${data.error || 'Bulk action failed'}${typeof data.details === 'string' ? `: ${data.details}` : ''}\n\nNo rows were changed.`);
+      }
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      alert('Error running bulk action. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bulk-action-bar">
+      <span className="bulk-action-count">{rowsLabel} selected</span>
+      {hasSoftDelete && (
+        <>
+          <button
+            onClick={() => runAction('soft-delete', `Soft delete ${rowsLabel}?`)}
+            disabled={isRunning}
+            className="btn btn-small"
+          >
+            Soft Delete
+          </button>
+          <button
+            onClick={() => runAction('restore', `Restore ${rowsLabel}?`)}
+            disabled={isRunning}
+            className="btn btn-small"
+          >
+            Restore
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => runAction(
+          'hard-delete',
+          `⚠️ WARNING: This will permanently delete ${rowsLabel} from the database!\n\nThis action cannot be undone. Are you absolutely sure?`
+        )}
+        disabled={isRunning}
+        className="btn btn-small btn-danger"
+      >
+        Delete Permanently
+      </button>
+      <span className="bulk-set">
+        Set
+        <select
+          value={setColumn}
+          onChange={(e) => setSetColumn(e.target.value)}
+          className="form-select-small"
+        >
+          <option value="">column...</option>
+          {columns.map(column => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        to
+        <input
+          type="text"
+          value={setNull ? '' : setValue}
+          onChange={(e) => setSetValue(e.target.value)}
+          disabled={setNull}
+          placeholder="value"
+          className="form-input bulk-set-value"
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={setNull}
+            onChange={(e) => setSetNull(e.target.checked)}
+          />
+          NULL
+        </label>
+        <button
+          onClick={() => runAction(
+            'set',
+            `Set ${setColumn} to ${setNull ? 'NULL' : `"${setValue}"`} on ${rowsLabel}?`,
+            { column: setColumn, value: setNull ? null : setValue }
+          )}
+          disabled={isRunning || !setColumn}
+          className="btn btn-small"
+        >
+          Apply
+        </button>
+      </span>
+      <button onClick={onClearSelection} disabled={isRunning} className="btn btn-small">
+        Clear Selection
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
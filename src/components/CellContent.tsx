@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface CellContentProps {
+  value: any;
+  wordWrap: boolean;
+}
+
+// A read-only grid cell. Shared by the table grid and the SQL console.
+const CellContent: React.FC<CellContentProps> = ({ value, wordWrap }) => {
+  // JSON columns arrive parsed; show them as JSON rather than [object Object]
+  const displayValue = value === null || value === undefined ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  
+  if (wordWrap) {
+    return (
+      <span className="cell-content">
+        {displayValue}
+      </span>
+    );
+  } else {
+    return (
+      <span className="cell-content-nowrap" title={displayValue}>
+        {displayValue}
+      </span>
+    );
+  }
+};
+
+export default CellContent;
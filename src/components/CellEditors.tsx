@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+// The parts of a column an editor needs
+export interface EditorColumn {
+  column_name: string;
+  data_type: string;
+  // The Postgres type name, as in pg_type; array types start with an underscore
+  udt_name?: string;
+  is_nullable: string;
+  enum_values?: string[] | null;
+}
+
+export interface CellEditorProps {
+  column: EditorColumn;
+  value: any;
+  // Called with the value to send to the server; null clears the cell
+  onChange: (value: any) => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => void;
+}
+
+export type CellEditor = React.FC<CellEditorProps>;
+
+const stopClick = (e: React.MouseEvent) => e.stopPropagation();
+
+const isNullable = (column: EditorColumn) => column.is_nullable === 'YES';
+
+const textTypes = ['text', 'character varying', 'character'];
+
+// Value for a cell the user has not filled in: empty text for text columns,
+// NULL for everything else, where an empty string is not a valid value
+export const emptyValueFor = (column: EditorColumn) => textTypes.includes(column.data_type) ? '' : null;
+
+const TextEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => (
+  <input
+    type="text"
+    value={value ?? ''}
+    onChange={(e) => onChange(e.target.value)}
+    onClick={stopClick}
+    onKeyDown={onKeyDown}
+    className="form-input"
+    placeholder={column.column_name}
+  />
+);
+
+// true, false and, for nullable columns, NULL
+const BooleanEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => {
+  const current = value === null || value === undefined || value === '' ? '' : String(value);
+  return (
+    <select
+      value={current}
+      onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+      onClick={stopClick}
+      onKeyDown={onKeyDown}
+      className="form-select-small"
+    >
+      {(isNullable(column) || current === '') && (
+        <option value="">{isNullable(column) ? 'NULL' : 'Choose...'}</option>
+      )}
+      <option value="true">true</option>
+      <option value="false">false</option>
+    </select>
+  );
+};
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const integerTypes = ['int2', 'int4', 'int8'];
+
+// Numbers are kept as the text typed, so bigints and numerics keep every
+// digit instead of going through a JavaScript number
+const NumberEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  const isInteger = integerTypes.includes(column.udt_name || '');
+  const isValid = text === '' || (isInteger
+    ? INTEGER_PATTERN.test(text)
+    : DECIMAL_PATTERN.test(text) || /^[-+]?(NaN|Infinity)$/i.test(text));
+  return (
+    <input
+      type="text"
+      inputMode={isInteger ? 'numeric' : 'decimal'}
+      value={text}
+      onChange={(e) => onChange(e.target.value.trim() === '' ? null : e.target.value.trim())}
+      onClick={stopClick}
+      onKeyDown={onKeyDown}
+      className={isValid ? 'form-input' : 'form-input cell-editor-invalid'}
+      placeholder={isNullable(column) ? 'NULL' : column.column_name}
+      title={isValid ? undefined : `Not a valid ${isInteger ? 'whole number' : 'number'}`}
+    />
+  );
+};
+
+const pad = (n: number, length: number = 2) => String(n).padStart(length, '0');
+
+// Convert a cell value to the format of a date, datetime-local or time
+// input. Returns null for values the input cannot show, such as infinity.
+const toInputValue = (udtName: string, value: any): string | null => {
+  if (value === null || value === undefined || value === '') return '';
+  const text = String(value);
+  if (udtName === 'date') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : null;
+  }
+  if (udtName === 'time') {
+    const match = text.match(/^\d{2}:\d{2}(:\d{2})?/);
+    return match ? match[0] : null;
+  }
+  if (udtName === 'timestamp') {
+    const match = text.match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(:\d{2})?(\.\d{1,3})?)/);
+    return match ? `${match[1]}T${match[2]}` : null;
+  }
+  // timestamptz arrives as an ISO time in UTC and is shown in local time
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const dateInputTypes: Record<string, string> = {
+  date: 'date',
+  time: 'time',
+  timestamp: 'datetime-local',
+  timestamptz: 'datetime-local',
+};
+
+const DateTimeEditor: CellEditor = (props) => {
+  const { column, value, onChange, onKeyDown } = props;
+  const udtName = column.udt_name || '';
+  const inputValue = toInputValue(udtName, value);
+  if (inputValue === null) {
+    return <TextEditor {...props} />;
+  }
+
+  const handleChange = (text: string) => {
+    if (text === '') {
+      onChange(null);
+    } else if (udtName === 'timestamptz') {
+      // Send the local time the user picked with its offset
+      onChange(new Date(text).toISOString());
+    } else {
+      onChange(text);
+    }
+  };
+
+  return (
+    <input
+      type={dateInputTypes[udtName]}
+      step={udtName === 'date' ? undefined : 1}
+      value={inputValue}
+      onChange={(e) => handleChange(e.target.value)}
+      onClick={stopClick}
+      onKeyDown={onKeyDown}
+      className="form-input"
+    />
+  );
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+const UuidEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => {
+  const text = value ?? '';
+  const isValid = text === '' || UUID_PATTERN.test(text);
+  return (
+    <div className="uuid-editor">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => onChange(e.target.value.trim() === '' ? null : e.target.value.trim())}
+        onClick={stopClick}
+        onKeyDown={onKeyDown}
+        className={isValid ? 'form-input' : 'form-input cell-editor-invalid'}
+        placeholder={isNullable(column) ? 'NULL' : column.column_name}
+        title={isValid ? undefined : 'Not a valid UUID'}
+      />
+      <button
+        onClick={(e) => { e.stopPropagation(); onChange(crypto.randomUUID()); }}
+        className="btn btn-small"
+        title="Generate a random UUID"
+      >
+        New
+      </button>
+    </div>
+  );
+};
+
+const EnumEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => {
+  const current = value ?? '';
+  const labels = column.enum_values || [];
+  return (
+    <select
+      value={current}
+      onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+      onClick={stopClick}
+      onKeyDown={onKeyDown}
+      className="form-select-small"
+    >
+      {(isNullable(column) || current === '') && (
+        <option value="">{isNullable(column) ? 'NULL' : 'Choose...'}</option>
+      )}
+      {/* A label removed from the type since the row was read */}
+      {current !== '' && !labels.includes(current) && <option value={current}>{current}</option>}
+      {labels.map(label => (
+        <option key={label} value={label}>{label}</option>
+      ))}
+    </select>
+  );
+};
+
+// Text typed into an editor whose value is parsed from it. The text is kept
+// as typed, and replaced only when the value is changed from outside, such
+// as by resetting the form or taking the other side of an edit conflict.
+const useDraftText = (value: any, format: (value: any) => string): [string, (text: string, value: any) => void] => {
+  const [text, setText] = useState(() => format(value));
+  const emitted = useRef(value);
+
+  useEffect(() => {
+    if (value !== emitted.current) {
+      emitted.current = value;
+      setText(format(value));
+    }
+  }, [value]);
+
+  const update = (next: string, nextValue: any) => {
+    setText(next);
+    emitted.current = nextValue;
+  };
+  return [text, update];
+};
+
+const formatJson = (value: any) =>
+  value === null || value === undefined || value === '' ? '' : JSON.stringify(value, null, 2);
+
+// JSON is edited as text and sent as typed, with the parse error shown
+// until it is valid. Scalars such as "abc" keep their quotes.
+const JsonEditor: CellEditor = ({ column, value, onChange }) => {
+  const [text, setText] = useDraftText(value, formatJson);
+  let error: string | null = null;
+  if (text.trim() !== '') {
+    try {
+      JSON.parse(text);
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Invalid JSON';
+    }
+  }
+
+  return (
+    <div onClick={stopClick}>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          const next = e.target.value.trim() === '' ? null : e.target.value;
+          setText(e.target.value, next);
+          onChange(next);
+        }}
+        rows={Math.min(10, Math.max(3, text.split('\n').length))}
+        className={error ? 'form-input json-editor cell-editor-invalid' : 'form-input json-editor'}
+        placeholder={isNullable(column) ? 'NULL' : '{}'}
+        spellCheck={false}
+      />
+      {error && <div className="cell-editor-error">{error}</div>}
+    </div>
+  );
+};
+
+// Arrays are typed as a JSON array, or as a Postgres array literal such as
+// {a,b}. pg sends a JavaScript array as an array parameter.
+const formatArray = (value: any) =>
+  value === null || value === undefined ? '' : Array.isArray(value) ? JSON.stringify(value) : String(value);
+
+const parseArray = (text: string): any => {
+  if (text.trim() === '') return null;
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : text;
+  } catch {
+    return text;
+  }
+};
+
+const ArrayEditor: CellEditor = ({ column, value, onChange, onKeyDown }) => {
+  const [text, setText] = useDraftText(value, formatArray);
+
+  const handleChange = (next: string) => {
+    const nextValue = parseArray(next);
+    setText(next, nextValue);
+    onChange(nextValue);
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      onClick={stopClick}
+      onKeyDown={onKeyDown}
+      className="form-input"
+      placeholder={isNullable(column) ? 'NULL' : '["a", "b"] or {a,b}'}
+    />
+  );
+};
+
+// Editors by Postgres type name. Enums and arrays are matched separately,
+// since their type names are the user's own.
+const editors: Record<string, CellEditor> = {
+  bool: BooleanEditor,
+  int2: NumberEditor,
+  int4: NumberEditor,
+  int8: NumberEditor,
+  numeric: NumberEditor,
+  float4: NumberEditor,
+  float8: NumberEditor,
+  date: DateTimeEditor,
+  time: DateTimeEditor,
+  timestamp: DateTimeEditor,
+  timestamptz: DateTimeEditor,
+  uuid: UuidEditor,
+  json: JsonEditor,
+  jsonb: JsonEditor,
+};
+
+// Use a different editor for a Postgres type, such as a map picker for a
+// PostGIS geometry column
+export function registerCellEditor(typeName: string, editor: CellEditor): void {
+  editors[typeName] = editor;
+}
+
+export function getCellEditor(column: EditorColumn): CellEditor {
+  const udtName = column.udt_name || '';
+  if (editors[udtName]) return editors[udtName];
+  if (udtName.startsWith('_')) return ArrayEditor;
+  if (column.enum_values) return EnumEditor;
+  // Soft-delete flags are sometimes text columns holding 'true' or 'false'
+  if (column.column_name === 'is_deleted') return BooleanEditor;
+  return TextEditor;
+}
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+
+interface CloneTableDialogProps {
+  tableName: string;
+  onClose: () => void;
+  // Called with the API name of the new table
+  onCloned: (tableName: string) => void;
+}
+
+// Copies a table's structure, and optionally its rows, to a new table
+const CloneTableDialog: React.FC<CloneTableDialogProps> = ({ tableName, onClose, onCloned }) => {
+  const [newName, setNewName] = useState(`${tableName.split('.').pop()}_copy`);
+  const [withData, setWithData] = useState(false);
+  const [isCloning, setIsCloning] = useState(false);
+
+  const handleClone = async () => {
+    setIsCloning(true);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/clone`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newName: newName.trim(), withData })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to clone table');
+        return;
+      }
+      onCloned(data.tableName);
+    } catch (error) {
+      console.error('Error cloning table:', error);
+      alert('Network error occurred');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h3 className="modal-title">Clone Table: {tableName}</h3>
+        </div>
+        <div className="modal-body">
+          <p className="modal-text">
+            The copy gets the same columns, defaults, constraints, indexes and foreign keys, in the same schema.
+          </p>
+          <label className="form-label" htmlFor="clone-table-name">New table name:</label>
+          <input
+            id="clone-table-name"
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="form-input"
+          />
+          <label className="control-item clone-table-option">
+            <input type="checkbox" checked={withData} onChange={(e) => setWithData(e.target.checked)} />
+            Copy the rows too
+          </label>
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn" disabled={isCloning}>
+            Cancel
+          </button>
+          <button onClick={handleClone} className="btn" disabled={isCloning || newName.trim() === ''}>
+            {isCloning ? 'Cloning...' : 'Clone Table'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CloneTableDialog;
@@ -0,0 +1,341 @@
+import React, { useState, useRef } from 'react';
+
+export interface ColumnDefinition {
+  name: string;
+  type: string;
+  isNullable: boolean;
+  isPrimaryKey: boolean;
+  defaultValue: string;
+  isAutoIncrement: boolean;
+  // VARCHAR/CHAR length, such as 255
+  length?: string;
+  // NUMERIC/DECIMAL precision and optional scale, such as 10,2
+  precision?: string;
+  // Name of the existing column this definition edits; unset for new columns
+  originalName?: string;
+}
+
+export const dataTypes = [
+  'SERIAL',
+  'INTEGER',
+  'BIGINT',
+  'SMALLINT',
+  'TEXT',
+  'VARCHAR',
+  'CHAR',
+  'BOOLEAN',
+  'TIMESTAMP',
+  'DATE',
+  'TIME',
+  'NUMERIC',
+  'DECIMAL',
+  'REAL',
+  'DOUBLE PRECISION',
+  'JSON',
+  'JSONB',
+  'UUID'
+];
+
+export const createEmptyColumn = (): ColumnDefinition => ({
+  name: '',
+  type: 'TEXT',
+  isNullable: true,
+  isPrimaryKey: false,
+  defaultValue: '',
+  isAutoIncrement: false,
+  length: '',
+  precision: ''
+});
+
+const isLengthType = (type: string): boolean => type === 'VARCHAR' || type === 'CHAR';
+const isPrecisionType = (type: string): boolean => type === 'NUMERIC' || type === 'DECIMAL';
+
+// Check every column, returning the first problem found. Existing columns
+// whose type is unchanged are not re-checked for a length, since tables
+// created elsewhere may have unbounded VARCHAR columns.
+export const validateColumns = (columns: ColumnDefinition[], existing: ColumnDefinition[] = []): string | null => {
+  for (const column of columns) {
+    if (!column.name.trim()) {
+      return 'All columns must have names';
+    }
+
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(column.name)) {
+      return 'Column names must start with a letter or underscore and contain only letters, numbers, and underscores';
+    }
+
+    const original = existing.find(col => col.name === column.originalName);
+    const typeUnchanged = original && original.type === column.type
+      && (original.length ?? '') === (column.length ?? '') && (original.precision ?? '') === (column.precision ?? '');
+    if (isLengthType(column.type) && !typeUnchanged) {
+      if (!/^\d+$/.test((column.length || '').trim()) || parseInt(column.length!) <= 0) {
+        return `Column "${column.name}" must specify a length`;
+      }
+    }
+    if (isPrecisionType(column.type) && !typeUnchanged && column.precision?.trim()) {
+      if (!/^\d+(,\d+)?$/.test(column.precision.replace(/\s/g, ''))) {
+        return `The precision of column "${column.name}" must be a number of digits, optionally followed by a scale (e.g., 10,2)`;
+      }
+    }
+  }
+
+  const names = columns.map(col => col.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    return `Column "${duplicate}" is defined more than once`;
+  }
+
+  return null;
+};
+
+const getDefaultValuePlaceholder = (type: string): string => {
+  if (type === 'SERIAL') return 'Auto-generated';
+  return 'Default value (optional)';
+};
+
+const isDefaultValueDisabled = (type: string, isAutoIncrement: boolean): boolean => {
+  return type === 'SERIAL' || isAutoIncrement;
+};
+
+interface ColumnDefinitionEditorProps {
+  columns: ColumnDefinition[];
+  onChange: (columns: ColumnDefinition[]) => void;
+  onError: (message: string) => void;
+  // When editing an existing table, primary keys and auto-increment are fixed
+  allowKeyChanges?: boolean;
+}
+
+const ColumnDefinitionEditor: React.FC<ColumnDefinitionEditorProps> = ({
+  columns,
+  onChange,
+  onError,
+  allowKeyChanges = true
+}) => {
+  const [isResizing, setIsResizing] = useState(false);
+  const [currentResizer, setCurrentResizer] = useState<number | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  const addColumn = () => {
+    onChange([...columns, createEmptyColumn()]);
+  };
+
+  const removeColumn = (index: number) => {
+    if (columns[index].isPrimaryKey) {
+      onError('Cannot remove primary key column');
+      return;
+    }
+    onChange(columns.filter((_, i) => i !== index));
+    onError('');
+  };
+
+  const updateColumn = (index: number, field: keyof ColumnDefinition, value: any) => {
+    const newColumns = [...columns];
+    newColumns[index] = { ...newColumns[index], [field]: value };
+
+    // Handle special cases
+    if (field === 'type') {
+      // Reset auto-increment if type doesn't support it
+      if (value !== 'SERIAL' && value !== 'INTEGER' && value !== 'BIGINT') {
+        newColumns[index].isAutoIncrement = false;
+      }
+      // Reset default value if type is SERIAL
+      if (value === 'SERIAL') {
+        newColumns[index].defaultValue = '';
+        newColumns[index].isAutoIncrement = true;
+      }
+    }
+
+    // Several columns make a composite primary key; key columns are never null
+    if (field === 'isPrimaryKey' && value) {
+      newColumns[index].isNullable = false;
+    }
+
+    onChange(newColumns);
+    onError('');
+  };
+
+  const startResize = (e: React.MouseEvent, columnIndex: number) => {
+    e.preventDefault();
+    setIsResizing(true);
+    setCurrentResizer(columnIndex);
+
+    const startX = e.clientX;
+    const th = tableRef.current?.querySelector(`th:nth-child(${columnIndex + 1})`) as HTMLElement;
+    const startWidth = th?.getBoundingClientRect().width || 0;
+
+    // Add visual feedback
+    if (th) {
+      th.style.backgroundColor = 'rgba(0, 123, 255, 0.1)';
+    }
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isResizing || currentResizer === null) return;
+
+      const deltaX = e.clientX - startX;
+      const newWidth = Math.max(80, startWidth + deltaX); // Minimum width of 80px
+
+      if (th) {
+        th.style.width = `${newWidth}px`;
+        th.style.minWidth = `${newWidth}px`;
+      }
+    };
+
+    const handleMouseUp = () => {
+      setIsResizing(false);
+      setCurrentResizer(null);
+
+      // Remove visual feedback
+      if (th) {
+        th.style.backgroundColor = '';
+      }
+
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Prevent text selection during resize
+  const handleMouseDown = (e: React.MouseEvent, columnIndex: number) => {
+    if (e.target === e.currentTarget) {
+      startResize(e, columnIndex);
+    }
+  };
+
+  return (
+    <div className="form-group">
+      <div className="controls-container">
+        <h3 className="section-title-no-margin">Columns</h3>
+        <button
+          type="button"
+          onClick={addColumn}
+          className="btn"
+        >
+          + Add Column
+        </button>
+      </div>
+
+      <div className="table-container">
+        <table className="table-bordered" ref={tableRef}>
+          <thead>
+            <tr>
+              <th onMouseDown={(e) => handleMouseDown(e, 0)}>Column Name</th>
+              <th onMouseDown={(e) => handleMouseDown(e, 1)}>Data Type</th>
+              <th onMouseDown={(e) => handleMouseDown(e, 2)}>Length / Precision</th>
+              <th className="center" onMouseDown={(e) => handleMouseDown(e, 3)}>Nullable</th>
+              <th className="center" onMouseDown={(e) => handleMouseDown(e, 4)}>Primary Key</th>
+              <th className="center" onMouseDown={(e) => handleMouseDown(e, 5)}>Auto Increment</th>
+              <th onMouseDown={(e) => handleMouseDown(e, 6)}>Default Value</th>
+              <th className="center" onMouseDown={(e) => handleMouseDown(e, 7)}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {columns.map((column, index) => (
+              <tr key={index}>
+                <td>
+                  <input
+                    type="text"
+                    value={column.name}
+                    onChange={(e) => updateColumn(index, 'name', e.target.value)}
+                    placeholder="Column name"
+                    className="form-input"
+                  />
+                  {column.originalName !== undefined && column.originalName !== column.name && (
+                    <div className="column-rename-hint">renamed from {column.originalName}</div>
+                  )}
+                </td>
+                <td>
+                  <select
+                    value={column.type}
+                    onChange={(e) => updateColumn(index, 'type', e.target.value)}
+                    className="form-select-small"
+                  >
+                    {/* Existing columns may use a type the editor does not offer */}
+                    {!dataTypes.includes(column.type) && (
+                      <option value={column.type}>{column.type}</option>
+                    )}
+                    {dataTypes.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  {isLengthType(column.type) ? (
+                    <input
+                      type="text"
+                      value={column.length ?? ''}
+                      onChange={(e) => updateColumn(index, 'length', e.target.value)}
+                      placeholder="Length (e.g., 255)"
+                      className="form-input"
+                    />
+                  ) : isPrecisionType(column.type) ? (
+                    <input
+                      type="text"
+                      value={column.precision ?? ''}
+                      onChange={(e) => updateColumn(index, 'precision', e.target.value)}
+                      placeholder="Precision,Scale (e.g., 10,2)"
+                      className="form-input"
+                    />
+                  ) : (
+                    <input type="text" value="" disabled className="form-input form-input-disabled" />
+                  )}
+                </td>
+                <td className="center">
+                  <input
+                    type="checkbox"
+                    checked={column.isNullable}
+                    onChange={(e) => updateColumn(index, 'isNullable', e.target.checked)}
+                    disabled={column.isPrimaryKey}
+                  />
+                </td>
+                <td className="center">
+                  <input
+                    type="checkbox"
+                    checked={column.isPrimaryKey}
+                    onChange={(e) => updateColumn(index, 'isPrimaryKey', e.target.checked)}
+                    disabled={!allowKeyChanges}
+                  />
+                </td>
+                <td className="center">
+                  <input
+                    type="checkbox"
+                    checked={column.isAutoIncrement}
+                    onChange={(e) => updateColumn(index, 'isAutoIncrement', e.target.checked)}
+                    disabled={!allowKeyChanges || !['SERIAL', 'INTEGER', 'BIGINT'].includes(column.type)}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={column.defaultValue}
+                    onChange={(e) => updateColumn(index, 'defaultValue', e.target.value)}
+                    placeholder={getDefaultValuePlaceholder(column.type)}
+                    disabled={isDefaultValueDisabled(column.type, column.isAutoIncrement)}
+                    className={`form-input ${isDefaultValueDisabled(column.type, column.isAutoIncrement) ? 'form-input-disabled' : ''}`}
+                  />
+                </td>
+                <td className="center">
+                  <button
+                    type="button"
+                    onClick={() => removeColumn(index)}
+                    disabled={column.isPrimaryKey}
+                    className={`btn`}
+                    style={{
+                      cursor: column.isPrimaryKey ? 'not-allowed' : 'pointer',
+                      opacity: column.isPrimaryKey ? 0.6 : 1
+                    }}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnDefinitionEditor;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface ColumnMenuProps {
+  // All columns, in display order
+  columns: string[];
+  hiddenColumns: string[];
+  onChange: (columnOrder: string[], hiddenColumns: string[]) => void;
+}
+
+// Dropdown to show, hide and reorder the grid's columns
+const ColumnMenu: React.FC<ColumnMenuProps> = ({ columns, hiddenColumns, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const toggleColumn = (column: string, visible: boolean) => {
+    onChange(columns, visible ? hiddenColumns.filter(name => name !== column) : [...hiddenColumns, column]);
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const order = [...columns];
+    const [column] = order.splice(index, 1);
+    order.splice(index + offset, 0, column);
+    onChange(order, hiddenColumns);
+  };
+
+  const hiddenCount = columns.filter(column => hiddenColumns.includes(column)).length;
+
+  return (
+    <div className="dropdown" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn"
+        title="Show, hide and reorder columns"
+      >
+        Columns{hiddenCount > 0 ? ` (${hiddenCount} hidden)` : ''} ▾
+      </button>
+      {isOpen && (
+        <div className="dropdown-menu column-menu">
+          {columns.map((column, index) => (
+            <div key={column} className="column-menu-item">
+              <label className="dropdown-option">
+                <input
+                  type="checkbox"
+                  checked={!hiddenColumns.includes(column)}
+                  onChange={(e) => toggleColumn(column, e.target.checked)}
+                />
+                {column}
+              </label>
+              <button
+                onClick={() => moveColumn(index, -1)}
+                disabled={index === 0}
+                className="btn btn-small"
+                title="Move left"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveColumn(index, 1)}
+                disabled={index === columns.length - 1}
+                className="btn btn-small"
+                title="Move right"
+              >
+                ↓
+              </button>
+            </div>
+          ))}
+          <button onClick={() => onChange([], [])} className="dropdown-item">
+            Reset to table order
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMenu;
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+
+interface ConnectionInfo {
+  name: string;
+  readOnly: boolean;
+  color: string;
+}
+
+const CONNECTION_COOKIE = 'tomulator_connection';
+
+const readConnectionCookie = (): string | null => {
+  const match = document.cookie.split(';').map(cookie => cookie.trim()).find(cookie => cookie.startsWith(`${CONNECTION_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(CONNECTION_COOKIE.length + 1)) : null;
+};
+
+// Shows which database the app is working on and switches to another one.
+// Switching reloads the page, since everything on it came from the old one.
+const ConnectionSwitcher: React.FC = () => {
+  const [connections, setConnections] = useState<ConnectionInfo[]>([]);
+  const [current, setCurrent] = useState('');
+
+  useEffect(() => {
+    const loadConnections = async () => {
+      try {
+        const response = await fetch('/api/connections');
+        const data = await response.json();
+        if (response.ok) {
+          setConnections(data.connections);
+          setCurrent(data.current);
+        }
+      } catch (error) {
+        console.error('Error fetching connections:', error);
+      }
+    };
+    loadConnections();
+  }, []);
+
+  // Another tab may have switched connection; reload rather than show one
+  // database's rows while editing another
+  useEffect(() => {
+    if (!current) return;
+    const handleFocus = () => {
+      const selected = readConnectionCookie();
+      if (selected && selected !== current) {
+        window.location.reload();
+      }
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [current]);
+
+  const handleSwitch = async (name: string) => {
+    try {
+      const response = await fetch(`/api/connections/${encodeURIComponent(name)}/select`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to switch connection');
+        return;
+      }
+      window.location.assign('/');
+    } catch (error) {
+      console.error('Error switching connection:', error);
+      alert('Network error occurred');
+    }
+  };
+
+  const currentConnection = connections.find(connection => connection.name === current);
+  if (!currentConnection) return null;
+
+  return (
+    <div className="connection-switcher">
+      <span className="connection-badge" style={{ backgroundColor: currentConnection.color }}>
+        {currentConnection.name}{currentConnection.readOnly && ' (read-only)'}
+      </span>
+      {connections.length > 1 && (
+        <select
+          value={current}
+          onChange={(e) => handleSwitch(e.target.value)}
+          className="form-select-small"
+          title="Switch connection"
+        >
+          {connections.map(connection => (
+            <option key={connection.name} value={connection.name}>
+              {connection.name}{connection.readOnly ? ' (read-only)' : ''}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionSwitcher;
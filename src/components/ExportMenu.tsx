@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface ExportMenuProps {
+  tableName: string;
+  // Search, filter and sort parameters of the current grid view
+  viewParams: URLSearchParams;
+}
+
+const exportFormats = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'ndjson', label: 'NDJSON (one row per line)' },
+  { format: 'sql', label: 'SQL INSERT statements' }
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ tableName, viewParams }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [applyView, setApplyView] = useState(true);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: string) => {
+    const params = new URLSearchParams(applyView ? viewParams : undefined);
+    params.set('format', format);
+
+    // The server streams the file with an attachment header, so a plain link
+    // lets the browser download it without buffering it in memory
+    const link = document.createElement('a');
+    link.href = `/api/tables/${encodeURIComponent(tableName)}/export?${params.toString()}`;
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="dropdown" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn"
+        title="Download this table's data"
+      >
+        Export ▾
+      </button>
+      {isOpen && (
+        <div className="dropdown-menu">
+          {exportFormats.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="dropdown-item"
+            >
+              {label}
+            </button>
+          ))}
+          <label className="dropdown-option">
+            <input
+              type="checkbox"
+              checked={applyView}
+              onChange={(e) => setApplyView(e.target.checked)}
+            />
+            Only rows matching the current search, filters and sort
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
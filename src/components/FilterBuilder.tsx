@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+
+export interface FilterCondition {
+  column: string;
+  operator: string;
+  value?: string;
+  values?: string[];
+  from?: string;
+  to?: string;
+}
+
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  conditions: Array<FilterCondition | FilterGroup>;
+}
+
+interface ColumnInfo {
+  column_name: string;
+  data_type: string;
+}
+
+interface FilterBuilderProps {
+  columns: ColumnInfo[];
+  // The filter currently applied to the grid
+  value: FilterGroup | null;
+  onApply: (filter: FilterGroup | null) => void;
+}
+
+const operatorLabels: Record<string, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains',
+  starts_with: 'starts with',
+  regex: 'matches regex',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+  between: 'is between',
+  in: 'is one of',
+  is_null: 'is empty',
+  is_not_null: 'is not empty'
+};
+
+const rangeTypes = [
+  'smallint', 'integer', 'bigint', 'numeric', 'real', 'double precision',
+  'date', 'timestamp without time zone', 'timestamp with time zone', 'time without time zone'
+];
+
+// Operators that make sense for a column's type
+const operatorsFor = (dataType: string): string[] => {
+  if (dataType === 'boolean') {
+    return ['equals', 'not_equals', 'is_null', 'is_not_null'];
+  }
+  if (rangeTypes.includes(dataType)) {
+    return ['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'in', 'is_null', 'is_not_null'];
+  }
+  return ['equals', 'not_equals', 'contains', 'starts_with', 'regex', 'in', 'is_null', 'is_not_null'];
+};
+
+const inputTypeFor = (dataType: string): string => {
+  if (dataType === 'date') return 'date';
+  if (dataType.startsWith('timestamp')) return 'datetime-local';
+  if (rangeTypes.includes(dataType) && !dataType.startsWith('time')) return 'number';
+  return 'text';
+};
+
+const isGroup = (node: FilterCondition | FilterGroup): node is FilterGroup => 'conditions' in node;
+
+const emptyGroup = (): FilterGroup => ({ combinator: 'and', conditions: [] });
+
+// "is one of" is typed as a comma-separated list and sent as values
+const splitInValues = (condition: FilterCondition): FilterCondition => {
+  if (condition.operator !== 'in' || condition.value === undefined) return condition;
+  const { value, ...rest } = condition;
+  return { ...rest, values: value.split(',').map(item => item.trim()).filter(item => item !== '') };
+};
+
+// Drop conditions that are not filled in yet, and groups left empty
+const pruneGroup = (group: FilterGroup): FilterGroup | null => {
+  const conditions = group.conditions
+    .map(node => isGroup(node) ? pruneGroup(node) : splitInValues(node))
+    .filter((node): node is FilterCondition | FilterGroup => {
+      if (!node) return false;
+      if (isGroup(node)) return true;
+      if (!node.column) return false;
+      if (node.operator === 'in') return (node.values || []).length > 0;
+      if (node.operator === 'between') return !!(node.from || node.to);
+      if (node.operator === 'is_null' || node.operator === 'is_not_null') return true;
+      return node.value !== undefined && node.value !== '';
+    });
+  return conditions.length > 0 ? { ...group, conditions } : null;
+};
+
+// Drop conditions on columns that no longer exist, as in an old saved view
+export const withKnownColumns = (group: FilterGroup | null, columnNames: string[]): FilterGroup | null => {
+  if (!group) return null;
+  const conditions = group.conditions
+    .map(node => isGroup(node) ? withKnownColumns(node, columnNames) : node)
+    .filter((node): node is FilterCondition | FilterGroup =>
+      !!node && (isGroup(node) || columnNames.includes(node.column)));
+  return conditions.length > 0 ? { ...group, conditions } : null;
+};
+
+// Count conditions, for the toggle button's label
+export const countConditions = (group: FilterGroup | null): number =>
+  group ? group.conditions.reduce((count, node) => count + (isGroup(node) ? countConditions(node) : 1), 0) : 0;
+
+// Nested conditions are limited to one level of groups, which covers
+// "A and (B or C)" without the editor becoming hard to follow
+const MAX_DEPTH = 1;
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  columns: ColumnInfo[];
+  depth: number;
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, columns, depth, onChange, onRemove }) => {
+  const updateNode = (index: number, node: FilterCondition | FilterGroup) => {
+    onChange({ ...group, conditions: group.conditions.map((n, i) => i === index ? node : n) });
+  };
+
+  const removeNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addCondition = () => {
+    const column = columns[0];
+    onChange({
+      ...group,
+      conditions: [...group.conditions, { column: column?.column_name || '', operator: operatorsFor(column?.data_type || '')[0], value: '' }]
+    });
+  };
+
+  const renderCondition = (condition: FilterCondition, index: number) => {
+    const column = columns.find(col => col.column_name === condition.column);
+    const dataType = column?.data_type || 'text';
+    const operators = operatorsFor(dataType);
+    const inputType = inputTypeFor(dataType);
+
+    return (
+      <div key={index} className="filter-condition">
+        <select
+          value={condition.column}
+          onChange={(e) => {
+            const next = columns.find(col => col.column_name === e.target.value);
+            const nextOperators = operatorsFor(next?.data_type || '');
+            updateNode(index, {
+              column: e.target.value,
+              operator: nextOperators.includes(condition.operator) ? condition.operator : nextOperators[0],
+              value: ''
+            });
+          }}
+          className="form-select-small"
+        >
+          {columns.map(col => (
+            <option key={col.column_name} value={col.column_name}>{col.column_name}</option>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) => updateNode(index, { column: condition.column, operator: e.target.value, value: condition.value ?? '' })}
+          className="form-select-small"
+        >
+          {operators.map(operator => (
+            <option key={operator} value={operator}>{operatorLabels[operator]}</option>
+          ))}
+        </select>
+
+        {condition.operator === 'between' ? (
+          <>
+            <input
+              type={inputType}
+              value={condition.from || ''}
+              onChange={(e) => updateNode(index, { ...condition, from: e.target.value })}
+              placeholder="from"
+              className="form-input filter-value"
+            />
+            and
+            <input
+              type={inputType}
+              value={condition.to || ''}
+              onChange={(e) => updateNode(index, { ...condition, to: e.target.value })}
+              placeholder="to"
+              className="form-input filter-value"
+            />
+          </>
+        ) : condition.operator === 'in' ? (
+          <input
+            type="text"
+            value={condition.value ?? (condition.values || []).join(', ')}
+            onChange={(e) => updateNode(index, { ...condition, value: e.target.value })}
+            placeholder="value, value, ..."
+            className="form-input filter-value-wide"
+          />
+        ) : condition.operator === 'is_null' || condition.operator === 'is_not_null' ? null : dataType === 'boolean' ? (
+          <select
+            value={condition.value || ''}
+            onChange={(e) => updateNode(index, { ...condition, value: e.target.value })}
+            className="form-select-small"
+          >
+            <option value="">Choose...</option>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : (
+          <input
+            type={['contains', 'starts_with', 'regex'].includes(condition.operator) ? 'text' : inputType}
+            value={condition.value || ''}
+            onChange={(e) => updateNode(index, { ...condition, value: e.target.value })}
+            placeholder="value"
+            className="form-input filter-value"
+          />
+        )}
+
+        <button onClick={() => removeNode(index)} className="btn btn-small" title="Remove condition">
+          ×
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className={depth > 0 ? 'filter-group filter-group-nested' : 'filter-group'}>
+      <div className="filter-group-header">
+        Match
+        <select
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as 'and' | 'or' })}
+          className="form-select-small"
+        >
+          <option value="and">all</option>
+          <option value="or">any</option>
+        </select>
+        of these conditions
+        {onRemove && (
+          <button onClick={onRemove} className="btn btn-small" title="Remove group">
+            Remove Group
+          </button>
+        )}
+      </div>
+      {group.conditions.map((node, index) =>
+        isGroup(node) ? (
+          <GroupEditor
+            key={index}
+            group={node}
+            columns={columns}
+            depth={depth + 1}
+            onChange={(child) => updateNode(index, child)}
+            onRemove={() => removeNode(index)}
+          />
+        ) : renderCondition(node, index)
+      )}
+      <div className="filter-group-actions">
+        <button onClick={addCondition} className="btn btn-small">
+          + Condition
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, { ...emptyGroup(), combinator: 'or' }] })}
+            className="btn btn-small"
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Builds AND/OR groups of per-column conditions. The server compiles the
+// applied filter into the query, so it also applies to export and bulk actions.
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ columns, value, onApply }) => {
+  const [draft, setDraft] = useState<FilterGroup>(value || emptyGroup());
+
+  // Follow filters applied from elsewhere, such as a saved view
+  useEffect(() => {
+    setDraft(value || emptyGroup());
+  }, [value]);
+
+  return (
+    <div className="filter-builder">
+      <GroupEditor group={draft} columns={columns} depth={0} onChange={setDraft} />
+      <div className="filter-builder-actions">
+        <button onClick={() => onApply(pruneGroup(draft))} className="btn">
+          Apply Filters
+        </button>
+        <button onClick={() => { setDraft(emptyGroup()); onApply(null); }} className="btn">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBuilder;
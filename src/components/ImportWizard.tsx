@@ -0,0 +1,453 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+interface TableSchema {
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+  is_identity: string;
+  is_primary_key: boolean;
+}
+
+interface BulkInsertResult {
+  inserted: number;
+  rejected: number;
+  errors: Array<{ row: number; error: string }>;
+  dryRun: boolean;
+  committed: boolean;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const previewRowLimit = 100;
+
+// Minimal RFC 4180 parser: handles quoted fields, doubled quotes and line
+// breaks inside quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => !(r.length === 1 && r[0] === ''));
+};
+
+// Accepts a JSON array of objects or newline-delimited JSON objects
+const parseJson = (text: string): Record<string, any>[] => {
+  const trimmed = text.trim();
+  const records = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  if (!Array.isArray(records) || records.some(r => !r || typeof r !== 'object' || Array.isArray(r))) {
+    throw new Error('JSON file must contain an array of objects');
+  }
+  return records;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const formatColumnName = (name: string) =>
+  name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const ImportWizard: React.FC = () => {
+  const navigate = useNavigate();
+  const { tableName = '' } = useParams();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [tableSchema, setTableSchema] = useState<TableSchema[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, any>[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [emptyAsNull, setEmptyAsNull] = useState(true);
+  const [rollbackOnError, setRollbackOnError] = useState(false);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [preview, setPreview] = useState<BulkInsertResult | null>(null);
+  const [result, setResult] = useState<BulkInsertResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchSchema = async () => {
+      try {
+        const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/schema`);
+        const data = await response.json();
+        if (response.ok) {
+          setTableSchema(data);
+        } else {
+          setError(data.error || 'Failed to load table schema');
+        }
+      } catch (err) {
+        setError('Network error occurred');
+      }
+    };
+    fetchSchema();
+  }, [tableName]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+
+    try {
+      const text = (await file.text()).replace(/^\uFEFF/, '');
+      let fileHeaders: string[];
+      let fileRecords: Record<string, any>[];
+
+      if (/\.(json|ndjson)$/i.test(file.name)) {
+        fileRecords = parseJson(text);
+        const keys = new Set<string>();
+        fileRecords.forEach(record => Object.keys(record).forEach(key => keys.add(key)));
+        fileHeaders = [...keys];
+      } else {
+        const [headerRow, ...dataRows] = parseCsv(text);
+        if (!headerRow) {
+          throw new Error('CSV file is empty');
+        }
+        fileHeaders = headerRow.map(h => h.trim());
+        fileRecords = dataRows.map(values =>
+          Object.fromEntries(fileHeaders.map((header, index) => [header, values[index] ?? '']))
+        );
+      }
+
+      if (fileRecords.length === 0) {
+        throw new Error('File contains no rows');
+      }
+
+      // Pre-select the column whose name matches each header
+      const initialMapping: Record<string, string> = {};
+      fileHeaders.forEach(header => {
+        const match = tableSchema.find(col => normalizeName(col.column_name) === normalizeName(header));
+        initialMapping[header] = match ? match.column_name : '';
+      });
+
+      setFileName(file.name);
+      setHeaders(fileHeaders);
+      setRecords(fileRecords);
+      setMapping(initialMapping);
+      setPreview(null);
+      setStep('map');
+    } catch (err) {
+      setError(`Could not read file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const mappedHeaders = headers.filter(header => mapping[header]);
+
+  const buildRows = () =>
+    records.map(record => {
+      const row: Record<string, any> = {};
+      mappedHeaders.forEach(header => {
+        const value = record[header];
+        row[mapping[header]] = emptyAsNull && (value === '' || value === undefined) ? null : value;
+      });
+      return row;
+    });
+
+  const validateMapping = (): boolean => {
+    if (mappedHeaders.length === 0) {
+      setError('Map at least one file column to a table column');
+      return false;
+    }
+    const targets = mappedHeaders.map(header => mapping[header]);
+    const duplicate = targets.find((target, index) => targets.indexOf(target) !== index);
+    if (duplicate) {
+      setError(`Column "${duplicate}" is mapped more than once`);
+      return false;
+    }
+    return true;
+  };
+
+  const submitRows = async (dryRun: boolean): Promise<BulkInsertResult | null> => {
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/rows/bulk`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rows: buildRows(), dryRun, rollbackOnError })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError('Network error occurred');
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!validateMapping()) return;
+    const dryRunResult = await submitRows(true);
+    if (dryRunResult) {
+      setPreview(dryRunResult);
+      setStep('preview');
+    }
+  };
+
+  const handleImport = async () => {
+    const importResult = await submitRows(false);
+    if (importResult) {
+      setResult(importResult);
+      setStep('done');
+    }
+  };
+
+  const handleStartOver = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRecords([]);
+    setMapping({});
+    setPreview(null);
+    setResult(null);
+    setError('');
+  };
+
+  const rowErrors = new Map((preview?.errors || []).map(e => [e.row, e.error]));
+  const previewRows = buildRows()
+    .map((row, index) => ({ row, rowNumber: index + 1 }))
+    .filter(({ rowNumber }) => !showErrorsOnly || rowErrors.has(rowNumber))
+    .slice(0, previewRowLimit);
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Import into {formatColumnName(tableName)}</h1>
+        <button
+          onClick={() => navigate('/', { state: { table: tableName } })}
+          className="btn"
+        >
+          ← Back to Database Manager
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <div className="form-group">
+          <h3 className="section-title">1. Choose a File</h3>
+          <p className="control-hint-large">
+            Upload a CSV file with a header row, a JSON array of objects, or newline-delimited JSON.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.json,.ndjson,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={tableSchema.length === 0}
+          />
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="form-group">
+          <h3 className="section-title">2. Map Columns</h3>
+          <p className="control-hint-large">
+            {records.length} rows read from <strong>{fileName}</strong>. Choose the table column for each file column.
+          </p>
+          <div className="table-container">
+            <table className="table-bordered import-mapping">
+              <thead>
+                <tr>
+                  <th>File Column</th>
+                  <th>Sample Value</th>
+                  <th>Table Column</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map(header => (
+                  <tr key={header}>
+                    <td>{header}</td>
+                    <td>{String(records[0]?.[header] ?? '')}</td>
+                    <td>
+                      <select
+                        value={mapping[header] || ''}
+                        onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value }))}
+                        className="form-select-small"
+                      >
+                        <option value="">— Skip —</option>
+                        {tableSchema.map(col => (
+                          <option key={col.column_name} value={col.column_name}>
+                            {col.column_name} ({col.data_type}{col.is_nullable === 'NO' ? ', required' : ''})
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="import-options">
+            <label className="control-item">
+              <input
+                type="checkbox"
+                checked={emptyAsNull}
+                onChange={(e) => setEmptyAsNull(e.target.checked)}
+              />
+              Treat empty values as NULL
+            </label>
+          </div>
+          <div className="import-actions">
+            <button type="button" onClick={handleStartOver} className="btn">
+              Choose Another File
+            </button>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isSubmitting}
+              className="btn btn-primary"
+            >
+              {isSubmitting ? 'Checking Rows...' : 'Preview Import'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="form-group">
+          <h3 className="section-title">3. Preview</h3>
+          <p className="control-hint-large">
+            Dry run against the database: <strong>{preview.inserted}</strong> rows can be inserted
+            and <strong>{preview.rejected}</strong> rows would be rejected. Nothing has been written yet.
+          </p>
+          <div className="controls-container">
+            <label className="control-item">
+              <input
+                type="checkbox"
+                checked={showErrorsOnly}
+                onChange={(e) => setShowErrorsOnly(e.target.checked)}
+              />
+              Show only rows with errors
+            </label>
+            <span className="row-count">
+              Showing up to {previewRowLimit} rows
+            </span>
+          </div>
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  {mappedHeaders.map(header => (
+                    <th key={header}>{mapping[header]}</th>
+                  ))}
+                  <th>Validation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map(({ row, rowNumber }) => (
+                  <tr key={rowNumber} className={rowErrors.has(rowNumber) ? 'import-row-error' : ''}>
+                    <td>{rowNumber}</td>
+                    {mappedHeaders.map(header => (
+                      <td key={header}>
+                        {row[mapping[header]] === null ? <em>NULL</em> : String(row[mapping[header]])}
+                      </td>
+                    ))}
+                    <td>{rowErrors.get(rowNumber) || 'OK'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="import-options">
+            <label className="control-item">
+              <input
+                type="checkbox"
+                checked={rollbackOnError}
+                onChange={(e) => setRollbackOnError(e.target.checked)}
+              />
+              Import nothing if any row is rejected
+            </label>
+          </div>
+          <div className="import-actions">
+            <button type="button" onClick={() => setStep('map')} className="btn">
+              ← Back to Mapping
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isSubmitting || preview.inserted === 0 || (rollbackOnError && preview.rejected > 0)}
+              className="btn btn-primary"
+            >
+              {isSubmitting ? 'Importing...' : `Import ${preview.inserted} Rows`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="form-group">
+          <h3 className="section-title">4. Summary</h3>
+          <div className={result.committed ? 'info-box' : 'error-message'}>
+            {result.committed
+              ? `Inserted ${result.inserted} rows into "${tableName}" in a single transaction. ${result.rejected} rows were rejected.`
+              : `No rows were imported because ${result.rejected} rows were rejected.`}
+          </div>
+          {result.errors.length > 0 && (
+            <ul className="modal-list">
+              {result.errors.slice(0, previewRowLimit).map(e => (
+                <li key={e.row}>Row {e.row}: {e.error}</li>
+              ))}
+            </ul>
+          )}
+          <div className="import-actions">
+            <button type="button" onClick={handleStartOver} className="btn">
+              Import Another File
+            </button>
+            <button
+              type="button"
+              onClick={() => navigate('/', { state: { table: tableName } })}
+              className="btn btn-primary"
+            >
+              View Table
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,291 @@
+import React, { useState, useEffect } from 'react';
+import { ColumnPicker } from './TableConstraintsEditor';
+
+interface IndexInfo {
+  name: string;
+  definition: string;
+  method: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  is_valid: boolean;
+  constraint_name: string | null;
+  size: string;
+  size_bytes: number;
+  scans: number;
+  tuples_read: number;
+  tuples_fetched: number;
+}
+
+// A change waiting for the user to confirm its SQL
+interface PendingChange {
+  title: string;
+  statements: string[];
+  apply: () => Promise<Response>;
+}
+
+interface IndexesDialogProps {
+  tableName: string;
+  columnNames: string[];
+  // Admins of the table can create and drop indexes
+  canEdit: boolean;
+  onClose: () => void;
+}
+
+const indexMethods = ['btree', 'gin', 'gist'];
+
+// Lists a table's indexes with their size and usage, and creates and drops
+// them after showing the SQL
+const IndexesDialog: React.FC<IndexesDialogProps> = ({ tableName, columnNames, canEdit, onClose }) => {
+  const [indexes, setIndexes] = useState<IndexInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [method, setMethod] = useState('btree');
+  const [unique, setUnique] = useState(false);
+  const [where, setWhere] = useState('');
+  const [concurrently, setConcurrently] = useState(false);
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchIndexes = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/indexes`);
+      const data = await response.json();
+      if (response.ok) {
+        setIndexes(data);
+      } else {
+        setError(data.error || 'Failed to load indexes');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchIndexes();
+  }, [tableName]);
+
+  // Run a request as a dry run and, if it succeeds, ask to confirm its SQL
+  const review = async (title: string, request: (dryRun: boolean) => Promise<Response>) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await request(true);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      setPending({ title, statements: data.statements, apply: () => request(false) });
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!pending) return;
+    setIsSaving(true);
+    try {
+      const response = await pending.apply();
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+      } else {
+        setName('');
+        setColumns([]);
+        setUnique(false);
+        setWhere('');
+      }
+      setPending(null);
+      fetchIndexes();
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reviewCreate = () => {
+    if (columns.length === 0) {
+      setError('Choose at least one column to index');
+      return;
+    }
+    if (name.trim() && !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name.trim())) {
+      setError('Index names must start with a letter or underscore and contain only letters, numbers, and underscores');
+      return;
+    }
+    review('Create Index', (dryRun) => fetch(`/api/tables/${encodeURIComponent(tableName)}/indexes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: name.trim(), columns, method, unique, where, concurrently, dryRun })
+    }));
+  };
+
+  const reviewDrop = (index: IndexInfo) => {
+    review(`Drop Index "${index.name}"`, (dryRun) => {
+      const params = new URLSearchParams({ dryRun: String(dryRun), concurrently: String(concurrently) });
+      return fetch(`/api/tables/${encodeURIComponent(tableName)}/indexes/${encodeURIComponent(index.name)}?${params.toString()}`, {
+        method: 'DELETE'
+      });
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-content-wide">
+        <div className="modal-header">
+          <h3 className="modal-title">Indexes: {tableName}</h3>
+        </div>
+        <div className="modal-body">
+          {error && (
+            <div className="error-message">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="loading-text">Loading...</div>
+          ) : indexes.length === 0 ? (
+            <p className="modal-text">This table has no indexes, so every query reads the whole table.</p>
+          ) : (
+            <table className="table indexes-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Definition</th>
+                  <th>Size</th>
+                  <th title="Index scans since statistics were last reset">Scans</th>
+                  <th title="Index entries returned by scans">Tuples Read</th>
+                  {canEdit && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {indexes.map(index => (
+                  <tr key={index.name} className={index.is_valid ? undefined : 'index-invalid'}>
+                    <td>
+                      {index.name}
+                      {index.constraint_name && <div className="index-note">{index.is_primary ? 'primary key' : `constraint ${index.constraint_name}`}</div>}
+                      {!index.is_valid && <div className="index-note">invalid: a concurrent build failed</div>}
+                    </td>
+                    <td className="index-definition">{index.definition}</td>
+                    <td>{index.size}</td>
+                    <td className={index.scans === 0 ? 'index-unused' : undefined}>{index.scans.toLocaleString()}</td>
+                    <td>{index.tuples_read.toLocaleString()}</td>
+                    {canEdit && (
+                      <td>
+                        {!index.constraint_name && (
+                          <button onClick={() => reviewDrop(index)} className="btn btn-small" disabled={isSaving}>
+                            Drop
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {canEdit && (
+            <div className="index-form">
+              <h4 className="section-title">New Index</h4>
+              <div className="form-row">
+                <label className="form-label">Columns:</label>
+                <ColumnPicker columnNames={columnNames} selected={columns} onChange={setColumns} />
+              </div>
+              <div className="form-row">
+                <label className="form-label">Name:</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Generated from the table and columns"
+                  className="form-input"
+                />
+              </div>
+              <div className="form-row">
+                <label className="form-label">Method:</label>
+                <select
+                  value={method}
+                  onChange={(e) => { setMethod(e.target.value); if (e.target.value !== 'btree') setUnique(false); }}
+                  className="form-select-small"
+                >
+                  {indexMethods.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+                <label className="control-item">
+                  <input
+                    type="checkbox"
+                    checked={unique}
+                    onChange={(e) => setUnique(e.target.checked)}
+                    disabled={method !== 'btree'}
+                  />
+                  Unique
+                </label>
+              </div>
+              <div className="form-row">
+                <label className="form-label">Only rows where:</label>
+                <input
+                  type="text"
+                  value={where}
+                  onChange={(e) => setWhere(e.target.value)}
+                  placeholder="Optional condition for a partial index (e.g., status = 'open')"
+                  className="form-input"
+                />
+              </div>
+              <label className="control-item">
+                <input
+                  type="checkbox"
+                  checked={concurrently}
+                  onChange={(e) => setConcurrently(e.target.checked)}
+                />
+                Concurrently: build and drop without blocking writes to the table (slower)
+              </label>
+            </div>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn" disabled={isSaving}>
+            Close
+          </button>
+          {canEdit && (
+            <button onClick={reviewCreate} className="btn" disabled={isSaving}>
+              Review Index
+            </button>
+          )}
+        </div>
+      </div>
+
+      {pending && (
+        <div className="modal-overlay">
+          <div className="modal-content modal-content-wide">
+            <div className="modal-header">
+              <h3 className="modal-title">{pending.title}</h3>
+            </div>
+            <div className="modal-body">
+              <p className="modal-text">
+                The following statement will run:
+              </p>
+              <pre className="sql-preview">{pending.statements.map(statement => `${statement};`).join('\n')}</pre>
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => setPending(null)} className="btn" disabled={isSaving}>
+                Back
+              </button>
+              <button onClick={handleApply} className="btn" disabled={isSaving}>
+                {isSaving ? 'Running...' : 'Run'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndexesDialog;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+export interface ForeignKeyInfo {
+  table: string;
+  column: string;
+  on_delete: string;
+  display_column: string;
+}
+
+interface LookupOption {
+  value: string;
+  label: string | null;
+}
+
+interface LookupSelectProps {
+  tableName: string;
+  columnName: string;
+  foreignKey: ForeignKeyInfo;
+  value: any;
+  // Label of the current value, when already known
+  label?: string | null;
+  isNullable: boolean;
+  onChange: (value: string | null, label: string | null) => void;
+  // Called after the referenced table's display column was changed. Without
+  // it, the display column cannot be changed from this dropdown.
+  onDisplayColumnChange?: () => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+export const formatLookupLabel = (value: any, label: string | null | undefined) =>
+  label !== null && label !== undefined && label !== String(value) ? `${label} (#${value})` : String(value);
+
+// Searchable dropdown of the rows a foreign key column can reference
+const LookupSelect: React.FC<LookupSelectProps> = ({
+  tableName,
+  columnName,
+  foreignKey,
+  value,
+  label,
+  isNullable,
+  onChange,
+  onDisplayColumnChange,
+  onKeyDown
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [options, setOptions] = useState<LookupOption[]>([]);
+  const [displayColumns, setDisplayColumns] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
+
+  const hasValue = value !== null && value !== undefined && value !== '';
+
+  const fetchOptions = async (term: string) => {
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ search: term });
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/columns/${encodeURIComponent(columnName)}/lookup?${params.toString()}`);
+      const data = await response.json();
+      if (requestId === latestRequest.current && response.ok) {
+        setOptions(data.options);
+        setDisplayColumns(data.displayColumns);
+      }
+    } catch (error) {
+      console.error('Error fetching lookup options:', error);
+    } finally {
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Search as the user types, debounced like the grid's search box
+  useEffect(() => {
+    if (!isOpen) return;
+    const timeout = setTimeout(() => fetchOptions(search), 250);
+    return () => clearTimeout(timeout);
+  }, [isOpen, search, foreignKey.display_column]);
+
+  // Close the dropdown when clicking anywhere else on the page
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const selectOption = (option: LookupOption | null) => {
+    onChange(option ? option.value : null, option ? option.label : null);
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  const handleDisplayColumnChange = async (column: string) => {
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(foreignKey.table)}/display-column`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ column })
+      });
+      if (response.ok) {
+        onDisplayColumnChange?.();
+      }
+    } catch (error) {
+      console.error('Error setting display column:', error);
+    }
+  };
+
+  return (
+    <div className="lookup-select" ref={containerRef} onClick={(e) => e.stopPropagation()}>
+      <input
+        type="text"
+        value={isOpen ? search : hasValue ? formatLookupLabel(value, label) : ''}
+        onChange={(e) => setSearch(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            setIsOpen(false);
+          } else if (e.key === 'Enter' && isOpen && options.length > 0 && search) {
+            e.preventDefault();
+            e.stopPropagation();
+            selectOption(options[0]);
+            return;
+          }
+          onKeyDown?.(e);
+        }}
+        placeholder={isOpen && hasValue ? formatLookupLabel(value, label) : `Search ${foreignKey.table}...`}
+        className="form-input"
+        title={`References ${foreignKey.table}.${foreignKey.column}`}
+      />
+      {isOpen && (
+        <div className="dropdown-menu lookup-menu">
+          {isNullable && (
+            <button type="button" onClick={() => selectOption(null)} className="dropdown-item lookup-none">
+              (none)
+            </button>
+          )}
+          {options.map(option => (
+            <button
+              type="button"
+              key={option.value}
+              onClick={() => selectOption(option)}
+              className={`dropdown-item ${String(value) === option.value ? 'lookup-selected' : ''}`}
+            >
+              {formatLookupLabel(option.value, option.label)}
+            </button>
+          ))}
+          {!loading && options.length === 0 && (
+            <div className="dropdown-option">No matching rows in {foreignKey.table}</div>
+          )}
+          {onDisplayColumnChange && displayColumns.length > 0 && (
+            <label className="dropdown-option">
+              Show {foreignKey.table} by:
+              <select
+                value={foreignKey.display_column}
+                onChange={(e) => handleDisplayColumnChange(e.target.value)}
+                className="form-select-small"
+              >
+                {displayColumns.map(column => (
+                  <option key={column} value={column}>{column}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LookupSelect;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+
+type Choice = 'mine' | 'theirs';
+
+interface RowConflictDialogProps {
+  // Editable columns, in table order
+  columns: string[];
+  // The row as it was loaded, as edited here, and as it is now on the server
+  original: Record<string, any>;
+  mine: Record<string, any>;
+  theirs: Record<string, any>;
+  // Save the resolved values over the server's current row
+  onSave: (values: Record<string, any>) => void;
+  // Discard the edits and show the server's row
+  onTakeTheirs: () => void;
+  onCancel: () => void;
+}
+
+const sameValue = (a: any, b: any) =>
+  (a === null || a === undefined) ? (b === null || b === undefined) : (b !== null && b !== undefined && String(a) === String(b));
+
+const formatValue = (value: any) =>
+  value === null || value === undefined ? 'NULL' : String(value);
+
+// Shows the columns where an edit conflicts with a newer version of the row
+// and lets the user pick, per column, which value to keep
+const RowConflictDialog: React.FC<RowConflictDialogProps> = ({
+  columns,
+  original,
+  mine,
+  theirs,
+  onSave,
+  onTakeTheirs,
+  onCancel
+}) => {
+  const conflicting = columns.filter(column => !sameValue(mine[column], theirs[column]));
+
+  // Keep my value where I changed the column, otherwise take theirs
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(conflicting.map(column => [
+      column,
+      sameValue(mine[column], original[column]) ? 'theirs' : 'mine'
+    ]))
+  );
+
+  const resolve = (pick: (column: string) => Choice) =>
+    Object.fromEntries(columns.map(column => [
+      column,
+      conflicting.includes(column) && pick(column) === 'theirs' ? theirs[column] : mine[column]
+    ]));
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content modal-content-wide">
+        <div className="modal-header">
+          <h3 className="modal-title">This Row Was Changed by Someone Else</h3>
+        </div>
+        <div className="modal-body">
+          <p className="modal-text">
+            The row changed after you started editing it. Choose which value to keep for each column that differs.
+          </p>
+          {conflicting.length === 0 ? (
+            <p className="modal-text">Your edits match the current row.</p>
+          ) : (
+            <table className="table conflict-table">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Yours</th>
+                  <th>Theirs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicting.map(column => (
+                  <tr key={column}>
+                    <td>
+                      {column}
+                      {!sameValue(theirs[column], original[column]) && !sameValue(mine[column], original[column]) && (
+                        <span className="conflict-both" title="Changed by both of you"> ⚠</span>
+                      )}
+                    </td>
+                    {(['mine', 'theirs'] as Choice[]).map(choice => (
+                      <td key={choice} className={choices[column] === choice ? 'conflict-chosen' : ''}>
+                        <label className="conflict-option">
+                          <input
+                            type="radio"
+                            name={`conflict-${column}`}
+                            checked={choices[column] === choice}
+                            onChange={() => setChoices(prev => ({ ...prev, [column]: choice }))}
+                          />
+                          {formatValue(choice === 'mine' ? mine[column] : theirs[column])}
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onCancel} className="btn">
+            Back to Editing
+          </button>
+          <button onClick={onTakeTheirs} className="btn">
+            Take Theirs
+          </button>
+          <button onClick={() => onSave(resolve(() => 'mine'))} className="btn">
+            Keep Mine
+          </button>
+          <button onClick={() => onSave(resolve(column => choices[column]))} className="btn">
+            Save Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RowConflictDialog;
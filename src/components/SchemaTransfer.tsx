@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TableInfo } from './api';
+
+interface ImportPreview {
+  tables: string[];
+  statements: string[];
+}
+
+// Exports table definitions to a file and creates tables from an exported
+// JSON document, such as one taken from another connection
+const SchemaTransfer: React.FC = () => {
+  const navigate = useNavigate();
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [format, setFormat] = useState('json');
+  const [document, setDocument] = useState<any>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetch('/api/tables')
+      .then(response => response.ok ? response.json() : [])
+      .then((data: TableInfo[]) => setTables(data.filter(table => table.kind === 'table')))
+      .catch(err => console.error('Error fetching tables:', err));
+  }, []);
+
+  const toggleTable = (name: string) => {
+    setSelectedTables(prev => prev.includes(name) ? prev.filter(table => table !== name) : [...prev, name]);
+  };
+
+  const handleExport = () => {
+    const params = new URLSearchParams({ tables: selectedTables.join(','), format });
+    const link = window.document.createElement('a');
+    link.href = `/api/schema/export?${params.toString()}`;
+    link.download = '';
+    window.document.body.appendChild(link);
+    link.click();
+    window.document.body.removeChild(link);
+  };
+
+  const sendImport = async (doc: any, dryRun: boolean) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/schema/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document: doc, dryRun })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        return null;
+      }
+      setError('');
+      return data;
+    } catch (err) {
+      setError('Network error occurred');
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage('');
+    setDocument(null);
+    if (!file) return;
+    let doc: any;
+    try {
+      doc = JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} is not a JSON file. SQL exports can be run in the SQL console instead.`);
+      return;
+    }
+    const data = await sendImport(doc, true);
+    if (data) {
+      setDocument(doc);
+      setPreview(data);
+    }
+  };
+
+  const handleImport = async () => {
+    const data = await sendImport(document, false);
+    if (data) {
+      setMessage(`Created ${data.tables.join(', ')}`);
+      setPreview(null);
+      setDocument(null);
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Schema Export and Import</h1>
+        <button onClick={() => navigate('/')} className="btn">
+          ← Back to Database Manager
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      <h3 className="section-title">Export</h3>
+      <p className="info-text">
+        Download the definitions of the chosen tables, with their defaults, constraints and indexes but not their rows.
+        JSON documents can be imported below on another connection; SQL scripts can be run with psql or the SQL console.
+      </p>
+      <div className="schema-table-list">
+        {tables.map(table => (
+          <label key={table.name} className="control-item">
+            <input
+              type="checkbox"
+              checked={selectedTables.includes(table.name)}
+              onChange={() => toggleTable(table.name)}
+            />
+            {table.name}
+          </label>
+        ))}
+      </div>
+      <div className="controls-right">
+        <button
+          onClick={() => setSelectedTables(selectedTables.length === tables.length ? [] : tables.map(table => table.name))}
+          className="btn btn-small"
+        >
+          {selectedTables.length === tables.length ? 'Select None' : 'Select All'}
+        </button>
+        <select value={format} onChange={(e) => setFormat(e.target.value)} className="form-select-small">
+          <option value="json">JSON document</option>
+          <option value="sql">SQL script</option>
+        </select>
+        <button onClick={handleExport} className="btn" disabled={selectedTables.length === 0}>
+          Export {selectedTables.length} Table{selectedTables.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      <h3 className="section-title">Import</h3>
+      <p className="info-text">
+        Create the tables of an exported JSON document on the current connection. None of them may exist yet.
+      </p>
+      <input
+        type="file"
+        accept=".json,application/json"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={isImporting}
+      />
+
+      {message && (
+        <div className="info-box">
+          {message}
+        </div>
+      )}
+
+      {preview && (
+        <div className="schema-import-preview">
+          <p className="info-text">
+            This will create {preview.tables.join(', ')} with these statements:
+          </p>
+          <pre className="sql-preview">{preview.statements.map(statement => `${statement};`).join('\n\n')}</pre>
+          <button onClick={handleImport} className="btn" disabled={isImporting}>
+            {isImporting ? 'Creating...' : 'Create Tables'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaTransfer;
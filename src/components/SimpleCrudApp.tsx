@@ -1,45 +1,162 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import ExportMenu from './ExportMenu';
+import LookupSelect, { ForeignKeyInfo, formatLookupLabel } from './LookupSelect';
+import { useAuth } from './AuthGate';
+import BulkActionBar, { BulkSelection } from './BulkActionBar';
+import RowConflictDialog from './RowConflictDialog';
+import ViewSelector, { ViewSettings } from './ViewSelector';
+import ConnectionSwitcher from './ConnectionSwitcher';
+import ColumnMenu from './ColumnMenu';
+import CellContent from './CellContent';
+import FilterBuilder, { FilterGroup, countConditions, withKnownColumns } from './FilterBuilder';
+import { emptyValueFor, getCellEditor } from './CellEditors';
+import SoftDeleteDialog, { SoftDeleteSettings } from './SoftDeleteDialog';
+import CloneTableDialog from './CloneTableDialog';
+import IndexesDialog from './IndexesDialog';
+import { TableInfo } from './api';
 
-interface TableInfo {
-  table_name: string;
-  table_schema: string;
-}
+const kindLabels: Record<TableInfo['kind'], string> = {
+  table: '',
+  view: ' (view)',
+  materialized_view: ' (materialized view)'
+};
+
+const formatTableLabel = (table: TableInfo) =>
+  table.table_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) + kindLabels[table.kind];
 
 interface TableSchema {
   column_name: string;
   data_type: string;
+  udt_name: string;
   is_nullable: string;
   column_default: string | null;
+  is_identity: string;
+  is_primary_key: boolean;
+  foreign_key?: ForeignKeyInfo | null;
+  enum_values?: string[] | null;
 }
 
 interface ColumnWidths {
   [key: string]: number;
 }
 
+// Pushed by the server when rows of the open table change
+type TableChangeMessage =
+  | { type: 'changes'; changes: Array<{ operation: 'INSERT' | 'UPDATE' | 'DELETE'; key: string[]; row?: any }> }
+  | { type: 'reload' };
+
+const CHANGED_ROW_HIGHLIGHT_MS = 3000;
+
+interface TableDataPage {
+  rows: any[];
+  total: number;
+  tableTotal: number;
+  limit: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+// Columns that record soft deletion, set by deleting and restoring rows
+const softDeleteColumns = ['is_deleted', 'deleted_at', 'deleted_by'];
+
+// Columns the database fills in on insert, left out of the Add Row form
+const isGeneratedColumn = (col: TableSchema) =>
+  col.column_name === 'created_at' ||
+  col.is_identity === 'YES' ||
+  (col.column_default || '').startsWith('nextval(');
+
+const withoutField = (errors: Record<string, string>, field: string) => {
+  if (!(field in errors)) return errors;
+  const { [field]: _removed, ...rest } = errors;
+  return rest;
+};
+
+// Starting values for the Add Row form
+const buildInitialRow = (schema: TableSchema[]) => {
+  const initialRow: Record<string, any> = {};
+  schema.forEach(col => {
+    if (!isGeneratedColumn(col)) {
+      if (col.foreign_key) {
+        initialRow[col.column_name] = null; // Picked from the lookup dropdown
+      } else if (col.column_name === 'is_deleted') {
+        initialRow[col.column_name] = 'false';
+      } else if (col.column_name === 'start_index' || col.column_name === 'end_index' || col.column_name === 'x' || col.column_name === 'y') {
+        initialRow[col.column_name] = 0;
+      } else if (col.column_default === null) {
+        // Columns with a default are left out until edited, so the database fills them in
+        initialRow[col.column_name] = emptyValueFor(col);
+      }
+    }
+  });
+  return initialRow;
+};
+
 const SimpleCrudApp: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user, signOut } = useAuth();
   const [tables, setTables] = useState<TableInfo[]>([]);
-  const [selectedTable, setSelectedTable] = useState<string>('');
+  // Pages that link back here pass the table to reopen in the location state
+  const [selectedTable, setSelectedTable] = useState<string>((location.state as { table?: string } | null)?.table || '');
   const [tableData, setTableData] = useState<any[]>([]);
   const [tableSchema, setTableSchema] = useState<TableSchema[]>([]);
   const [loading, setLoading] = useState(false);
   const [editingRow, setEditingRow] = useState<number | null>(null);
   const [newRow, setNewRow] = useState<Record<string, any>>({});
   const [searchTerm, setSearchTerm] = useState<string>('');
-  const [filteredData, setFilteredData] = useState<any[]>([]);
+  const [appliedSearch, setAppliedSearch] = useState<string>('');
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [appliedFilters, setAppliedFilters] = useState<Record<string, string>>({});
+  // Conditions from the filter builder, applied on top of the column filters
+  const [appliedWhere, setAppliedWhere] = useState<FilterGroup | null>(null);
+  const [showFilterBuilder, setShowFilterBuilder] = useState<boolean>(false);
+  const [pageSize, setPageSize] = useState<number>(100);
+  const [pageOffset, setPageOffset] = useState<number>(0);
+  const [totalRows, setTotalRows] = useState<number>(0);
+  const [tableTotal, setTableTotal] = useState<number>(0);
   const [hideDeleted, setHideDeleted] = useState<boolean>(false);
+  // Show only the soft-deleted rows
+  const [showTrash, setShowTrash] = useState<boolean>(false);
+  const [softDeleteSettings, setSoftDeleteSettings] = useState<SoftDeleteSettings>({ mode: null, retentionDays: null });
+  // The table has the triggers that send its row changes
+  const [liveUpdates, setLiveUpdates] = useState<boolean>(false);
+  const [showSoftDeleteDialog, setShowSoftDeleteDialog] = useState<boolean>(false);
+  const [showCloneDialog, setShowCloneDialog] = useState<boolean>(false);
+  const [showIndexesDialog, setShowIndexesDialog] = useState<boolean>(false);
   const [columnWidths, setColumnWidths] = useState<ColumnWidths>({});
   const [wordWrap, setWordWrap] = useState<boolean>(true);
+  // Column names in display order (empty for table order) and hidden columns
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
   const [isResizing, setIsResizing] = useState<boolean>(false);
   const [resizeStartX, setResizeStartX] = useState<number>(0);
   const [resizeColumn, setResizeColumn] = useState<string>('');
   const [resizeStartWidth, setResizeStartWidth] = useState<number>(0);
   const [showDeleteModal, setShowDeleteModal] = useState<boolean>(false);
   const [isDeletingTable, setIsDeletingTable] = useState<boolean>(false);
+  const [isRefreshingView, setIsRefreshingView] = useState<boolean>(false);
   const [sortColumn, setSortColumn] = useState<string>('');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [sortedData, setSortedData] = useState<any[]>([]);
+  // Selected rows by key, or every row matching the current search and filters
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [selectAllMatching, setSelectAllMatching] = useState<boolean>(false);
+  // Labels of referenced rows, by foreign key column and key value
+  const [lookupLabels, setLookupLabels] = useState<Record<string, Record<string, string | null>>>({});
+  const latestDataRequest = useRef(0);
+  // Rows as they were loaded, by key, captured when editing starts so a
+  // conflicting save can be merged against them
+  const originalRows = useRef<Map<string, any>>(new Map());
+  // A save rejected because the row changed on the server since it was loaded
+  const [conflict, setConflict] = useState<{ rowIndex: number; mine: any; theirs: any } | null>(null);
+  // Values the server rejected, by column, for the row being edited and the Add Row form
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [newRowErrors, setNewRowErrors] = useState<Record<string, string>>({});
+  // Rows recently changed by someone else, by key, highlighted for a moment
+  const [changedRowKeys, setChangedRowKeys] = useState<Set<string>>(new Set());
+  // Set when the table changed too much to patch while a row was being edited
+  const [reloadAfterEdit, setReloadAfterEdit] = useState<boolean>(false);
+  const applyTableChangeRef = useRef<(message: TableChangeMessage) => void>(() => undefined);
 
   // Default column widths
   const defaultColumnWidth = 150;
@@ -51,98 +168,102 @@ const SimpleCrudApp: React.FC = () => {
     fetchTables();
   }, []);
 
-  // Fetch table data and schema when selected table changes
+  // Fetch table schema when selected table changes
   useEffect(() => {
     if (selectedTable) {
-      fetchTableData(selectedTable);
       fetchTableSchema(selectedTable);
     }
   }, [selectedTable]);
 
-  // Initialize column widths when schema changes
+  // Fetch the current page whenever the table or any server-side query option changes
   useEffect(() => {
-    if (tableSchema.length > 0) {
-      const initialWidths: ColumnWidths = {};
-      tableSchema.forEach(col => {
-        // Set wider width for certain column types
-        let width = defaultColumnWidth;
-        if (col.data_type === 'text' || col.column_name.includes('content') || col.column_name.includes('description')) {
-          width = 250;
-        } else if (col.column_name === 'id' || col.column_name === 'created_at') {
-          width = 100;
-        } else if (col.data_type === 'timestamp') {
-          width = 180;
-        }
-        initialWidths[col.column_name] = width;
-      });
-      setColumnWidths(initialWidths);
+    if (selectedTable) {
+      fetchTableData(selectedTable);
     }
-  }, [tableSchema]);
+  }, [selectedTable, pageOffset, pageSize, sortColumn, sortDirection, appliedSearch, appliedFilters, appliedWhere, hideDeleted, showTrash]);
 
-  // Filter data when search term, table data, schema, or hideDeleted changes
+  // A selection only makes sense for the rows it was made from
   useEffect(() => {
-    const hasIsDeletedColumn = tableSchema.some(col => col.column_name === 'is_deleted');
-    let workingData = tableData;
+    clearSelection();
+  }, [selectedTable, appliedSearch, appliedFilters, appliedWhere, hideDeleted, showTrash]);
 
-    if (hideDeleted && hasIsDeletedColumn) {
-      workingData = workingData.filter(row => String(row['is_deleted']) !== 'true');
-    }
+  // Follow other people's changes to the open table. After the stream
+  // reconnects, changes may have been missed, so the page is reloaded.
+  useEffect(() => {
+    if (!selectedTable) return;
+    const source = new EventSource(`/api/tables/${encodeURIComponent(selectedTable)}/changes`);
+    let disconnected = false;
+    source.onmessage = (event) => applyTableChangeRef.current(JSON.parse(event.data));
+    source.onerror = () => { disconnected = true; };
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false;
+        applyTableChangeRef.current({ type: 'reload' });
+      }
+    };
+    return () => source.close();
+  }, [selectedTable]);
 
-    if (searchTerm.trim() === '') {
-      setFilteredData(workingData);
-    } else {
-      const lowered = searchTerm.toLowerCase();
-      const filtered = workingData.filter(row =>
-        Object.values(row).some(value =>
-          value && value.toString().toLowerCase().includes(lowered)
-        )
-      );
-      setFilteredData(filtered);
+  useEffect(() => {
+    if (reloadAfterEdit && editingRow === null && !conflict) {
+      setReloadAfterEdit(false);
+      fetchTableData(selectedTable);
     }
-  }, [searchTerm, tableData, tableSchema, hideDeleted]);
+  }, [reloadAfterEdit, editingRow, conflict]);
 
-  // Apply sorting when sortColumn, sortDirection, or filteredData changes
+  // Debounce the search box and column filters before querying the server
   useEffect(() => {
-    if (sortColumn && filteredData.length > 0) {
-      const sorted = [...filteredData].sort((a, b) => {
-        const aValue = a[sortColumn];
-        const bValue = b[sortColumn];
-        
-        // Handle null/undefined values
-        if (aValue === null || aValue === undefined) return sortDirection === 'asc' ? -1 : 1;
-        if (bValue === null || bValue === undefined) return sortDirection === 'asc' ? 1 : -1;
-        
-        // Handle numeric values
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-        
-        // Handle boolean values
-        if (typeof aValue === 'boolean' && typeof bValue === 'boolean') {
-          return sortDirection === 'asc' ? (aValue === bValue ? 0 : aValue ? 1 : -1) : (aValue === bValue ? 0 : aValue ? -1 : 1);
-        }
-        
-        // Handle string values (case-insensitive)
-        const aStr = String(aValue).toLowerCase();
-        const bStr = String(bValue).toLowerCase();
-        if (sortDirection === 'asc') {
-          return aStr.localeCompare(bStr);
-        } else {
-          return bStr.localeCompare(aStr);
-        }
-      });
-      
-      setSortedData(sorted);
-    } else {
-      // If no sorting, just use filtered data
-      setSortedData(filteredData);
-    }
-  }, [sortColumn, sortDirection, filteredData]);
+    const timeout = setTimeout(() => {
+      const search = searchTerm.trim();
+      if (search === appliedSearch && JSON.stringify(columnFilters) === JSON.stringify(appliedFilters)) return;
+      setAppliedSearch(search);
+      setAppliedFilters(columnFilters);
+      setPageOffset(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, columnFilters]);
+
+  // Look up the labels of referenced rows shown on this page that are not known yet
+  useEffect(() => {
+    tableSchema.forEach(col => {
+      if (!col.foreign_key) return;
+      const known = lookupLabels[col.column_name] || {};
+      const missing = Array.from(new Set(
+        tableData
+          .map(row => row[col.column_name])
+          .filter(value => value !== null && value !== undefined && value !== '')
+          .map(String)
+      )).filter(value => !(value in known));
+      if (missing.length > 0) {
+        fetchLookupLabels(selectedTable, col.column_name, missing);
+      }
+    });
+  }, [tableSchema, tableData]);
+
+  const getInitialColumnWidths = (schema: TableSchema[]): ColumnWidths => {
+    const initialWidths: ColumnWidths = {};
+    schema.forEach(col => {
+      // Set wider width for certain column types
+      let width = defaultColumnWidth;
+      if (col.data_type === 'text' || col.column_name.includes('content') || col.column_name.includes('description')) {
+        width = 250;
+      } else if (col.column_name === 'id' || col.column_name === 'created_at') {
+        width = 100;
+      } else if (col.data_type === 'timestamp') {
+        width = 180;
+      }
+      initialWidths[col.column_name] = width;
+    });
+    return initialWidths;
+  };
 
-  // Initialize sortedData when filteredData changes (for initial load)
+  // Initialize column widths when schema changes, keeping widths already set
+  // by the user or a saved view
   useEffect(() => {
-    setSortedData(filteredData);
-  }, [filteredData]);
+    if (tableSchema.length > 0) {
+      setColumnWidths(prev => ({ ...getInitialColumnWidths(tableSchema), ...prev }));
+    }
+  }, [tableSchema]);
 
   // Handle mouse move for column resizing
   useEffect(() => {
@@ -209,24 +330,32 @@ const SimpleCrudApp: React.FC = () => {
     }));
   };
 
-  const renderCellContent = (value: any) => {
-    const displayValue = value !== null && value !== undefined ? String(value) : '';
-    
-    if (wordWrap) {
-      return (
-        <span className="cell-content">
-          {displayValue}
-        </span>
-      );
-    } else {
-      return (
-        <span className="cell-content-nowrap" title={displayValue}>
-          {displayValue}
-        </span>
-      );
+  const renderCellContent = (value: any) => <CellContent value={value} wordWrap={wordWrap} />;
+
+  const fetchLookupLabels = async (tableName: string, columnName: string, values: string[]) => {
+    try {
+      const params = new URLSearchParams();
+      values.forEach(value => params.append('values', value));
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/columns/${encodeURIComponent(columnName)}/lookup?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) return;
+
+      // Keys with no referenced row are remembered too, so they are not requested again
+      const labels: Record<string, string | null> = Object.fromEntries(values.map(value => [value, null]));
+      data.options.forEach((option: { value: string; label: string | null }) => {
+        labels[option.value] = option.label;
+      });
+      setLookupLabels(prev => ({ ...prev, [columnName]: { ...prev[columnName], ...labels } }));
+    } catch (error) {
+      console.error('Error fetching lookup labels:', error);
     }
   };
 
+  const rememberLookupLabel = (columnName: string, value: string | null, label: string | null) => {
+    if (value === null) return;
+    setLookupLabels(prev => ({ ...prev, [columnName]: { ...prev[columnName], [value]: label } }));
+  };
+
   const fetchTables = async () => {
     try {
       const response = await fetch('/api/tables');
@@ -237,136 +366,338 @@ const SimpleCrudApp: React.FC = () => {
     }
   };
 
+  // Search, filter and sort parameters for the current view, shared by the
+  // data and export endpoints
+  const buildViewParams = () => {
+    const params = new URLSearchParams();
+    if (sortColumn) {
+      params.set('sort', sortColumn);
+      params.set('direction', sortDirection);
+    }
+    if (appliedSearch) {
+      params.set('search', appliedSearch);
+    }
+    if (showTrash) {
+      params.set('deleted', 'true');
+    } else if (hideDeleted) {
+      params.set('hideDeleted', 'true');
+    }
+    Object.entries(appliedFilters).forEach(([column, value]) => {
+      if (value.trim() !== '') {
+        params.set(`filter[${column}]`, value.trim());
+      }
+    });
+    if (appliedWhere) {
+      params.set('where', JSON.stringify(appliedWhere));
+    }
+    return params;
+  };
+
   const fetchTableData = async (tableName: string) => {
+    const requestId = ++latestDataRequest.current;
     setLoading(true);
     try {
-      const response = await fetch(`/api/tables/${tableName}/data`);
-      const data = await response.json();
-      setTableData(data);
-      setFilteredData(data);
+      const params = buildViewParams();
+      params.set('limit', String(pageSize));
+      params.set('offset', String(pageOffset));
+
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/data?${params.toString()}`);
+      const data: TableDataPage = await response.json();
+      // Ignore responses that were overtaken by a newer request
+      if (requestId !== latestDataRequest.current) return;
+      if (!response.ok) {
+        console.error('Error fetching table data:', data);
+        return;
+      }
+      originalRows.current.clear();
+      setTableData(data.rows);
+      setTotalRows(data.total);
+      setTableTotal(data.tableTotal);
     } catch (error) {
       console.error('Error fetching table data:', error);
     } finally {
-      setLoading(false);
+      if (requestId === latestDataRequest.current) {
+        setLoading(false);
+      }
     }
   };
 
-  const fetchTableSchema = async (tableName: string) => {
+  const fetchTableSchema = async (tableName: string, resetNewRow: boolean = true) => {
     try {
-      const response = await fetch(`/api/tables/${tableName}/schema`);
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/schema`);
       const data = await response.json();
       setTableSchema(data);
-      // Initialize new row with appropriate default values
-      const initialRow: Record<string, any> = {};
-      data.forEach((col: TableSchema) => {
-        if (col.column_name !== 'id' && col.column_name !== 'created_at') {
-          if (col.column_name === 'user_id') {
-            initialRow[col.column_name] = 1; // Default user ID
-          } else if (col.column_name === 'is_deleted') {
-            initialRow[col.column_name] = 'false';
-          } else if (col.column_name === 'start_index' || col.column_name === 'end_index' || col.column_name === 'x' || col.column_name === 'y') {
-            initialRow[col.column_name] = 0;
-          } else {
-            initialRow[col.column_name] = '';
-          }
-        }
-      });
-      setNewRow(initialRow);
+      setLookupLabels({});
+      if (resetNewRow) {
+        setNewRow(buildInitialRow(data));
+      }
+      const settingsResponse = await fetch(`/api/tables/${encodeURIComponent(tableName)}/soft-delete`);
+      if (settingsResponse.ok) {
+        setSoftDeleteSettings(await settingsResponse.json());
+      }
+      const liveUpdatesResponse = await fetch(`/api/tables/${encodeURIComponent(tableName)}/live-updates`);
+      if (liveUpdatesResponse.ok) {
+        setLiveUpdates((await liveUpdatesResponse.json()).enabled);
+      }
     } catch (error) {
       console.error('Error fetching table schema:', error);
     }
   };
 
+  // Turning on soft delete changes the table's columns, so the schema and
+  // rows are reloaded
+  const handleSoftDeleteChanged = (settings: SoftDeleteSettings) => {
+    setSoftDeleteSettings(settings);
+    setShowSoftDeleteDialog(false);
+    fetchTableSchema(selectedTable);
+    fetchTableData(selectedTable);
+  };
+
+  // Rows are addressed by their primary key; tables without one are read-only,
+  // as are views and tables the user may only read
+  const primaryKey = tableSchema.filter(col => col.is_primary_key).map(col => col.column_name);
+  const selectedTableInfo = tables.find(table => table.name === selectedTable);
+  const tableAccess = selectedTableInfo?.access || 'read';
+  const tableKind = selectedTableInfo?.kind || 'table';
+  const isView = tableKind !== 'table';
+  const canWriteTable = tableAccess === 'write' || tableAccess === 'admin';
+  const canAdminTable = tableAccess === 'admin' && !isView;
+  const hasNoPrimaryKey = tableSchema.length > 0 && primaryKey.length === 0;
+  const isReadOnlyTable = isView || hasNoPrimaryKey || !canWriteTable;
+
+  const getRowKey = (row: any): string =>
+    primaryKey.length === 1
+      ? String(row[primaryKey[0]])
+      : JSON.stringify(primaryKey.map(column => row[column]));
+
+  const getRowUrl = (row: any) =>
+    `/api/tables/${encodeURIComponent(selectedTable)}/rows/${encodeURIComponent(getRowKey(row))}`;
+
+  const isEditableColumn = (col: TableSchema) =>
+    !col.is_primary_key && col.column_name !== 'created_at' && !softDeleteColumns.includes(col.column_name);
+
+  const softDeleteMode = softDeleteSettings.mode;
+  const isRowDeleted = (row: any) =>
+    softDeleteMode === 'timestamp' ? row.deleted_at !== null && row.deleted_at !== undefined
+      : softDeleteMode === 'flag' ? String(row.is_deleted) === 'true'
+      : false;
+
   const handleEdit = (rowIndex: number) => {
     setEditingRow(rowIndex);
   };
 
-  const handleSave = async (rowIndex: number): Promise<boolean> => {
-    const rowData = tableData[rowIndex];
+  // The row carries the version it was loaded with, so the server rejects
+  // the save with a 409 if someone else changed the row in the meantime
+  const saveRow = async (rowIndex: number, rowData: any): Promise<boolean> => {
     try {
-      const response = await fetch(`/api/tables/${selectedTable}/rows/${rowData.id}`, {
+      const response = await fetch(getRowUrl(rowData), {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(rowData)
       });
-      
+      const data = await response.json();
+
       if (response.ok) {
         // Update local state directly instead of refetching
-        const updatedData = [...tableData];
-        updatedData[rowIndex] = { ...rowData };
-        setTableData(updatedData);
+        originalRows.current.delete(getRowKey(rowData));
+        setTableData(prev => prev.map((row, index) => index === rowIndex ? data : row));
         setEditingRow(null);
+        setRowErrors({});
         return true;
       }
+      if (response.status === 409 && data.details?.current) {
+        setConflict({ rowIndex, mine: rowData, theirs: data.details.current });
+      } else if (response.status === 404) {
+        alert('This row no longer exists. It may have been deleted by someone else.');
+      } else if (response.status === 422 && Object.keys(data.details?.fields || {}).length > 0) {
+        setRowErrors(data.details.fields);
+        // Errors on hidden or read-only columns have no input to show under
+        if (Object.keys(data.details.fields).some(name => !visibleColumns.some(col => col.column_name === name && isEditableColumn(col)))) {
+          alert(data.error);
+        }
+      } else {
+        alert(data.error || 'Failed to save the row');
+      }
     } catch (error) {
       console.error('Error updating row:', error);
     }
     return false;
   };
 
+  const handleSave = (rowIndex: number) => saveRow(rowIndex, tableData[rowIndex]);
+
+  // Save the chosen values on top of the server's current row and version
+  const handleConflictSave = (values: Record<string, any>) => {
+    if (!conflict) return;
+    const merged = { ...conflict.theirs, ...values };
+    originalRows.current.set(getRowKey(conflict.theirs), conflict.theirs);
+    setTableData(prev => prev.map((row, index) => index === conflict.rowIndex ? merged : row));
+    setConflict(null);
+    saveRow(conflict.rowIndex, merged);
+  };
+
+  const handleConflictTakeTheirs = () => {
+    if (!conflict) return;
+    originalRows.current.delete(getRowKey(conflict.theirs));
+    setTableData(prev => prev.map((row, index) => index === conflict.rowIndex ? conflict.theirs : row));
+    setConflict(null);
+    setEditingRow(null);
+    setRowErrors({});
+  };
+
   const handleCancel = () => {
     setEditingRow(null);
+    setRowErrors({});
     // Reset the row data to original values by refetching just this row
     fetchTableData(selectedTable);
   };
 
   const handleRowClick = async (rowIndex: number) => {
-    // Find the actual row in the original tableData
-    const actualRow = sortedData[rowIndex];
-    const actualRowIndex = tableData.findIndex(row => row.id === actualRow.id);
-    
-    if (actualRowIndex === -1) return;
-    
+    if (isReadOnlyTable) return;
+
     // If clicking the same row, ensure it's in edit mode
     if (editingRow === null) {
-      setEditingRow(actualRowIndex);
+      setEditingRow(rowIndex);
       return;
     }
-    if (editingRow === actualRowIndex) return;
+    if (editingRow === rowIndex) return;
     const saved = await handleSave(editingRow);
     if (saved) {
-      setEditingRow(actualRowIndex);
+      setEditingRow(rowIndex);
+    }
+  };
+
+  const rowMatchesKey = (row: any, keyValues: string[]) =>
+    primaryKey.length > 0 && primaryKey.every((column, index) => String(row[column]) === keyValues[index]);
+
+  const highlightChangedRows = (keys: string[]) => {
+    if (keys.length === 0) return;
+    setChangedRowKeys(prev => new Set([...prev, ...keys]));
+    setTimeout(() => {
+      setChangedRowKeys(prev => new Set([...prev].filter(key => !keys.includes(key))));
+    }, CHANGED_ROW_HIGHLIGHT_MS);
+  };
+
+  // Patch the loaded page with changes pushed by the server. The row being
+  // edited keeps its unsaved values; saving it then goes through the usual
+  // conflict check.
+  const applyTableChange = (message: TableChangeMessage) => {
+    const isBusy = editingRow !== null || conflict !== null;
+    if (message.type === 'reload') {
+      if (isBusy) {
+        setReloadAfterEdit(true);
+      } else {
+        fetchTableData(selectedTable);
+      }
+      return;
+    }
+
+    const editingKey = editingRow !== null && tableData[editingRow] ? getRowKey(tableData[editingRow]) : null;
+    const conflictKey = conflict ? getRowKey(conflict.theirs) : null;
+    // Whether a new row matches the search and filters is only known to the
+    // server, so new rows are shown right away only when there are none
+    const isFiltered = appliedSearch !== '' || appliedWhere !== null ||
+      Object.values(appliedFilters).some(value => value.trim() !== '');
+    let rows = tableData;
+    let rowsDelta = 0;
+    let tableDelta = 0;
+    const highlighted: string[] = [];
+
+    for (const change of message.changes) {
+      const index = rows.findIndex(row => rowMatchesKey(row, change.key));
+      const key = index !== -1 ? getRowKey(rows[index]) : null;
+      const isEditing = key !== null && (key === editingKey || key === conflictKey);
+
+      if (change.operation === 'DELETE') {
+        tableDelta--;
+        if (index !== -1 && !isEditing) {
+          rows = rows.filter((_, i) => i !== index);
+          rowsDelta--;
+        }
+        continue;
+      }
+
+      const row = change.row;
+      const isHidden = showTrash ? !isRowDeleted(row) : hideDeleted && isRowDeleted(row);
+      if (index === -1) {
+        if (change.operation !== 'INSERT') continue;
+        tableDelta++;
+        if (!isFiltered && !isHidden) {
+          rows = [...rows, row];
+          rowsDelta++;
+          highlighted.push(getRowKey(row));
+        }
+        continue;
+      }
+
+      // Our own saves come back with the version we already have
+      if (rows[index].tomulator_version === row.tomulator_version) continue;
+      highlighted.push(key!);
+      if (isEditing) continue;
+      if (isHidden) {
+        rows = rows.filter((_, i) => i !== index);
+        rowsDelta--;
+      } else {
+        rows = rows.map((r, i) => i === index ? row : r);
+      }
+    }
+
+    if (rows !== tableData) {
+      setTableData(rows);
+      // Rows are edited by position, which moves when earlier rows go away
+      if (editingKey !== null) {
+        setEditingRow(rows.findIndex(row => getRowKey(row) === editingKey));
+      }
+      if (conflict) {
+        setConflict({ ...conflict, rowIndex: rows.findIndex(row => getRowKey(row) === conflictKey) });
+      }
     }
+    setTotalRows(prev => prev + rowsDelta);
+    setTableTotal(prev => prev + tableDelta);
+    highlightChangedRows(highlighted);
   };
+  applyTableChangeRef.current = applyTableChange;
 
+  // Soft delete a row, or restore a deleted one
   const handleDelete = async (row: any) => {
-    // Only proceed if table has an "is_deleted" column
-    const hasIsDeletedColumn = tableSchema.some(col => col.column_name === 'is_deleted');
-    if (!hasIsDeletedColumn) return;
+    if (!softDeleteMode) return;
 
-    const currentlyDeleted = String(row['is_deleted']) === 'true';
+    const restoring = isRowDeleted(row);
     try {
-      const response = await fetch(`/api/tables/${selectedTable}/rows/${row.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ is_deleted: currentlyDeleted ? 'false' : 'true' })
+      const response = await fetch(restoring ? `${getRowUrl(row)}/restore` : getRowUrl(row), {
+        method: restoring ? 'POST' : 'DELETE'
       });
-      if (response.ok) {
-        // Update local state directly instead of refetching
-        const updatedData = tableData.map(r => 
-          r.id === row.id 
-            ? { ...r, is_deleted: currentlyDeleted ? 'false' : 'true' }
-            : r
-        );
-        setTableData(updatedData);
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to delete the row');
+        return;
+      }
+      // Update local state directly instead of refetching
+      if (showTrash || (hideDeleted && !restoring)) {
+        setTableData(tableData.filter(r => getRowKey(r) !== getRowKey(row)));
+        setTotalRows(prev => prev - 1);
+        return;
       }
+      setTableData(tableData.map(r => getRowKey(r) === getRowKey(row) ? data : r));
     } catch (error) {
       console.error('Error toggling soft delete:', error);
     }
   };
 
-  const handleFullyDelete = async (id: number) => {
+  const handleFullyDelete = async (row: any) => {
     if (!confirm('⚠️ WARNING: This will permanently delete this row from the database!\n\nThis action cannot be undone. Are you absolutely sure?')) return;
     
     try {
-      const response = await fetch(`/api/tables/${selectedTable}/rows/${id}/hard-delete`, {
+      const response = await fetch(`${getRowUrl(row)}/hard-delete`, {
         method: 'DELETE'
       });
       
       if (response.ok) {
         // Update local state directly instead of refetching
-        const updatedData = tableData.filter(r => r.id !== id);
+        const updatedData = tableData.filter(r => getRowKey(r) !== getRowKey(row));
         setTableData(updatedData);
+        setTotalRows(prev => prev - 1);
+        setTableTotal(prev => prev - 1);
       } else {
         alert('Failed to delete row. Please try again.');
       }
@@ -376,24 +707,75 @@ const SimpleCrudApp: React.FC = () => {
     }
   };
 
+  const clearSelection = () => {
+    setSelectedKeys(new Set());
+    setSelectAllMatching(false);
+  };
+
+  const pageKeys = isReadOnlyTable ? [] : tableData.map(getRowKey);
+  const isPageSelected = pageKeys.length > 0 && pageKeys.every(key => selectedKeys.has(key));
+  const selectedCount = selectAllMatching ? totalRows : selectedKeys.size;
+
+  const toggleRowSelection = (key: string) => {
+    setSelectAllMatching(false);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelection = () => {
+    setSelectAllMatching(false);
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      pageKeys.forEach(key => isPageSelected ? next.delete(key) : next.add(key));
+      return next;
+    });
+  };
+
+  const buildBulkSelection = (): BulkSelection => {
+    if (!selectAllMatching) {
+      return { keys: Array.from(selectedKeys) };
+    }
+    const filters = Object.fromEntries(
+      Object.entries(appliedFilters)
+        .filter(([, value]) => value.trim() !== '')
+        .map(([column, value]) => [column, value.trim()])
+    );
+    return { matching: { search: appliedSearch, filters, where: appliedWhere, hideDeleted, deleted: showTrash } };
+  };
+
+  const handleBulkComplete = (message: string) => {
+    clearSelection();
+    setEditingRow(null);
+    fetchTableData(selectedTable);
+    alert(message);
+  };
+
   const handleDeleteTable = async () => {
     if (!selectedTable) return;
     
     setIsDeletingTable(true);
     try {
-      const response = await fetch(`/api/tables/${selectedTable}`, {
+      const response = await fetch(`/api/tables/${encodeURIComponent(selectedTable)}`, {
         method: 'DELETE'
       });
       
       if (response.ok) {
         // Remove the deleted table from the tables list
-        setTables(prev => prev.filter(table => table.table_name !== selectedTable));
+        setTables(prev => prev.filter(table => table.name !== selectedTable));
         
         // Reset the current table selection and data
         setSelectedTable('');
         setTableData([]);
         setTableSchema([]);
-        setFilteredData([]);
+        setTotalRows(0);
+        setTableTotal(0);
         
         // Close the modal
         setShowDeleteModal(false);
@@ -412,35 +794,76 @@ const SimpleCrudApp: React.FC = () => {
     }
   };
 
+  // Add or remove the triggers that notify the server of the table's row changes
+  const handleToggleLiveUpdates = async () => {
+    const enabled = !liveUpdates;
+    const message = enabled
+      ? `This will add triggers to "${selectedTable}" that send its row changes to open grids. Continue?`
+      : `This will remove the live update triggers from "${selectedTable}", so open grids only change when reloaded. Continue?`;
+    if (!window.confirm(message)) return;
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(selectedTable)}/live-updates`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setLiveUpdates(data.enabled);
+      } else {
+        alert(`Failed to change live updates: ${data.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error changing live updates:', error);
+      alert('Error changing live updates. Please try again.');
+    }
+  };
+
+  // Re-run a materialized view's query, then show its new rows
+  const handleRefreshMaterializedView = async () => {
+    setIsRefreshingView(true);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(selectedTable)}/refresh`, { method: 'POST' });
+      if (response.ok) {
+        fetchTableData(selectedTable);
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to refresh view: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error refreshing materialized view:', error);
+      alert('Error refreshing view. Please try again.');
+    } finally {
+      setIsRefreshingView(false);
+    }
+  };
+
   const handleAddRow = async () => {
     try {
-      const response = await fetch(`/api/tables/${selectedTable}/rows`, {
+      const response = await fetch(`/api/tables/${encodeURIComponent(selectedTable)}/rows`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newRow)
       });
       
+      const data = await response.json();
       if (response.ok) {
-        const newRowData = await response.json();
-        // Update local state directly instead of refetching
-        setTableData(prev => [...prev, newRowData]);
+        // Update local state directly instead of refetching. The row may
+        // already have arrived as a live change.
+        setTableData(prev => prev.some(r => getRowKey(r) === getRowKey(data)) ? prev : [...prev, data]);
+        setTotalRows(prev => prev + 1);
+        setTableTotal(prev => prev + 1);
         
         // Reset new row form
-        const initialRow: Record<string, any> = {};
-        tableSchema.forEach((col: TableSchema) => {
-          if (col.column_name !== 'id' && col.column_name !== 'created_at') {
-            if (col.column_name === 'user_id') {
-              initialRow[col.column_name] = 1;
-            } else if (col.column_name === 'is_deleted') {
-              initialRow[col.column_name] = 'false';
-            } else if (col.column_name === 'start_index' || col.column_name === 'end_index' || col.column_name === 'x' || col.column_name === 'y') {
-              initialRow[col.column_name] = 0;
-            } else {
-              initialRow[col.column_name] = '';
-            }
-          }
-        });
-        setNewRow(initialRow);
+        setNewRow(buildInitialRow(tableSchema));
+        setNewRowErrors({});
+      } else if (response.status === 422 && Object.keys(data.details?.fields || {}).length > 0) {
+        setNewRowErrors(data.details.fields);
+        if (Object.keys(data.details.fields).some(name => !tableSchema.some(col => col.column_name === name && !isGeneratedColumn(col)))) {
+          alert(data.error);
+        }
+      } else {
+        alert(data.error || 'Failed to add the row');
       }
     } catch (error) {
       console.error('Error adding row:', error);
@@ -448,16 +871,104 @@ const SimpleCrudApp: React.FC = () => {
   };
 
   const handleInputChange = (rowIndex: number, field: string, value: any) => {
+    const row = tableData[rowIndex];
+    if (!originalRows.current.has(getRowKey(row))) {
+      originalRows.current.set(getRowKey(row), row);
+    }
     const updatedData = [...tableData];
-    updatedData[rowIndex][field] = value;
+    updatedData[rowIndex] = { ...row, [field]: value };
     setTableData(updatedData);
+    setRowErrors(prev => withoutField(prev, field));
   };
 
   const handleNewRowChange = (field: string, value: any) => {
     setNewRow(prev => ({ ...prev, [field]: value }));
+    setNewRowErrors(prev => withoutField(prev, field));
+  };
+
+  const handleTableChange = (tableName: string) => {
+    // Sorting, search and filters refer to the previous table's columns
+    setSortColumn('');
+    setSortDirection('asc');
+    setSearchTerm('');
+    setAppliedSearch('');
+    setColumnFilters({});
+    setAppliedFilters({});
+    setAppliedWhere(null);
+    setShowTrash(false);
+    setSoftDeleteSettings({ mode: null, retentionDays: null });
+    setPageOffset(0);
+    setEditingRow(null);
+    setRowErrors({});
+    setNewRowErrors({});
+    setColumnOrder([]);
+    setHiddenColumns([]);
+    setColumnWidths({});
+    setTableSchema([]);
+    setTableData([]);
+    setTotalRows(0);
+    setTableTotal(0);
+    setSelectedTable(tableName);
+  };
+
+  // Columns in display order, then without the hidden ones. Columns added
+  // since a view was saved go at the end.
+  const orderedColumns = [
+    ...columnOrder.map(name => tableSchema.find(col => col.column_name === name)).filter((col): col is TableSchema => !!col),
+    ...tableSchema.filter(col => !columnOrder.includes(col.column_name))
+  ];
+  const visibleColumns = orderedColumns.filter(col => !hiddenColumns.includes(col.column_name));
+
+  const currentViewSettings: ViewSettings = {
+    columnOrder,
+    hiddenColumns,
+    columnWidths,
+    sortColumn,
+    sortDirection,
+    search: searchTerm,
+    filters: columnFilters,
+    where: appliedWhere,
+    hideDeleted,
+    wordWrap
+  };
+
+  // Show the table as a saved view describes it, ignoring columns that no
+  // longer exist, or reset to the plain layout with null
+  const applyViewSettings = (settings: ViewSettings | null) => {
+    const columnNames = tableSchema.map(col => col.column_name);
+    const known = (names: string[] = []) => names.filter(name => columnNames.includes(name));
+    const knownEntries = <T,>(values: Record<string, T> = {}) =>
+      Object.fromEntries(Object.entries(values).filter(([name]) => columnNames.includes(name)));
+
+    const filters = knownEntries(settings?.filters);
+    const sort = settings && columnNames.includes(settings.sortColumn) ? settings.sortColumn : '';
+    setColumnOrder(known(settings?.columnOrder));
+    setHiddenColumns(known(settings?.hiddenColumns));
+    setColumnWidths({ ...getInitialColumnWidths(tableSchema), ...knownEntries(settings?.columnWidths) });
+    setSortColumn(sort);
+    setSortDirection(sort && settings?.sortDirection === 'desc' ? 'desc' : 'asc');
+    setSearchTerm(settings?.search || '');
+    setAppliedSearch((settings?.search || '').trim());
+    setColumnFilters(filters);
+    setAppliedFilters(filters);
+    setAppliedWhere(withKnownColumns(settings?.where ?? null, columnNames));
+    setHideDeleted(settings?.hideDeleted === true);
+    setWordWrap(settings?.wordWrap ?? true);
+    setPageOffset(0);
+    setEditingRow(null);
+  };
+
+  const handleColumnFilterChange = (columnName: string, value: string) => {
+    setColumnFilters(prev => ({ ...prev, [columnName]: value }));
+  };
+
+  const goToPage = (offset: number) => {
+    setEditingRow(null);
+    setPageOffset(Math.max(0, offset));
   };
 
   const handleHeaderClick = (columnName: string) => {
+    setPageOffset(0);
     if (sortColumn === columnName) {
       // If clicking the same column, toggle direction
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
@@ -468,57 +979,55 @@ const SimpleCrudApp: React.FC = () => {
     }
   };
 
-  const getInputType = (columnName: string, dataType: string) => {
-    if (columnName === 'is_deleted') return 'select';
-    if (dataType === 'integer') return 'number';
-    if (dataType === 'timestamp') return 'datetime-local';
-    return 'text';
+  // Show the server's complaint about a value under its input
+  const renderInput = (
+    column: TableSchema,
+    value: any,
+    onChange: (value: any) => void,
+    onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => void,
+    error?: string
+  ) => {
+    const input = renderEditor(column, value, onChange, onKeyDown);
+    if (!error) return input;
+    return (
+      <div className="field-invalid">
+        {input}
+        <div className="cell-editor-error">{error}</div>
+      </div>
+    );
   };
 
-  const renderInput = (column: TableSchema, value: any, onChange: (value: any) => void, onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => void) => {
-    const inputType = getInputType(column.column_name, column.data_type);
-    
-    if (inputType === 'select' && column.column_name === 'is_deleted') {
-      return (
-        <select
-          value={value || 'false'}
-          onChange={(e) => onChange(e.target.value)}
-          onClick={(e) => e.stopPropagation()}
-          onKeyDown={onKeyDown}
-          className="form-select-small"
-        >
-          <option value="true">true</option>
-          <option value="false">false</option>
-        </select>
-      );
-    }
-    
-    if (inputType === 'number') {
+  const renderEditor = (column: TableSchema, value: any, onChange: (value: any) => void, onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement | HTMLSelectElement>) => void) => {
+    if (column.foreign_key) {
       return (
-        <input
-          type="number"
-          value={value || 0}
-          onChange={(e) => onChange(parseInt(e.target.value) || 0)}
-          onClick={(e) => e.stopPropagation()}
+        <LookupSelect
+          tableName={selectedTable}
+          columnName={column.column_name}
+          foreignKey={column.foreign_key}
+          value={value}
+          label={lookupLabels[column.column_name]?.[String(value)]}
+          isNullable={column.is_nullable === 'YES'}
+          onChange={(newValue, label) => {
+            rememberLookupLabel(column.column_name, newValue, label);
+            onChange(newValue);
+          }}
+          onDisplayColumnChange={
+            tables.find(table => table.name === column.foreign_key!.table)?.access === 'admin'
+              ? () => fetchTableSchema(selectedTable, false)
+              : undefined
+          }
           onKeyDown={onKeyDown}
-          className="form-input"
         />
       );
     }
-    
-    return (
-      <input
-        type="text"
-        value={value || ''}
-        onChange={(e) => onChange(e.target.value)}
-        onClick={(e) => e.stopPropagation()}
-        onKeyDown={onKeyDown}
-        className="form-input"
-        placeholder={column.column_name}
-      />
-    );
+
+    const Editor = getCellEditor(column);
+    return <Editor column={column} value={value} onChange={onChange} onKeyDown={onKeyDown} />;
   };
 
+  // Schemas in the order the server lists their tables, public first
+  const tableSchemas = Array.from(new Set(tables.map(table => table.table_schema)));
+
   const getTableDescription = (tableName: string) => {
     const descriptions: Record<string, string> = {
       'curator_dialog': 'Dialog lines and context for content curation',
@@ -534,12 +1043,47 @@ const SimpleCrudApp: React.FC = () => {
     <div className="crud-app">
       <div className="header-container">
         <h1 className="page-title">Tomulator Database Manager Test App</h1>
-        <button
-          onClick={() => navigate('/new-table')}
-          className="btn"
-        >
-          + Create New Table
-        </button>
+        <div className="header-actions">
+          <ConnectionSwitcher />
+          <span className="signed-in-as">{user.username} ({user.role})</span>
+          {user.role === 'admin' && (
+            <>
+              <button
+                onClick={() => navigate('/users')}
+                className="btn"
+              >
+                Users
+              </button>
+              <button
+                onClick={() => navigate('/connections')}
+                className="btn"
+              >
+                Connections
+              </button>
+              <button
+                onClick={() => navigate('/sql')}
+                className="btn"
+              >
+                SQL Console
+              </button>
+              <button
+                onClick={() => navigate('/schema')}
+                className="btn"
+              >
+                Schema
+              </button>
+              <button
+                onClick={() => navigate('/new-table')}
+                className="btn"
+              >
+                + Create New Table
+              </button>
+            </>
+          )}
+          <button onClick={signOut} className="btn">
+            Sign Out
+          </button>
+        </div>
       </div>
       
       <div style={{ marginBottom: '20px' }}>
@@ -549,33 +1093,56 @@ const SimpleCrudApp: React.FC = () => {
         <select
           id="table-select"
           value={selectedTable}
-          onChange={(e) => setSelectedTable(e.target.value)}
+          onChange={(e) => handleTableChange(e.target.value)}
           className="form-select"
         >
           <option value="">Choose a table...</option>
-          {tables.map(table => (
-            <option key={table.table_name} value={table.table_name}>
-              {table.table_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-            </option>
+          {tableSchemas.map(schema => (
+            <optgroup key={schema} label={schema}>
+              {tables.filter(table => table.table_schema === schema).map(table => (
+                <option key={table.name} value={table.name}>
+                  {formatTableLabel(table)}
+                </option>
+              ))}
+            </optgroup>
           ))}
         </select>
+        {/* Views are applied against the table's columns, so wait for its schema */}
+        {selectedTable && tableSchema.length > 0 && (
+          <ViewSelector
+            key={selectedTable}
+            tableName={selectedTable}
+            currentSettings={currentViewSettings}
+            onApply={applyViewSettings}
+          />
+        )}
       </div>
 
-      {selectedTable && (
+      {selectedTable && isReadOnlyTable && (
+        <div className="info-box read-only-notice">
+          {isView
+            ? `This is a ${tableKind === 'view' ? 'view' : 'materialized view'}, so its rows are read-only.`
+            : hasNoPrimaryKey
+            ? 'This table has no primary key, so its rows are read-only.'
+            : 'You have read-only access to this table.'}
+        </div>
+      )}
+
+      {selectedTable && !isReadOnlyTable && (
         <div style={{ marginBottom: '20px' }}>
           <div className="add-row-section">
             <h4 className="add-row-title">Add New Row</h4>
             <div className="form-grid">
               {tableSchema.map(col => {
-                if (col.column_name === 'id' || col.column_name === 'created_at') {
+                if (isGeneratedColumn(col)) {
                   return null;
                 }
                 return (
-                  <div key={col.column_name} className={`add-row-field ${col.column_name === 'is_deleted' ? 'hidden' : ''}`}>
+                  <div key={col.column_name} className={`add-row-field ${softDeleteColumns.includes(col.column_name) ? 'hidden' : ''}`}>
                     <label className="add-row-label">
                       {col.column_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}:
                     </label>
-                    {renderInput(col, newRow[col.column_name], (value) => handleNewRowChange(col.column_name, value))}
+                    {renderInput(col, newRow[col.column_name], (value) => handleNewRowChange(col.column_name, value), undefined, newRowErrors[col.column_name])}
                   </div>
                 );
               })}
@@ -608,15 +1175,44 @@ const SimpleCrudApp: React.FC = () => {
                 💡 Drag column edges to resize
               </span> */}
 
-              {tableSchema.some(col => col.column_name === 'is_deleted') && (
+              {softDeleteMode && !showTrash && (
                 <label className="control-item">
                   <input
                     type="checkbox"
                     checked={hideDeleted}
-                    onChange={(e) => setHideDeleted(e.target.checked)}
+                    onChange={(e) => { setHideDeleted(e.target.checked); setPageOffset(0); }}
                   />
                   Hide deleted
                 </label>
+              )}
+              {softDeleteMode && (
+                <button
+                  onClick={() => { setShowTrash(!showTrash); setPageOffset(0); setEditingRow(null); }}
+                  className={showTrash ? 'btn btn-primary' : 'btn'}
+                  title="Show only deleted rows, to restore them"
+                >
+                  {showTrash ? 'Leave Trash' : 'Trash'}
+                </button>
+              )}
+              {canAdminTable && (
+                <button
+                  onClick={() => setShowSoftDeleteDialog(true)}
+                  className="btn"
+                  title="Turn on soft delete and set how long deleted rows are kept"
+                >
+                  Soft Delete...
+                </button>
+              )}
+              {canAdminTable && (
+                <button
+                  onClick={handleToggleLiveUpdates}
+                  className={liveUpdates ? 'btn btn-primary' : 'btn'}
+                  title={liveUpdates
+                    ? 'Open grids show other people\'s changes as they happen. Click to remove the triggers that send them.'
+                    : 'Add triggers so open grids show other people\'s changes as they happen'}
+                >
+                  Live Updates
+                </button>
               )}
                <button
                  onClick={() => fetchTableData(selectedTable)}
@@ -625,6 +1221,79 @@ const SimpleCrudApp: React.FC = () => {
                >
                  Reload Table
                </button>
+               {tableKind === 'materialized_view' && canWriteTable && (
+                 <button
+                   onClick={handleRefreshMaterializedView}
+                   disabled={isRefreshingView}
+                   className="btn"
+                   title="Re-run the view's query to bring its rows up to date"
+                 >
+                   {isRefreshingView ? 'Refreshing...' : 'Refresh View'}
+                 </button>
+               )}
+               <button
+                 onClick={() => setShowFilterBuilder(!showFilterBuilder)}
+                 className="btn"
+                 title="Filter rows by conditions on their columns"
+               >
+                 Filters{appliedWhere ? ` (${countConditions(appliedWhere)})` : ''} {showFilterBuilder ? '▴' : '▾'}
+               </button>
+               <ColumnMenu
+                 columns={orderedColumns.map(col => col.column_name)}
+                 hiddenColumns={hiddenColumns}
+                 onChange={(order, hidden) => { setColumnOrder(order); setHiddenColumns(hidden); }}
+               />
+               <ExportMenu tableName={selectedTable} viewParams={buildViewParams()} />
+               {!isReadOnlyTable && (
+                 <button
+                   onClick={() => navigate(`/tables/${encodeURIComponent(selectedTable)}/import`)}
+                   className="btn"
+                   title="Bulk load rows from a CSV or JSON file"
+                 >
+                   Import
+                 </button>
+               )}
+               {canAdminTable && (
+                 <button
+                   onClick={() => navigate(`/tables/${encodeURIComponent(selectedTable)}/structure`)}
+                   className="btn"
+                   title="Add, rename, retype or drop columns"
+                 >
+                   Edit Structure
+                 </button>
+               )}
+               {tableKind !== 'view' && (
+                 <button
+                   onClick={() => setShowIndexesDialog(true)}
+                   className="btn"
+                   title="See the table's indexes and how often they are used, and add or drop them"
+                 >
+                   Indexes
+                 </button>
+               )}
+               {user.role === 'admin' && tableKind === 'table' && (
+                 <button
+                   onClick={() => setShowCloneDialog(true)}
+                   className="btn"
+                   title="Copy this table's structure, and optionally its rows, to a new table"
+                 >
+                   Clone Table
+                 </button>
+               )}
+               <button
+                 onClick={() => navigate(`/tables/${encodeURIComponent(selectedTable)}/profile`)}
+                 className="btn"
+                 title="Row count, size, and nulls, distinct values, ranges and distributions of each column"
+               >
+                 Profile
+               </button>
+               <button
+                 onClick={() => navigate(`/audit?table=${encodeURIComponent(selectedTable)}`)}
+                 className="btn"
+                 title="Browse and revert changes to this table"
+               >
+                 History
+               </button>
                <button
                 onClick={() => {
                   const initialWidths: ColumnWidths = {};
@@ -646,13 +1315,15 @@ const SimpleCrudApp: React.FC = () => {
               >
                 Reset Columns
               </button>
-              <button
-                 onClick={() => setShowDeleteModal(true)}
-                 className="btn"
-                 title="Delete this table and all its data permanently"
-               >
-                 Delete Table
-               </button>
+              {canAdminTable && (
+                <button
+                  onClick={() => setShowDeleteModal(true)}
+                  className="btn"
+                  title="Delete this table and all its data permanently"
+                >
+                  Delete Table
+                </button>
+              )}
               <input
                 type="text"
                 placeholder="Search in all fields..."
@@ -661,25 +1332,83 @@ const SimpleCrudApp: React.FC = () => {
                 className="search-input"
               />
               <span className="row-count">
-                {sortedData.length} of {tableData.length} rows
+                {totalRows === 0 ? 0 : `${pageOffset + 1}–${pageOffset + tableData.length}`} of {totalRows} rows
+                {totalRows !== tableTotal && ` (filtered from ${tableTotal})`}
               </span>
             </div>
           </div>
+          {showFilterBuilder && (
+            <FilterBuilder
+              columns={tableSchema}
+              value={appliedWhere}
+              onApply={(filter) => {
+                setAppliedWhere(filter);
+                setPageOffset(0);
+              }}
+            />
+          )}
         </div>
       )}
 
-      {loading && (
+      {selectedTable && showTrash && (
+        <div className="info-box trash-notice">
+          Trash: showing deleted rows. Restore a row to bring it back.
+          {softDeleteSettings.retentionDays !== null &&
+            ` Rows are permanently deleted ${softDeleteSettings.retentionDays} day${softDeleteSettings.retentionDays === 1 ? '' : 's'} after they were deleted.`}
+        </div>
+      )}
+
+      {selectedTable && !isReadOnlyTable && isPageSelected && !selectAllMatching && totalRows > pageKeys.length && (
+        <div className="info-box selection-notice">
+          All {pageKeys.length} rows on this page are selected.{' '}
+          <button onClick={() => setSelectAllMatching(true)} className="link-button">
+            Select all {totalRows} rows matching the current search and filters
+          </button>
+        </div>
+      )}
+      {selectAllMatching && (
+        <div className="info-box selection-notice">
+          All {totalRows} rows matching the current search and filters are selected.{' '}
+          <button onClick={clearSelection} className="link-button">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {selectedTable && !isReadOnlyTable && selectedCount > 0 && (
+        <BulkActionBar
+          tableName={selectedTable}
+          selection={buildBulkSelection()}
+          selectedCount={selectedCount}
+          columns={tableSchema.filter(isEditableColumn).map(col => col.column_name)}
+          hasSoftDelete={softDeleteMode !== null}
+          onComplete={handleBulkComplete}
+          onClearSelection={clearSelection}
+        />
+      )}
+
+      {loading && tableTotal === 0 && (
         <div className="loading">
           <div className="loading-text">Loading...</div>
         </div>
       )}
 
-      {selectedTable && !loading && filteredData.length > 0 && (
-        <div className="table-container">
+      {selectedTable && tableTotal > 0 && (
+        <div className={`table-container ${loading ? 'table-container-loading' : ''}`}>
           <table className="table">
             <thead>
                               <tr>
-                  {tableSchema.map(col => (
+                  {!isReadOnlyTable && (
+                    <th className="select-column">
+                      <input
+                        type="checkbox"
+                        checked={isPageSelected || selectAllMatching}
+                        onChange={togglePageSelection}
+                        title="Select all rows on this page"
+                      />
+                    </th>
+                  )}
+                  {visibleColumns.map(col => (
                     <th key={col.column_name} 
                       style={{ 
                         width: columnWidths[col.column_name] || defaultColumnWidth,
@@ -692,10 +1421,11 @@ const SimpleCrudApp: React.FC = () => {
                           onClick={() => handleHeaderClick(col.column_name)}
                           onDoubleClick={() => resetColumnWidth(col.column_name)}
                           className={`column-name ${sortColumn === col.column_name ? 'sortable-header sorted' : 'sortable-header'}`}
-                          title={`Click to sort by ${col.column_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}${sortColumn === col.column_name ? ` (currently ${sortDirection === 'asc' ? 'ascending' : 'descending'})` : ''}. Double-click to reset column width.`}
+                          title={`Click to sort by ${col.column_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}${sortColumn === col.column_name ? ` (currently ${sortDirection === 'asc' ? 'ascending' : 'descending'})` : ''}. Double-click to reset column width.${col.foreign_key ? ` References ${col.foreign_key.table}.${col.foreign_key.column} (ON DELETE ${col.foreign_key.on_delete}).` : ''}`}
                           style={{ cursor: 'pointer' }}
                         >
                           {col.column_name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                          {col.foreign_key && <span className="foreign-key-indicator"> →</span>}
                           {sortColumn === col.column_name && (
                             <span className="sort-indicator">
                               {sortDirection === 'asc' ? ' ↑' : ' ↓'}
@@ -715,22 +1445,58 @@ const SimpleCrudApp: React.FC = () => {
                       </div>
                     </th>
                   ))}
-                  <th style={{ width: '120px' }}>Actions</th>
+                  {!isReadOnlyTable && <th style={{ width: '120px' }}>Actions</th>}
+              </tr>
+              <tr className="filter-row">
+                {!isReadOnlyTable && <th className="select-column" />}
+                {visibleColumns.map(col => (
+                  <th key={col.column_name}>
+                    <input
+                      type="text"
+                      value={columnFilters[col.column_name] || ''}
+                      onChange={(e) => handleColumnFilterChange(col.column_name, e.target.value)}
+                      placeholder="Filter..."
+                      className="column-filter-input"
+                    />
+                  </th>
+                ))}
+                {!isReadOnlyTable && <th />}
               </tr>
             </thead>
             <tbody>
-              {sortedData.map((row, displayIndex) => {
-                // Find the actual row index in the original tableData
-                const actualRowIndex = tableData.findIndex(r => r.id === row.id);
+              {tableData.length === 0 && (
+                <tr>
+                  <td colSpan={visibleColumns.length + (isReadOnlyTable ? 0 : 2)} className="no-results">
+                    No rows match the current search and filters.
+                  </td>
+                </tr>
+              )}
+              {tableData.map((row, actualRowIndex) => {
                 const isEditing = editingRow === actualRowIndex;
                 
                 return (
-                  <tr key={row.id || displayIndex} onClick={() => handleRowClick(displayIndex)}>
-                    {tableSchema.map(col => (
+                  <tr
+                    key={primaryKey.length > 0 ? getRowKey(row) : actualRowIndex}
+                    onClick={() => handleRowClick(actualRowIndex)}
+                    className={[
+                      isReadOnlyTable ? 'read-only-row' : '',
+                      changedRowKeys.has(getRowKey(row)) ? 'changed-row' : ''
+                    ].filter(Boolean).join(' ')}
+                  >
+                    {!isReadOnlyTable && (
+                      <td className="select-column" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          type="checkbox"
+                          checked={selectAllMatching || selectedKeys.has(getRowKey(row))}
+                          onChange={() => toggleRowSelection(getRowKey(row))}
+                        />
+                      </td>
+                    )}
+                    {visibleColumns.map(col => (
                       <td key={col.column_name} style={{ 
                         width: columnWidths[col.column_name] || defaultColumnWidth
                       }}>
-                        {isEditing && col.column_name !== 'id' && col.column_name !== 'created_at' ? (
+                        {isEditing && isEditableColumn(col) ? (
                           renderInput(
                             col,
                             row[col.column_name],
@@ -741,84 +1507,95 @@ const SimpleCrudApp: React.FC = () => {
                                 e.stopPropagation();
                                 handleSave(actualRowIndex);
                               }
-                            }
+                            },
+                            rowErrors[col.column_name]
                           )
                         ) : (
-                          <div className={col.column_name === 'is_deleted' && row[col.column_name] === 'true' ? 'soft-deleted' : ''}>
-                            {renderCellContent(row[col.column_name])}
+                          <div className={softDeleteColumns.includes(col.column_name) && isRowDeleted(row) ? 'soft-deleted' : ''}>
+                            {renderCellContent(
+                              col.foreign_key && row[col.column_name] !== null && row[col.column_name] !== undefined
+                                ? formatLookupLabel(row[col.column_name], lookupLabels[col.column_name]?.[String(row[col.column_name])])
+                                : row[col.column_name]
+                            )}
                           </div>
                         )}
                       </td>
                     ))}
-                    <td style={{ textAlign: 'center' }}>
-                      {isEditing ? (
-                        <div className="action-buttons">
-                          <button
-                            onClick={(e) => { e.stopPropagation(); handleSave(actualRowIndex); }}
-                            className="btn btn-small"
-                          >
-                            Save
-                          </button>
-                          <button
-                            onClick={(e) => { e.stopPropagation(); handleCancel(); }}
-                            className="btn btn-small"
-                          >
-                            Cancel
-                          </button>
-                        </div>
-                      ) : (
-                        <div className="action-buttons">
-                          <button
-                            onClick={(e) => { e.stopPropagation(); handleEdit(actualRowIndex); }}
-                            className="btn btn-small"
-                          >
-                            Edit
-                          </button>
-                          <div 
-                            className="delete-button-container"
-                            onMouseEnter={(e) => {
-                              const fullyDeleteBtn = e.currentTarget.querySelector('[data-fully-delete]') as HTMLElement;
-                              if (fullyDeleteBtn) fullyDeleteBtn.style.display = 'flex';
-                            }}
-                            onMouseLeave={(e) => {
-                              const fullyDeleteBtn = e.currentTarget.querySelector('[data-fully-delete]') as HTMLElement;
-                              if (fullyDeleteBtn) fullyDeleteBtn.style.display = 'none';
-                            }}
-                          >
+                    {!isReadOnlyTable && (
+                      <td style={{ textAlign: 'center' }}>
+                        {isEditing ? (
+                          <div className="action-buttons">
                             <button
-                              onClick={(e) => { e.stopPropagation(); handleDelete(row); }}
-                              disabled={!tableSchema.some(col => 
-                                col.column_name === 'is_deleted'
-                              )}
+                              onClick={(e) => { e.stopPropagation(); handleSave(actualRowIndex); }}
                               className="btn btn-small"
-                              style={{
-                                cursor: tableSchema.some(col => 
-                                  col.column_name === 'is_deleted'
-                                ) ? 'pointer' : 'not-allowed',
-                                opacity: tableSchema.some(col => 
-                                  col.column_name === 'is_deleted'
-                                ) ? 1 : 0.7
-                              }}
-                              title={tableSchema.some(col => 
-                                col.column_name === 'is_deleted'
-                              ) ? (String(row['is_deleted']) === 'true' ? 'Un-Delete this row' : 'Soft delete this row') : 'Delete functionality disabled - table missing "is_deleted" column'}
                             >
-                              {String(row['is_deleted']) === 'true' ? 'Re-Add' : 'Delete'}
+                              Save
                             </button>
-                            
-                            {/* Fully Delete button - appears on hover */}
                             <button
-                              data-fully-delete
-                              onClick={(e) => { e.stopPropagation(); handleFullyDelete(row.id); }}
-                              className="fully-delete-btn"
-                              title="Permanently delete this row from database"
+                              onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+                              className="btn btn-small"
                             >
-                              ✕
+                              Cancel
                             </button>
                           </div>
-                        </div>
-                      )}
-                    </td>
+                        ) : (
+                          <div className="action-buttons">
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleEdit(actualRowIndex); }}
+                              className="btn btn-small"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                navigate(`/audit?${new URLSearchParams({ table: selectedTable, key: getRowKey(row) }).toString()}`);
+                              }}
+                              className="btn btn-small"
+                              title="Changes to this row"
+                            >
+                              History
+                            </button>
+                            <div 
+                              className="delete-button-container"
+                              onMouseEnter={(e) => {
+                                const fullyDeleteBtn = e.currentTarget.querySelector('[data-fully-delete]') as HTMLElement;
+                                if (fullyDeleteBtn) fullyDeleteBtn.style.display = 'flex';
+                              }}
+                              onMouseLeave={(e) => {
+                                const fullyDeleteBtn = e.currentTarget.querySelector('[data-fully-delete]') as HTMLElement;
+                                if (fullyDeleteBtn) fullyDeleteBtn.style.display = 'none';
+                              }}
+                            >
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleDelete(row); }}
+                                disabled={!softDeleteMode}
+                                className="btn btn-small"
+                                style={{
+                                  cursor: softDeleteMode ? 'pointer' : 'not-allowed',
+                                  opacity: softDeleteMode ? 1 : 0.7
+                                }}
+                                title={softDeleteMode
+                                  ? (isRowDeleted(row) ? 'Restore this row' : 'Soft delete this row')
+                                  : 'Soft delete is off for this table - use ✕ to delete permanently'}
+                              >
+                                {isRowDeleted(row) ? 'Restore' : 'Delete'}
+                              </button>
+                              
+                              {/* Fully Delete button - appears on hover */}
+                              <button
+                                data-fully-delete
+                                onClick={(e) => { e.stopPropagation(); handleFullyDelete(row); }}
+                                className="fully-delete-btn"
+                                title="Permanently delete this row from database"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 );
               })}
@@ -827,13 +1604,41 @@ const SimpleCrudApp: React.FC = () => {
         </div>
       )}
 
-      {selectedTable && !loading && filteredData.length === 0 && tableData.length > 0 && (
-        <div className="info-box">
-          No results found for "{searchTerm}". Try a different search term.
+      {selectedTable && tableTotal > 0 && (
+        <div className="pagination">
+          <button
+            onClick={() => goToPage(pageOffset - pageSize)}
+            disabled={pageOffset === 0 || loading}
+            className="btn btn-small"
+          >
+            ← Previous
+          </button>
+          <span className="row-count">
+            Page {Math.floor(pageOffset / pageSize) + 1} of {Math.max(1, Math.ceil(totalRows / pageSize))}
+          </span>
+          <button
+            onClick={() => goToPage(pageOffset + pageSize)}
+            disabled={pageOffset + pageSize >= totalRows || loading}
+            className="btn btn-small"
+          >
+            Next →
+          </button>
+          <label className="control-item">
+            Rows per page:
+            <select
+              value={pageSize}
+              onChange={(e) => { setPageSize(parseInt(e.target.value, 10)); setPageOffset(0); }}
+              className="form-select-small pagination-size"
+            >
+              {[50, 100, 250, 500, 1000].map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
         </div>
       )}
 
-      {selectedTable && !loading && tableData.length === 0 && (
+      {selectedTable && !loading && tableTotal === 0 && (
         <div className="info-box">
           No data found in this table. Use the form above to add your first row!
         </div>
@@ -847,7 +1652,7 @@ const SimpleCrudApp: React.FC = () => {
           </p>
           {/* <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))', gap: '20px', marginTop: '30px' }}>
             {tables.slice(0, 4).map(table => (
-              <div key={table.table_name} style={{ 
+              <div key={table.name} style={{ 
                 padding: '20px', 
                 backgroundColor: 'white', 
                 borderRadius: '8px', 
@@ -866,6 +1671,54 @@ const SimpleCrudApp: React.FC = () => {
         </div>
       )}
 
+      {/* Edit Conflict Modal */}
+      {conflict && (
+        <RowConflictDialog
+          columns={tableSchema
+            .filter(col => isEditableColumn(col) && col.column_name !== 'updated_at')
+            .map(col => col.column_name)}
+          original={originalRows.current.get(getRowKey(conflict.theirs)) || conflict.theirs}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          onSave={handleConflictSave}
+          onTakeTheirs={handleConflictTakeTheirs}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {showSoftDeleteDialog && (
+        <SoftDeleteDialog
+          tableName={selectedTable}
+          settings={softDeleteSettings}
+          hasLegacyFlag={tableSchema.some(col =>
+            col.column_name === 'is_deleted' && (col.udt_name !== 'bool' || col.is_nullable === 'YES')
+          )}
+          onClose={() => setShowSoftDeleteDialog(false)}
+          onChanged={handleSoftDeleteChanged}
+        />
+      )}
+
+      {showIndexesDialog && (
+        <IndexesDialog
+          tableName={selectedTable}
+          columnNames={tableSchema.map(col => col.column_name)}
+          canEdit={tableAccess === 'admin'}
+          onClose={() => setShowIndexesDialog(false)}
+        />
+      )}
+
+      {showCloneDialog && (
+        <CloneTableDialog
+          tableName={selectedTable}
+          onClose={() => setShowCloneDialog(false)}
+          onCloned={async (tableName) => {
+            setShowCloneDialog(false);
+            await fetchTables();
+            handleTableChange(tableName);
+          }}
+        />
+      )}
+
       {/* Delete Table Confirmation Modal */}
       {showDeleteModal && (
         <div className="modal-overlay">
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+
+export interface SoftDeleteSettings {
+  mode: 'flag' | 'timestamp' | null;
+  retentionDays: number | null;
+}
+
+interface SoftDeleteDialogProps {
+  tableName: string;
+  settings: SoftDeleteSettings;
+  // The is_deleted column holds text rather than a boolean
+  hasLegacyFlag: boolean;
+  onClose: () => void;
+  // Called after the table's columns or retention changed
+  onChanged: (settings: SoftDeleteSettings) => void;
+}
+
+// Turns on soft delete for a table and sets how long deleted rows are kept
+const SoftDeleteDialog: React.FC<SoftDeleteDialogProps> = ({ tableName, settings, hasLegacyFlag, onClose, onChanged }) => {
+  const [mode, setMode] = useState<'flag' | 'timestamp'>('timestamp');
+  const [retentionDays, setRetentionDays] = useState(settings.retentionDays !== null ? String(settings.retentionDays) : '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const send = async (url: string, method: string, body: any) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Request failed');
+        return;
+      }
+      onChanged(data);
+    } catch (error) {
+      console.error('Error changing soft delete settings:', error);
+      alert('Network error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const enable = (newMode: 'flag' | 'timestamp') => {
+    const changes = newMode === 'flag'
+      ? settings.mode === 'flag'
+        ? `convert the is_deleted column of "${tableName}" to a boolean`
+        : `add an is_deleted boolean column to "${tableName}"`
+      : settings.mode === 'flag'
+        ? `add deleted_at and deleted_by columns to "${tableName}", mark rows flagged as deleted as deleted now, and drop is_deleted`
+        : `add deleted_at and deleted_by columns to "${tableName}"`;
+    if (!window.confirm(`This will ${changes}. Continue?`)) return;
+    send(`/api/tables/${encodeURIComponent(tableName)}/soft-delete`, 'POST', { mode: newMode });
+  };
+
+  const saveRetention = () => {
+    const days = retentionDays.trim() === '' ? null : Number(retentionDays);
+    send(`/api/tables/${encodeURIComponent(tableName)}/soft-delete/retention`, 'PUT', { retentionDays: days });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h3 className="modal-title">Soft Delete: {tableName}</h3>
+        </div>
+        <div className="modal-body">
+          {settings.mode === null && (
+            <>
+              <p className="modal-text">
+                Soft delete is off, so deleting a row removes it permanently. With soft delete on, deleted rows
+                are only marked, can be browsed in the Trash and restored.
+              </p>
+              <label className="soft-delete-option">
+                <input type="radio" checked={mode === 'timestamp'} onChange={() => setMode('timestamp')} />
+                <span>
+                  <strong>deleted_at</strong> and <strong>deleted_by</strong> columns: records when and by whom
+                  each row was deleted, and allows purging deleted rows after a retention period
+                </span>
+              </label>
+              <label className="soft-delete-option">
+                <input type="radio" checked={mode === 'flag'} onChange={() => setMode('flag')} />
+                <span>
+                  An <strong>is_deleted</strong> boolean column
+                </span>
+              </label>
+            </>
+          )}
+
+          {settings.mode === 'flag' && (
+            <>
+              <p className="modal-text">
+                Deleted rows are marked with the <strong>is_deleted</strong> column.
+                {hasLegacyFlag && ' It holds text; convert it to a boolean so it can only be true or false.'}
+              </p>
+              <p className="modal-text">
+                Switch to <strong>deleted_at</strong> to record when rows were deleted and purge them after a
+                retention period.
+              </p>
+            </>
+          )}
+
+          {settings.mode === 'timestamp' && (
+            <>
+              <p className="modal-text">
+                Deleted rows are marked with the time they were deleted in <strong>deleted_at</strong>.
+              </p>
+              <label className="form-label" htmlFor="retention-days">
+                Permanently delete rows this many days after they were deleted (leave empty to keep them):
+              </label>
+              <input
+                id="retention-days"
+                type="number"
+                min={1}
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                placeholder="Keep forever"
+                className="form-input soft-delete-retention"
+              />
+            </>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="btn" disabled={isSaving}>
+            Close
+          </button>
+          {settings.mode === null && (
+            <button onClick={() => enable(mode)} className="btn" disabled={isSaving}>
+              Turn On Soft Delete
+            </button>
+          )}
+          {settings.mode === 'flag' && hasLegacyFlag && (
+            <button onClick={() => enable('flag')} className="btn" disabled={isSaving}>
+              Convert to Boolean
+            </button>
+          )}
+          {settings.mode === 'flag' && (
+            <button onClick={() => enable('timestamp')} className="btn" disabled={isSaving}>
+              Switch to deleted_at
+            </button>
+          )}
+          {settings.mode === 'timestamp' && (
+            <button onClick={saveRetention} className="btn" disabled={isSaving}>
+              Save Retention
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SoftDeleteDialog;
@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import CellContent from './CellContent';
+import ConnectionSwitcher from './ConnectionSwitcher';
+import { TableInfo } from './api';
+
+interface StatementResult {
+  command: string;
+  rowCount: number | null;
+  columns: string[];
+  rows: any[][];
+  truncated: boolean;
+}
+
+interface ConsoleResult {
+  results: StatementResult[];
+  readOnly: boolean;
+  durationMs: number;
+}
+
+interface QueryHistoryEntry {
+  id: number;
+  connection: string;
+  sql: string;
+  read_only: boolean;
+  row_count: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Quote a name for SQL unless Postgres would read it as it is
+const sqlIdentifier = (name: string) =>
+  /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+const SqlConsole: React.FC = () => {
+  const navigate = useNavigate();
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const requestedColumns = useRef(new Set<string>());
+  const [sql, setSql] = useState('');
+  const [readOnly, setReadOnly] = useState(true);
+  const [timeoutSeconds, setTimeoutSeconds] = useState('30');
+  const [maxRows, setMaxRows] = useState('1000');
+  const [wordWrap, setWordWrap] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<ConsoleResult | null>(null);
+  const [error, setError] = useState('');
+  const [history, setHistory] = useState<QueryHistoryEntry[]>([]);
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [columnsByTable, setColumnsByTable] = useState<Record<string, string[]>>({});
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch('/api/sql/history');
+      const data = await response.json();
+      if (response.ok) setHistory(data);
+    } catch (err) {
+      console.error('Error fetching query history:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+    fetch('/api/tables')
+      .then(response => response.ok ? response.json() : [])
+      .then(setTables)
+      .catch(err => console.error('Error fetching tables:', err));
+  }, []);
+
+  const loadColumns = async (tableName: string) => {
+    if (requestedColumns.current.has(tableName)) return;
+    requestedColumns.current.add(tableName);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/schema`);
+      const data = await response.json();
+      if (response.ok) {
+        setColumnsByTable(prev => ({ ...prev, [tableName]: data.map((col: { column_name: string }) => col.column_name) }));
+      }
+    } catch (err) {
+      console.error('Error fetching table schema:', err);
+    }
+  };
+
+  // Tables named in the SQL, whose columns are offered while typing
+  const mentionedTables = (text: string) => {
+    const words = new Set((text.match(/[\w.]+/g) || []).map(word => word.toLowerCase()));
+    return tables.filter(table => words.has(table.name.toLowerCase()));
+  };
+
+  useEffect(() => {
+    mentionedTables(sql).forEach(table => loadColumns(table.name));
+  }, [sql, tables]);
+
+  // Names that could complete the word before the cursor: columns after
+  // "table.", tables after "schema.", otherwise tables and the columns of
+  // tables already in the query
+  const updateSuggestions = (text: string, cursor: number) => {
+    const word = text.slice(0, cursor).match(/[\w.]*$/)![0];
+    const dot = word.lastIndexOf('.');
+    const partial = (dot === -1 ? word : word.slice(dot + 1)).toLowerCase();
+    let candidates: string[];
+    if (dot !== -1) {
+      const qualifier = word.slice(0, dot).toLowerCase();
+      const table = tables.find(t => t.name.toLowerCase() === qualifier);
+      if (table) {
+        loadColumns(table.name);
+        candidates = columnsByTable[table.name] || [];
+      } else {
+        candidates = tables.filter(t => t.table_schema.toLowerCase() === qualifier).map(t => t.table_name);
+      }
+    } else if (partial !== '') {
+      candidates = [
+        ...tables.map(t => t.name),
+        ...mentionedTables(text).flatMap(t => columnsByTable[t.name] || []),
+      ];
+    } else {
+      candidates = [];
+    }
+    const matches = Array.from(new Set(candidates))
+      .filter(name => name.toLowerCase().startsWith(partial) && name.toLowerCase() !== partial)
+      .slice(0, MAX_SUGGESTIONS);
+    setSuggestions(matches);
+    setActiveSuggestion(0);
+  };
+
+  const acceptSuggestion = (suggestion: string) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const cursor = editor.selectionStart;
+    const partial = sql.slice(0, cursor).match(/\w*$/)![0];
+    const inserted = suggestion.split('.').map(sqlIdentifier).join('.');
+    const start = cursor - partial.length;
+    setSql(sql.slice(0, start) + inserted + sql.slice(cursor));
+    setSuggestions([]);
+    requestAnimationFrame(() => {
+      editor.focus();
+      editor.setSelectionRange(start + inserted.length, start + inserted.length);
+    });
+  };
+
+  const runQuery = async () => {
+    if (sql.trim() === '' || isRunning) return;
+    setIsRunning(true);
+    setSuggestions([]);
+    try {
+      const response = await fetch('/api/sql', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sql, readOnly, timeoutSeconds: Number(timeoutSeconds), maxRows: Number(maxRows) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setResult(null);
+        setError(data.error || 'Query failed');
+        // Postgres reports where a syntax error is, counting from 1
+        const position = data.details?.position;
+        if (position && editorRef.current) {
+          editorRef.current.focus();
+          editorRef.current.setSelectionRange(position - 1, position);
+        }
+      } else {
+        setResult(data);
+        setError('');
+      }
+    } catch (err) {
+      console.error('Error running query:', err);
+      setError('Network error occurred');
+    } finally {
+      setIsRunning(false);
+      fetchHistory();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      runQuery();
+      return;
+    }
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+      setActiveSuggestion((activeSuggestion + step) % suggestions.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      acceptSuggestion(suggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm('Clear your query history?')) return;
+    try {
+      const response = await fetch('/api/sql/history', { method: 'DELETE' });
+      if (response.ok) setHistory([]);
+    } catch (err) {
+      console.error('Error clearing query history:', err);
+    }
+  };
+
+  const describeResult = (statement: StatementResult) => {
+    if (statement.columns.length > 0) {
+      return `${statement.rows.length} row${statement.rows.length === 1 ? '' : 's'}` +
+        (statement.truncated ? `, stopped at the ${maxRows} row limit` : '');
+    }
+    return statement.rowCount !== null ? `${statement.command}: ${statement.rowCount} row${statement.rowCount === 1 ? '' : 's'}` : statement.command;
+  };
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">SQL Console</h1>
+        <div className="header-actions">
+          <ConnectionSwitcher />
+          <button onClick={() => navigate('/')} className="btn">
+            ← Back to Database Manager
+          </button>
+        </div>
+      </div>
+
+      <div className="sql-editor">
+        <textarea
+          ref={editorRef}
+          value={sql}
+          onChange={(e) => {
+            setSql(e.target.value);
+            updateSuggestions(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setSuggestions([])}
+          placeholder="SELECT * FROM ..."
+          className="form-input sql-editor-input"
+          spellCheck={false}
+          rows={10}
+        />
+        {suggestions.length > 0 && (
+          <div className="dropdown-menu sql-suggestions">
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion}
+                // Keep the focus in the editor
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(suggestion);
+                }}
+                className={`dropdown-item ${index === activeSuggestion ? 'sql-suggestion-active' : ''}`}
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="controls-container">
+        <div className="controls-right">
+          <label className="control-item" title="Run one statement in a READ ONLY transaction, so it cannot change anything">
+            <input type="checkbox" checked={readOnly} onChange={(e) => setReadOnly(e.target.checked)} />
+            Read-only
+          </label>
+          <label className="control-item">
+            Timeout (s):
+            <input
+              type="number"
+              min={1}
+              max={300}
+              value={timeoutSeconds}
+              onChange={(e) => setTimeoutSeconds(e.target.value)}
+              className="form-input sql-number-input"
+            />
+          </label>
+          <label className="control-item">
+            Row limit:
+            <input
+              type="number"
+              min={1}
+              max={10000}
+              value={maxRows}
+              onChange={(e) => setMaxRows(e.target.value)}
+              className="form-input sql-number-input"
+            />
+          </label>
+          <label className="control-item">
+            <input type="checkbox" checked={wordWrap} onChange={(e) => setWordWrap(e.target.checked)} />
+            Word wrap
+          </label>
+        </div>
+        <button onClick={runQuery} className="btn" disabled={isRunning || sql.trim() === ''} title="Ctrl+Enter">
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+      </div>
+
+      {!readOnly && (
+        <div className="info-box sql-write-warning">
+          Read-only is off: the query can change data and tables. Changes made here are not recorded in the change history.
+        </div>
+      )}
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      {result && result.results.map((statement, index) => (
+        <div key={index} className="sql-result">
+          <div className="row-count">
+            {describeResult(statement)}
+            {index === result.results.length - 1 && ` (${result.durationMs} ms${result.readOnly ? ', read-only' : ''})`}
+          </div>
+          {statement.columns.length > 0 && (
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    {statement.columns.map((column, columnIndex) => (
+                      <th key={columnIndex}>{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {statement.rows.length === 0 && (
+                    <tr>
+                      <td colSpan={statement.columns.length} className="no-results">
+                        No rows.
+                      </td>
+                    </tr>
+                  )}
+                  {statement.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {row.map((value, columnIndex) => (
+                        <td key={columnIndex}>
+                          <CellContent value={value} wordWrap={wordWrap} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="controls-container">
+        <h3 className="section-title-no-margin">History</h3>
+        {history.length > 0 && (
+          <button onClick={handleClearHistory} className="btn btn-small">
+            Clear History
+          </button>
+        )}
+      </div>
+      {history.length === 0 ? (
+        <p className="info-text">Queries you run are listed here.</p>
+      ) : (
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Connection</th>
+                <th>Query</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(entry => (
+                <tr key={entry.id} onClick={() => setSql(entry.sql)} title="Click to load this query into the editor">
+                  <td>{new Date(entry.created_at).toLocaleString()}</td>
+                  <td>{entry.connection}</td>
+                  <td className="sql-history-query">
+                    <CellContent value={entry.sql} wordWrap={false} />
+                  </td>
+                  <td>
+                    {entry.error
+                      ? <span className="sql-history-error" title={entry.error}>Error</span>
+                      : `${entry.row_count ?? 0} rows, ${entry.duration_ms} ms${entry.read_only ? '' : ', read-write'}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SqlConsole;
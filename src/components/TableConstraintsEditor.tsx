@@ -0,0 +1,433 @@
+import React, { useState, useEffect } from 'react';
+import { ColumnDefinition } from './ColumnDefinitionEditor';
+import { TableInfo } from './api';
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+const foreignKeyActions: ForeignKeyAction[] = ['NO ACTION', 'RESTRICT', 'CASCADE', 'SET NULL', 'SET DEFAULT'];
+
+// A table constraint other than the primary key. Postgres names it when the
+// name is left empty.
+export interface ConstraintDefinition {
+  type: 'unique' | 'check' | 'foreign_key';
+  name: string;
+  columns: string[];
+  expression: string;
+  referencedTable: string;
+  // Matched to columns by position
+  referencedColumns: string[];
+  onDelete: ForeignKeyAction;
+}
+
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+interface TableSchema {
+  column_name: string;
+}
+
+const constraintLabels: Record<ConstraintDefinition['type'], string> = {
+  unique: 'Unique',
+  check: 'Check',
+  foreign_key: 'Foreign Key'
+};
+
+const createConstraint = (type: ConstraintDefinition['type']): ConstraintDefinition => ({
+  type,
+  name: '',
+  columns: [],
+  expression: '',
+  referencedTable: '',
+  referencedColumns: [],
+  onDelete: 'NO ACTION'
+});
+
+const identifierPattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Check the constraints and indexes against the table's columns, returning
+// the first problem found
+export const validateConstraints = (
+  tableName: string,
+  columns: ColumnDefinition[],
+  constraints: ConstraintDefinition[],
+  indexes: IndexDefinition[]
+): string | null => {
+  const columnNames = columns.map(col => col.name);
+  const names = [...constraints, ...indexes].map(item => item.name.trim()).filter(name => name !== '');
+  for (const name of names) {
+    if (!identifierPattern.test(name)) {
+      return `Constraint and index names must start with a letter or underscore and contain only letters, numbers, and underscores ("${name}")`;
+    }
+  }
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    return `The name "${duplicate}" is used more than once`;
+  }
+
+  for (const constraint of constraints) {
+    const label = `${constraintLabels[constraint.type]} constraint${constraint.name ? ` "${constraint.name}"` : ''}`;
+    if (constraint.type === 'check') {
+      if (!constraint.expression.trim()) {
+        return `${label} needs an expression, such as price > 0`;
+      }
+      continue;
+    }
+    if (constraint.columns.length === 0) {
+      return `${label} needs at least one column`;
+    }
+    const missing = constraint.columns.find(name => !columnNames.includes(name));
+    if (missing) {
+      return `${label} uses column "${missing}", which is not in the table`;
+    }
+    if (constraint.type === 'foreign_key') {
+      if (!constraint.referencedTable) {
+        return `${label} needs a referenced table`;
+      }
+      if (constraint.referencedColumns.length !== constraint.columns.length || constraint.referencedColumns.some(name => !name)) {
+        return `${label} needs a referenced column for each of its columns`;
+      }
+      if (constraint.referencedTable === tableName && constraint.referencedColumns.some(name => !columnNames.includes(name))) {
+        return `${label} references a column that is not in the table`;
+      }
+      if (constraint.onDelete === 'SET NULL') {
+        const notNull = columns.find(col => constraint.columns.includes(col.name) && !col.isNullable);
+        if (notNull) {
+          return `${label} sets "${notNull.name}" to NULL on delete, but the column is not nullable`;
+        }
+      }
+    }
+  }
+
+  for (const index of indexes) {
+    const label = `Index${index.name ? ` "${index.name}"` : ''}`;
+    if (index.columns.length === 0) {
+      return `${label} needs at least one column`;
+    }
+    const missing = index.columns.find(name => !columnNames.includes(name));
+    if (missing) {
+      return `${label} uses column "${missing}", which is not in the table`;
+    }
+  }
+
+  return null;
+};
+
+interface ColumnPickerProps {
+  columnNames: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Checkboxes for the table's columns. The order they are ticked in is the
+// order of the columns in the constraint or index.
+export const ColumnPicker: React.FC<ColumnPickerProps> = ({ columnNames, selected, onChange }) => (
+  <div className="column-picker">
+    {columnNames.filter(name => name.trim()).map(name => (
+      <label key={name} className="control-item">
+        <input
+          type="checkbox"
+          checked={selected.includes(name)}
+          onChange={(e) => onChange(e.target.checked ? [...selected, name] : selected.filter(col => col !== name))}
+        />
+        {name}
+      </label>
+    ))}
+    {selected.length > 1 && (
+      <span className="column-picker-order">({selected.join(', ')})</span>
+    )}
+  </div>
+);
+
+interface TableConstraintsEditorProps {
+  tableName: string;
+  columns: ColumnDefinition[];
+  constraints: ConstraintDefinition[];
+  indexes: IndexDefinition[];
+  onConstraintsChange: (constraints: ConstraintDefinition[]) => void;
+  onIndexesChange: (indexes: IndexDefinition[]) => void;
+  onError: (message: string) => void;
+}
+
+// Unique, check and foreign key constraints and secondary indexes for a new table
+const TableConstraintsEditor: React.FC<TableConstraintsEditorProps> = ({
+  tableName,
+  columns,
+  constraints,
+  indexes,
+  onConstraintsChange,
+  onIndexesChange,
+  onError
+}) => {
+  const [tables, setTables] = useState<string[]>([]);
+  // Columns of the tables foreign keys reference, by table name
+  const [referencedColumns, setReferencedColumns] = useState<Record<string, string[]>>({});
+  const columnNames = columns.map(col => col.name);
+
+  useEffect(() => {
+    fetch('/api/tables')
+      .then(response => response.ok ? response.json() : [])
+      .then((data: TableInfo[]) => setTables(data.filter(table => table.kind === 'table').map(table => table.name)))
+      .catch(err => console.error('Error fetching tables:', err));
+  }, []);
+
+  const loadReferencedColumns = async (table: string) => {
+    if (!table || table === tableName || referencedColumns[table]) return;
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(table)}/schema`);
+      if (response.ok) {
+        const schema: TableSchema[] = await response.json();
+        setReferencedColumns(prev => ({ ...prev, [table]: schema.map(col => col.column_name) }));
+      }
+    } catch (err) {
+      console.error('Error fetching table schema:', err);
+    }
+  };
+
+  const updateConstraint = (index: number, changes: Partial<ConstraintDefinition>) => {
+    const next = constraints.map((constraint, i) => i === index ? { ...constraint, ...changes } : constraint);
+    onConstraintsChange(next);
+    onError('');
+  };
+
+  const updateIndex = (position: number, changes: Partial<IndexDefinition>) => {
+    onIndexesChange(indexes.map((index, i) => i === position ? { ...index, ...changes } : index));
+    onError('');
+  };
+
+  // Keep the referenced columns lined up with the foreign key's columns
+  const setForeignKeyColumns = (index: number, selected: string[]) => {
+    const constraint = constraints[index];
+    const referenced = selected.map(name => {
+      const previous = constraint.columns.indexOf(name);
+      return previous >= 0 ? constraint.referencedColumns[previous] ?? '' : '';
+    });
+    updateConstraint(index, { columns: selected, referencedColumns: referenced });
+  };
+
+  const setReferencedTable = (index: number, table: string) => {
+    loadReferencedColumns(table);
+    updateConstraint(index, {
+      referencedTable: table,
+      referencedColumns: constraints[index].columns.map(() => '')
+    });
+  };
+
+  const renderDefinition = (constraint: ConstraintDefinition, index: number) => {
+    if (constraint.type === 'check') {
+      return (
+        <input
+          type="text"
+          value={constraint.expression}
+          onChange={(e) => updateConstraint(index, { expression: e.target.value })}
+          placeholder="SQL condition (e.g., price > 0)"
+          className="form-input"
+        />
+      );
+    }
+    if (constraint.type === 'unique') {
+      return (
+        <ColumnPicker
+          columnNames={columnNames}
+          selected={constraint.columns}
+          onChange={(selected) => updateConstraint(index, { columns: selected })}
+        />
+      );
+    }
+
+    const targetColumns = constraint.referencedTable === tableName
+      ? columnNames
+      : referencedColumns[constraint.referencedTable] ?? [];
+    return (
+      <div className="foreign-key-editor">
+        <ColumnPicker
+          columnNames={columnNames}
+          selected={constraint.columns}
+          onChange={(selected) => setForeignKeyColumns(index, selected)}
+        />
+        <div className="foreign-key-row">
+          <span>References</span>
+          <select
+            value={constraint.referencedTable}
+            onChange={(e) => setReferencedTable(index, e.target.value)}
+            className="form-select-small"
+          >
+            <option value="">Select a table</option>
+            {tableName && !tables.includes(tableName) && (
+              <option value={tableName}>{tableName} (this table)</option>
+            )}
+            {tables.map(table => (
+              <option key={table} value={table}>{table}</option>
+            ))}
+          </select>
+        </div>
+        {constraint.referencedTable && constraint.columns.map((column, position) => (
+          <div key={column} className="foreign-key-row">
+            <span>{column} →</span>
+            <select
+              value={constraint.referencedColumns[position] ?? ''}
+              onChange={(e) => updateConstraint(index, {
+                referencedColumns: constraint.referencedColumns.map((name, i) => i === position ? e.target.value : name)
+              })}
+              className="form-select-small"
+            >
+              <option value="">Select a column</option>
+              {targetColumns.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+        <div className="foreign-key-row">
+          <span>On delete</span>
+          <select
+            value={constraint.onDelete}
+            onChange={(e) => updateConstraint(index, { onDelete: e.target.value as ForeignKeyAction })}
+            className="form-select-small"
+          >
+            {foreignKeyActions.map(action => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <div className="controls-container">
+          <h3 className="section-title-no-margin">Constraints</h3>
+          <div className="controls-right">
+            {(Object.keys(constraintLabels) as ConstraintDefinition['type'][]).map(type => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => onConstraintsChange([...constraints, createConstraint(type)])}
+                className="btn"
+              >
+                + {constraintLabels[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {constraints.length === 0 ? (
+          <p className="info-text">No unique, check or foreign key constraints.</p>
+        ) : (
+          <div className="table-container">
+            <table className="table-bordered constraint-table">
+              <thead>
+                <tr>
+                  <th>Type</th>
+                  <th>Name (optional)</th>
+                  <th>Definition</th>
+                  <th className="center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {constraints.map((constraint, index) => (
+                  <tr key={index}>
+                    <td>{constraintLabels[constraint.type]}</td>
+                    <td>
+                      <input
+                        type="text"
+                        value={constraint.name}
+                        onChange={(e) => updateConstraint(index, { name: e.target.value })}
+                        placeholder="Generated"
+                        className="form-input"
+                      />
+                    </td>
+                    <td>{renderDefinition(constraint, index)}</td>
+                    <td className="center">
+                      <button
+                        type="button"
+                        onClick={() => onConstraintsChange(constraints.filter((_, i) => i !== index))}
+                        className="btn"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="form-group">
+        <div className="controls-container">
+          <h3 className="section-title-no-margin">Indexes</h3>
+          <button
+            type="button"
+            onClick={() => onIndexesChange([...indexes, { name: '', columns: [], unique: false }])}
+            className="btn"
+          >
+            + Add Index
+          </button>
+        </div>
+
+        {indexes.length === 0 ? (
+          <p className="info-text">No secondary indexes. The primary key and unique constraints have their own.</p>
+        ) : (
+          <div className="table-container">
+            <table className="table-bordered constraint-table">
+              <thead>
+                <tr>
+                  <th>Name (optional)</th>
+                  <th>Columns</th>
+                  <th className="center">Unique</th>
+                  <th className="center">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {indexes.map((index, position) => (
+                  <tr key={position}>
+                    <td>
+                      <input
+                        type="text"
+                        value={index.name}
+                        onChange={(e) => updateIndex(position, { name: e.target.value })}
+                        placeholder="Generated"
+                        className="form-input"
+                      />
+                    </td>
+                    <td>
+                      <ColumnPicker
+                        columnNames={columnNames}
+                        selected={index.columns}
+                        onChange={(selected) => updateIndex(position, { columns: selected })}
+                      />
+                    </td>
+                    <td className="center">
+                      <input
+                        type="checkbox"
+                        checked={index.unique}
+                        onChange={(e) => updateIndex(position, { unique: e.target.checked })}
+                      />
+                    </td>
+                    <td className="center">
+                      <button
+                        type="button"
+                        onClick={() => onIndexesChange(indexes.filter((_, i) => i !== position))}
+                        className="btn"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default TableConstraintsEditor;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+
+interface HistogramBucket {
+  from: string;
+  to: string;
+  count: number;
+}
+
+interface ColumnProfile {
+  name: string;
+  dataType: string;
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  min: string | null;
+  max: string | null;
+  topValues: { value: string; count: number }[];
+  histogram: HistogramBucket[] | null;
+}
+
+interface Profile {
+  tableName: string;
+  kind: 'table' | 'view' | 'materialized_view';
+  rowCount: number;
+  rowCountExact: boolean;
+  totalSize: string | null;
+  tableSize: string | null;
+  indexesSize: string | null;
+  deadRows: number | null;
+  lastVacuum: string | null;
+  lastAutovacuum: string | null;
+  lastAnalyze: string | null;
+  lastAutoanalyze: string | null;
+  sampled: boolean;
+  profiledRows: number;
+  columns: ColumnProfile[];
+}
+
+const formatPercent = (ratio: number): string => `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.001 ? 2 : 1)}%`;
+
+// The later of a manual and an automatic run
+const formatLastRun = (manual: string | null, auto: string | null): string => {
+  const latest = [manual, auto].filter((time): time is string => time !== null).sort().pop();
+  if (!latest) return 'Never';
+  return `${new Date(latest).toLocaleString()}${latest === auto ? ' (auto)' : ''}`;
+};
+
+const Histogram: React.FC<{ buckets: HistogramBucket[] }> = ({ buckets }) => {
+  const largest = Math.max(...buckets.map(bucket => bucket.count), 1);
+  return (
+    <div className="profile-histogram">
+      {buckets.map((bucket, index) => (
+        <div
+          key={index}
+          className="profile-histogram-bar"
+          style={{ height: `${Math.max((bucket.count / largest) * 100, bucket.count > 0 ? 4 : 0)}%` }}
+          title={`${bucket.from} – ${bucket.to}: ${bucket.count.toLocaleString()}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+// Row count, size and maintenance statistics of a table, and for each column
+// its nulls, distinct values, range, most common values and distribution
+const TableProfile: React.FC = () => {
+  const navigate = useNavigate();
+  const { tableName = '' } = useParams();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchProfile = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/profile`);
+      const data = await response.json();
+      if (response.ok) {
+        setProfile(data);
+      } else {
+        setError(data.error || 'Failed to profile table');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfile();
+  }, [tableName]);
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Profile: {tableName}</h1>
+        <div className="controls-right">
+          <button onClick={fetchProfile} className="btn" disabled={loading}>
+            Refresh
+          </button>
+          <button
+            onClick={() => navigate('/', { state: { table: tableName } })}
+            className="btn"
+          >
+            ← Back to Database Manager
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="loading">
+          <div className="loading-text">Profiling...</div>
+        </div>
+      ) : profile && (
+        <>
+          <div className="profile-summary">
+            <div className="profile-stat">
+              <div className="profile-stat-label">Rows</div>
+              <div className="profile-stat-value">
+                {profile.rowCountExact ? '' : '~'}{profile.rowCount.toLocaleString()}
+              </div>
+            </div>
+            {profile.totalSize !== null && (
+              <div className="profile-stat">
+                <div className="profile-stat-label">Size on disk</div>
+                <div className="profile-stat-value">{profile.totalSize}</div>
+                <div className="profile-stat-note">{profile.tableSize} rows, {profile.indexesSize} indexes</div>
+              </div>
+            )}
+            {profile.deadRows !== null && (
+              <div className="profile-stat">
+                <div className="profile-stat-label">Dead rows</div>
+                <div className="profile-stat-value">{profile.deadRows.toLocaleString()}</div>
+              </div>
+            )}
+            {profile.kind !== 'view' && (
+              <>
+                <div className="profile-stat">
+                  <div className="profile-stat-label">Last vacuum</div>
+                  <div className="profile-stat-note">{formatLastRun(profile.lastVacuum, profile.lastAutovacuum)}</div>
+                </div>
+                <div className="profile-stat">
+                  <div className="profile-stat-label">Last analyze</div>
+                  <div className="profile-stat-note">{formatLastRun(profile.lastAnalyze, profile.lastAutoanalyze)}</div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <p className="info-text">
+            {profile.sampled
+              ? `Columns are profiled from a sample of ${profile.profiledRows.toLocaleString()} rows${profile.kind === 'view' ? ' (the first rows of the view)' : ''}, so counts are of the sample.`
+              : `Columns are profiled from all ${profile.profiledRows.toLocaleString()} rows.`}
+            {!profile.rowCountExact && ' The row count is Postgres\' estimate from the last analyze.'}
+          </p>
+
+          <div className="table-container">
+            <table className="table profile-table">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Type</th>
+                  <th>Nulls</th>
+                  <th>Distinct</th>
+                  <th>Min</th>
+                  <th>Max</th>
+                  <th>Top Values</th>
+                  <th>Distribution</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.columns.map(column => {
+                  const nonNull = profile.profiledRows - column.nullCount;
+                  return (
+                    <tr key={column.name}>
+                      <td><strong>{column.name}</strong></td>
+                      <td>{column.dataType}</td>
+                      <td>
+                        <div className="profile-null-bar" title={`${column.nullCount.toLocaleString()} null`}>
+                          <div style={{ width: formatPercent(column.nullRatio) }} />
+                        </div>
+                        {formatPercent(column.nullRatio)}
+                      </td>
+                      <td>
+                        {column.distinctCount.toLocaleString()}
+                        {nonNull > 1 && column.distinctCount === nonNull && (
+                          <div className="profile-note">all different</div>
+                        )}
+                      </td>
+                      <td className="profile-value">{column.min ?? ''}</td>
+                      <td className="profile-value">{column.max ?? ''}</td>
+                      <td>
+                        {column.topValues.map((top, index) => (
+                          <div key={index} className="profile-top-value">
+                            <span className="profile-value">{top.value}</span>
+                            <span className="profile-note"> × {top.count.toLocaleString()}</span>
+                          </div>
+                        ))}
+                      </td>
+                      <td>
+                        {column.histogram && column.histogram.length > 0 && (
+                          <>
+                            <Histogram buckets={column.histogram} />
+                            <div className="profile-note">
+                              {column.histogram[0].from} – {column.histogram[column.histogram.length - 1].to}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TableProfile;
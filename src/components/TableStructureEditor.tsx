@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import ColumnDefinitionEditor, { ColumnDefinition, validateColumns } from './ColumnDefinitionEditor';
+
+const TableStructureEditor: React.FC = () => {
+  const navigate = useNavigate();
+  const { tableName = '' } = useParams();
+  const [originalColumns, setOriginalColumns] = useState<ColumnDefinition[]>([]);
+  const [columns, setColumns] = useState<ColumnDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reviewStatements, setReviewStatements] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchStructure = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/structure`);
+      const data = await response.json();
+      if (response.ok) {
+        setOriginalColumns(data);
+        setColumns(data);
+      } else {
+        setError(data.error || 'Failed to load table structure');
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStructure();
+  }, [tableName]);
+
+  const submitAlter = async (body: Record<string, any>) => {
+    const response = await fetch(`/api/tables/${encodeURIComponent(tableName)}/alter`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ columns, ...body })
+    });
+    return { response, data: await response.json() };
+  };
+
+  const handleReview = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const columnError = validateColumns(columns, originalColumns);
+    if (columnError) {
+      setError(columnError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const { response, data } = await submitAlter({ dryRun: true });
+      if (!response.ok) {
+        setError(data.error || 'Failed to compute changes');
+      } else if (data.statements.length === 0) {
+        setError('No changes to apply');
+      } else {
+        setReviewStatements(data.statements);
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!reviewStatements) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const { response, data } = await submitAlter({ statements: reviewStatements });
+      if (response.ok) {
+        alert(`Table "${tableName}" updated successfully!`);
+        navigate('/', { state: { table: tableName } });
+      } else if (response.status === 409) {
+        // Someone else changed the table; show the DDL as it stands now
+        setError(data.error);
+        setReviewStatements(data.details?.statements || null);
+      } else {
+        setError(`${data.error || 'Failed to alter table'}${data.details ? `: ${data.details}` : ''}`);
+        setReviewStatements(null);
+      }
+    } catch (err) {
+      setError('Network error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Edit Structure: {tableName}</h1>
+        <button
+          onClick={() => navigate('/', { state: { table: tableName } })}
+          className="btn"
+        >
+          ← Back to Database Manager
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="loading">
+          <div className="loading-text">Loading...</div>
+        </div>
+      ) : (
+        <form onSubmit={handleReview}>
+          <ColumnDefinitionEditor
+            columns={columns}
+            onChange={setColumns}
+            onError={setError}
+            allowKeyChanges={false}
+          />
+
+          <div style={{ textAlign: 'center' }}>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`btn ${isSubmitting ? 'btn-secondary' : ''}`}
+              style={{ marginRight: '15px' }}
+            >
+              Review Changes
+            </button>
+
+            <button
+              type="button"
+              onClick={() => { setColumns(originalColumns); setError(''); }}
+              className="btn"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="info-box-large">
+        <h4 className="tips-title">💡 Tips for Editing Tables</h4>
+        <ul className="tips-text">
+          <li>Rename a column by editing its name; its data is kept</li>
+          <li>Removing a column drops it and all of its data</li>
+          <li>Type changes convert existing values and fail if any value cannot be converted</li>
+          <li>All changes run in a single transaction, so either every change is applied or none is</li>
+        </ul>
+      </div>
+
+      {/* DDL Review Modal */}
+      {reviewStatements && (
+        <div className="modal-overlay">
+          <div className="modal-content modal-content-wide">
+            <div className="modal-header">
+              <h3 className="modal-title">Review Changes to "{tableName}"</h3>
+            </div>
+            <div className="modal-body">
+              <p className="modal-text">
+                The following statements will run in a single transaction:
+              </p>
+              <pre className="sql-preview">{reviewStatements.map(statement => `${statement};`).join('\n')}</pre>
+            </div>
+            <div className="modal-footer">
+              <button
+                onClick={() => setReviewStatements(null)}
+                className="btn"
+                disabled={isSubmitting}
+              >
+                Back to Editing
+              </button>
+              <button
+                onClick={handleApply}
+                className="btn btn-danger"
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? 'Applying...' : 'Apply Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableStructureEditor;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from './AuthGate';
+import { TableInfo, apiRequest } from './api';
+
+interface UserInfo {
+  id: number;
+  username: string;
+  role: string;
+  created_at: string;
+}
+
+interface TablePermission {
+  username: string;
+  access: string;
+}
+
+const roles = ['viewer', 'editor', 'admin'];
+const accessLevels = ['none', 'read', 'write', 'admin'];
+const roleAccess: Record<string, string> = { viewer: 'read', editor: 'write', admin: 'admin' };
+
+const UserAdmin: React.FC = () => {
+  const navigate = useNavigate();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [permissionTable, setPermissionTable] = useState('');
+  const [permissions, setPermissions] = useState<TablePermission[]>([]);
+  const [newUser, setNewUser] = useState({ username: '', password: '', role: 'viewer' });
+  const [error, setError] = useState('');
+
+  const request = <T,>(url: string, method?: string, body?: unknown) => apiRequest<T>(url, setError, method, body);
+
+  const fetchUsers = async () => {
+    const data = await request<UserInfo[]>('/api/users');
+    if (data) setUsers(data);
+  };
+
+  useEffect(() => {
+    fetchUsers();
+    request<TableInfo[]>('/api/tables').then(data => data && setTables(data));
+  }, []);
+
+  useEffect(() => {
+    if (permissionTable) {
+      request<TablePermission[]>(`/api/tables/${encodeURIComponent(permissionTable)}/permissions`).then(data => data && setPermissions(data));
+    } else {
+      setPermissions([]);
+    }
+  }, [permissionTable]);
+
+  const handleAddUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await request('/api/users', 'POST', newUser)) {
+      setNewUser({ username: '', password: '', role: 'viewer' });
+      fetchUsers();
+    }
+  };
+
+  const handleRoleChange = async (username: string, role: string) => {
+    if (await request(`/api/users/${encodeURIComponent(username)}`, 'PUT', { role })) {
+      fetchUsers();
+    }
+  };
+
+  const handleResetPassword = async (username: string) => {
+    const password = window.prompt(`New password for "${username}":`);
+    if (password && await request(`/api/users/${encodeURIComponent(username)}`, 'PUT', { password })) {
+      alert(`Password for "${username}" changed. They will need to sign in again.`);
+    }
+  };
+
+  const handleDeleteUser = async (username: string) => {
+    if (!window.confirm(`Delete user "${username}"?`)) return;
+    if (await request(`/api/users/${encodeURIComponent(username)}`, 'DELETE')) {
+      fetchUsers();
+    }
+  };
+
+  const handlePermissionChange = async (username: string, access: string) => {
+    const data = await request<TablePermission[]>(`/api/tables/${encodeURIComponent(permissionTable)}/permissions`, 'PUT', {
+      username,
+      access: access === '' ? null : access
+    });
+    if (data) setPermissions(data);
+  };
+
+  return (
+    <div className="page-container">
+      <div className="header-container-large">
+        <h1 className="page-title">Users and Permissions</h1>
+        <button onClick={() => navigate('/')} className="btn">
+          ← Back to Database Manager
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          {error}
+        </div>
+      )}
+
+      <h3 className="section-title">Users</h3>
+      <div className="table-container">
+        <table className="table">
+          <thead>
+            <tr>
+              <th>Username</th>
+              <th>Role</th>
+              <th>Created</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(user => (
+              <tr key={user.id}>
+                <td>{user.username}{user.username === currentUser.username && ' (you)'}</td>
+                <td>
+                  <select
+                    value={user.role}
+                    onChange={(e) => handleRoleChange(user.username, e.target.value)}
+                    className="form-select-small"
+                  >
+                    {roles.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>{new Date(user.created_at).toLocaleString()}</td>
+                <td>
+                  <div className="action-buttons">
+                    <button onClick={() => handleResetPassword(user.username)} className="btn btn-small">
+                      Reset Password
+                    </button>
+                    <button onClick={() => handleDeleteUser(user.username)} className="btn btn-small">
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleAddUser} className="add-row-section">
+        <h4 className="add-row-title">Add User</h4>
+        <div className="form-grid">
+          <div className="add-row-field">
+            <label className="add-row-label">Username:</label>
+            <input
+              type="text"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="form-input"
+              required
+            />
+          </div>
+          <div className="add-row-field">
+            <label className="add-row-label">Password:</label>
+            <input
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              autoComplete="new-password"
+              className="form-input"
+              required
+            />
+          </div>
+          <div className="add-row-field">
+            <label className="add-row-label">Role:</label>
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value })}
+              className="form-select-small"
+            >
+              {roles.map(role => (
+                <option key={role} value={role}>{role}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <button type="submit" className="btn">Add User</button>
+      </form>
+
+      <h3 className="section-title">Table Permissions</h3>
+      <p className="info-text">
+        Viewers can read every table, editors can also change rows, and admins can also create, alter and drop tables.
+        Override this for one table below. Admins always have full access.
+      </p>
+      <select
+        value={permissionTable}
+        onChange={(e) => setPermissionTable(e.target.value)}
+        className="form-select"
+      >
+        <option value="">Choose a table...</option>
+        {tables.map(table => (
+          <option key={table.name} value={table.name}>{table.name}</option>
+        ))}
+      </select>
+
+      {permissionTable && (
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Role</th>
+                <th>Access to {permissionTable}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.filter(user => user.role !== 'admin').map(user => (
+                <tr key={user.id}>
+                  <td>{user.username}</td>
+                  <td>{user.role}</td>
+                  <td>
+                    <select
+                      value={permissions.find(permission => permission.username === user.username)?.access || ''}
+                      onChange={(e) => handlePermissionChange(user.username, e.target.value)}
+                      className="form-select-small"
+                    >
+                      <option value="">Role default ({roleAccess[user.role]})</option>
+                      {accessLevels.map(access => (
+                        <option key={access} value={access}>{access}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserAdmin;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from './AuthGate';
+import { FilterGroup } from './FilterBuilder';
+import { apiRequest } from './api';
+
+// Everything about how the grid shows a table that a saved view remembers
+export interface ViewSettings {
+  columnOrder: string[];
+  hiddenColumns: string[];
+  columnWidths: Record<string, number>;
+  sortColumn: string;
+  sortDirection: 'asc' | 'desc';
+  search: string;
+  filters: Record<string, string>;
+  where: FilterGroup | null;
+  hideDeleted: boolean;
+  wordWrap: boolean;
+}
+
+interface SavedView {
+  id: number;
+  name: string;
+  owner: string;
+  shared: boolean;
+  settings: ViewSettings;
+  is_default: boolean;
+}
+
+interface ViewSelectorProps {
+  tableName: string;
+  // The grid's current settings, saved by Save and Save As
+  currentSettings: ViewSettings;
+  // Apply a view's settings, or null to go back to the plain table layout
+  onApply: (settings: ViewSettings | null) => void;
+}
+
+// Compare settings regardless of key order, which the server does not keep
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Picks, saves and shares named grid views of a table. Opening a table
+// applies the user's default view, if they have one.
+const ViewSelector: React.FC<ViewSelectorProps> = ({ tableName, currentSettings, onApply }) => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selectedView = views.find(view => view.id === selectedId) || null;
+  const canEdit = selectedView !== null && (selectedView.owner === user.username || user.role === 'admin');
+  const isModified = selectedView !== null && stableStringify(selectedView.settings) !== stableStringify(currentSettings);
+
+  // Failed requests are reported in an alert
+  const request = <T,>(url: string, method?: string, body?: unknown) =>
+    apiRequest<T>(url, error => { if (error) alert(error); }, method, body);
+
+  useEffect(() => {
+    setViews([]);
+    setSelectedId(null);
+    request<SavedView[]>(`/api/tables/${encodeURIComponent(tableName)}/views`).then(data => {
+      if (!data) return;
+      setViews(data);
+      const defaultView = data.find(view => view.is_default);
+      if (defaultView) {
+        setSelectedId(defaultView.id);
+        onApply(defaultView.settings);
+      }
+    });
+  }, [tableName]);
+
+  const handleSelect = (value: string) => {
+    const view = views.find(v => v.id === Number(value)) || null;
+    setSelectedId(view ? view.id : null);
+    onApply(view ? view.settings : null);
+  };
+
+  const replaceView = (updated: SavedView) => {
+    setViews(prev => prev.map(view => view.id === updated.id ? updated : view));
+  };
+
+  const handleSave = async () => {
+    if (!selectedView) return;
+    const updated = await request<SavedView>(`/api/tables/${encodeURIComponent(tableName)}/views/${selectedView.id}`, 'PUT', { settings: currentSettings });
+    if (updated) replaceView(updated);
+  };
+
+  const handleSaveAs = async () => {
+    const name = window.prompt('Name for this view:', selectedView && selectedView.owner === user.username ? `${selectedView.name} (copy)` : '');
+    if (!name) return;
+    const created = await request<SavedView>(`/api/tables/${encodeURIComponent(tableName)}/views`, 'POST', { name, shared: false, settings: currentSettings });
+    if (created) {
+      setViews(prev => [...prev, created]);
+      setSelectedId(created.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedView || !window.confirm(`Delete the view "${selectedView.name}"?`)) return;
+    if (await request(`/api/tables/${encodeURIComponent(tableName)}/views/${selectedView.id}`, 'DELETE')) {
+      setViews(prev => prev.filter(view => view.id !== selectedView.id));
+      setSelectedId(null);
+    }
+  };
+
+  const handleSharedChange = async (shared: boolean) => {
+    if (!selectedView) return;
+    const updated = await request<SavedView>(`/api/tables/${encodeURIComponent(tableName)}/views/${selectedView.id}`, 'PUT', { shared });
+    if (updated) replaceView(updated);
+  };
+
+  const handleDefaultChange = async (isDefault: boolean) => {
+    const data = await request<SavedView[]>(`/api/tables/${encodeURIComponent(tableName)}/default-view`, 'PUT', {
+      viewId: isDefault && selectedView ? selectedView.id : null
+    });
+    if (data) setViews(data);
+  };
+
+  return (
+    <div className="view-selector">
+      <label htmlFor="view-select" className="view-selector-label">View:</label>
+      <select
+        id="view-select"
+        value={selectedId ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="form-select-small"
+      >
+        <option value="">Table layout</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>
+            {view.name}
+            {view.owner !== user.username ? ` (by ${view.owner})` : view.shared ? ' (shared)' : ''}
+            {view.is_default ? ' ★' : ''}
+          </option>
+        ))}
+      </select>
+      {isModified && <span className="view-modified" title="The grid differs from the saved view">modified</span>}
+      {canEdit && (
+        <button onClick={handleSave} disabled={!isModified} className="btn btn-small">
+          Save
+        </button>
+      )}
+      <button onClick={handleSaveAs} className="btn btn-small">
+        Save As...
+      </button>
+      {selectedView && (
+        <>
+          {canEdit && (
+            <>
+              <label className="control-item">
+                <input
+                  type="checkbox"
+                  checked={selectedView.shared}
+                  onChange={(e) => handleSharedChange(e.target.checked)}
+                />
+                Shared
+              </label>
+              <button onClick={handleDelete} className="btn btn-small">
+                Delete
+              </button>
+            </>
+          )}
+          <label className="control-item">
+            <input
+              type="checkbox"
+              checked={selectedView.is_default}
+              onChange={(e) => handleDefaultChange(e.target.checked)}
+            />
+            My default
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ViewSelector;
@@ -0,0 +1,39 @@
+// A table, view or materialized view, as listed by /api/tables
+export interface TableInfo {
+  // The name the API uses: bare for tables in public, schema.name otherwise
+  name: string;
+  table_name: string;
+  table_schema: string;
+  kind: 'table' | 'view' | 'materialized_view';
+  // The signed-in user's access: read, write or admin
+  access: string;
+}
+
+// Send a JSON request to the API and resolve to the response body, or to null
+// if it failed. report is called with the error message of a failed request,
+// and with '' once a request succeeds, so it can set an error message state.
+export async function apiRequest<T>(
+  url: string,
+  report: (error: string) => void,
+  method: string = 'GET',
+  body?: unknown
+): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      report(data.error || 'Request failed');
+      return null;
+    }
+    report('');
+    return data;
+  } catch (error) {
+    console.error(`Error requesting ${url}:`, error);
+    report('Network error occurred');
+    return null;
+  }
+}
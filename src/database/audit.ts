@@ -0,0 +1,301 @@
+import type { PoolClient } from 'pg';
+import pool, { withTransaction } from './connection';
+import { ApiError } from './errors';
+import { ResolvedTable, canonicalTableName, parseRowKey, quoteIdentifier, requireBaseTable, resolveTable, rowKeyCondition } from './identifiers';
+import { ensureMetadataTable } from './metadata';
+
+export type RowOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+export type TableOperation = 'CREATE TABLE' | 'ALTER TABLE' | 'DROP TABLE' | 'REFRESH MATERIALIZED VIEW' | 'CREATE INDEX' | 'DROP INDEX';
+type RowImage = Record<string, any>;
+
+export interface AuditEntry {
+  id: string;
+  occurred_at: string;
+  actor: string;
+  operation: RowOperation | TableOperation;
+  table_name: string;
+  // Primary key values as text, in table column order
+  row_key: string[] | null;
+  before_image: RowImage | null;
+  after_image: RowImage | null;
+  details: Record<string, any> | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  // Pass as beforeId to fetch the next, older page
+  nextBeforeId: string | null;
+}
+
+const AUDIT_TABLE = 'tomulator_audit_log';
+const ROW_OPERATIONS: string[] = ['INSERT', 'UPDATE', 'DELETE'];
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 500;
+
+// Alias and output column used to capture a row's JSON image in the same
+// statement that changes it
+export const ROW_ALIAS = 'tomulator_row';
+export const IMAGE_COLUMN = 'tomulator_image';
+// Rows read for editing carry a version token, the row's xmin, which changes
+// whenever the row is updated
+export const VERSION_FIELD = 'tomulator_version';
+export const RETURNING_WITH_IMAGE =
+  `RETURNING *, ${ROW_ALIAS}.xmin::text AS ${VERSION_FIELD}, to_jsonb(${ROW_ALIAS}) AS ${IMAGE_COLUMN}`;
+
+function ensureAuditTable(): Promise<boolean> {
+  return ensureMetadataTable(AUDIT_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+      id BIGSERIAL PRIMARY KEY,
+      occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      actor TEXT NOT NULL,
+      operation TEXT NOT NULL,
+      table_name TEXT NOT NULL,
+      row_key JSONB,
+      before_image JSONB,
+      after_image JSONB,
+      details JSONB
+    );
+    CREATE INDEX IF NOT EXISTS ${AUDIT_TABLE}_table_idx ON ${AUDIT_TABLE} (table_name, row_key, id)
+  `);
+}
+
+// Split the image selected by RETURNING_WITH_IMAGE from the returned row
+export function takeImage(result: RowImage): { row: RowImage; image: RowImage } {
+  const { [IMAGE_COLUMN]: image, ...row } = result;
+  return { row, image };
+}
+
+// Read and lock a row's current image and version, or null if it does not exist
+export async function lockRow(
+  client: PoolClient,
+  table: ResolvedTable,
+  keyValues: string[]
+): Promise<{ image: RowImage; version: string } | null> {
+  const params: any[] = [];
+  const result = await client.query(`
+    SELECT to_jsonb(${ROW_ALIAS}) AS image, ${ROW_ALIAS}.xmin::text AS version
+    FROM ${table.qualifiedName} AS ${ROW_ALIAS}
+    WHERE ${rowKeyCondition(table, keyValues, params)}
+    FOR UPDATE
+  `, params);
+  return result.rows[0] ?? null;
+}
+
+export async function lockRowImage(client: PoolClient, table: ResolvedTable, keyValues: string[]): Promise<RowImage | null> {
+  return (await lockRow(client, table, keyValues))?.image ?? null;
+}
+
+// Record a row change in the same transaction as the change itself. The row
+// key is read from the image so it matches the key's text form exactly.
+export async function recordRowChange(
+  client: PoolClient,
+  actor: string,
+  operation: RowOperation,
+  table: ResolvedTable,
+  before: RowImage | null,
+  after: RowImage | null,
+  details: Record<string, any> | null = null
+): Promise<AuditEntry> {
+  await ensureAuditTable();
+  const result = await client.query(`
+    INSERT INTO ${AUDIT_TABLE} (actor, operation, table_name, row_key, before_image, after_image, details)
+    SELECT $1, $2, $3,
+      CASE WHEN cardinality($4::text[]) > 0 THEN (
+        SELECT jsonb_agg(COALESCE($6::jsonb, $5::jsonb) ->> key_column ORDER BY position)
+        FROM unnest($4::text[]) WITH ORDINALITY AS k(key_column, position)
+      ) END,
+      $5::jsonb, $6::jsonb, $7::jsonb
+    RETURNING *
+  `, [
+    actor,
+    operation,
+    table.name,
+    table.primaryKey,
+    before && JSON.stringify(before),
+    after && JSON.stringify(after),
+    details && JSON.stringify(details),
+  ]);
+  return result.rows[0];
+}
+
+// Run a statement that changes many rows and record each change in one go.
+// The statement must return before_image and after_image columns; its
+// parameters are numbered from $1 as usual. Returns the number of rows changed.
+export async function recordBulkChange(
+  client: PoolClient,
+  actor: string,
+  operation: RowOperation,
+  table: ResolvedTable,
+  statement: string,
+  params: any[],
+  details: Record<string, any>
+): Promise<number> {
+  await ensureAuditTable();
+  const n = params.length;
+  const result = await client.query(`
+    WITH changed AS (${statement})
+    INSERT INTO ${AUDIT_TABLE} (actor, operation, table_name, row_key, before_image, after_image, details)
+    SELECT $${n + 1}, $${n + 2}, $${n + 3},
+      CASE WHEN cardinality($${n + 4}::text[]) > 0 THEN (
+        SELECT jsonb_agg(COALESCE(after_image, before_image) ->> key_column ORDER BY position)
+        FROM unnest($${n + 4}::text[]) WITH ORDINALITY AS k(key_column, position)
+      ) END,
+      before_image, after_image, $${n + 5}::jsonb
+    FROM changed
+  `, [...params, actor, operation, table.name, table.primaryKey, JSON.stringify(details)]);
+  return result.rowCount ?? 0;
+}
+
+export async function recordTableChange(
+  client: PoolClient,
+  actor: string,
+  operation: TableOperation,
+  tableName: string,
+  details: Record<string, any>
+): Promise<void> {
+  await ensureAuditTable();
+  await client.query(
+    `INSERT INTO ${AUDIT_TABLE} (actor, operation, table_name, details) VALUES ($1, $2, $3, $4::jsonb)`,
+    [actor, operation, tableName, JSON.stringify(details)]
+  );
+}
+
+// Newest entries first, optionally for one table or one row of it. Table
+// history is kept after the table is dropped; row history needs the table
+// to exist so the key can be parsed.
+export async function getAuditLog(options: {
+  table?: string;
+  key?: string;
+  limit?: number;
+  beforeId?: string;
+} = {}): Promise<AuditLogPage> {
+  // A read-only connection to a database the app never wrote to has no log
+  if (!(await ensureAuditTable())) {
+    return { entries: [], nextBeforeId: null };
+  }
+  const limit = options.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+  const params: any[] = [];
+  const conditions: string[] = [];
+
+  if (options.table) {
+    params.push(canonicalTableName(options.table));
+    conditions.push(`table_name = $${params.length}`);
+  }
+  if (options.key !== undefined) {
+    if (!options.table) {
+      throw new ApiError(400, 'A row key can only be given together with a table');
+    }
+    const table = await resolveTable(options.table);
+    params.push(JSON.stringify(parseRowKey(table, options.key)));
+    conditions.push(`row_key = $${params.length}::jsonb`);
+  }
+  if (options.beforeId) {
+    params.push(options.beforeId);
+    conditions.push(`id < $${params.length}`);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  params.push(limit);
+  const result = await pool.query(
+    `SELECT * FROM ${AUDIT_TABLE} ${whereClause} ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+
+  return {
+    entries: result.rows,
+    nextBeforeId: result.rows.length === limit ? result.rows[result.rows.length - 1].id : null,
+  };
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry> {
+  const result = await ensureAuditTable()
+    ? await pool.query(`SELECT * FROM ${AUDIT_TABLE} WHERE id = $1`, [id])
+    : { rows: [] };
+  if (result.rows.length === 0) {
+    throw new ApiError(404, `Audit entry ${id} not found`);
+  }
+  return result.rows[0];
+}
+
+// Put a row back the way it was before an audited change: delete it if the
+// change inserted it, otherwise restore the before image, re-inserting the
+// row if it has since been deleted. Unless force is set, the row must still
+// look as the change left it, so later edits are not silently overwritten.
+export async function revertChange(id: string, actor: string, options: { force?: boolean } = {}): Promise<AuditEntry> {
+  await ensureAuditTable();
+  return withTransaction(async client => {
+    const entryResult = await client.query(`SELECT * FROM ${AUDIT_TABLE} WHERE id = $1`, [id]);
+    const entry: AuditEntry | undefined = entryResult.rows[0];
+    if (!entry) {
+      throw new ApiError(404, `Audit entry ${id} not found`);
+    }
+    if (!ROW_OPERATIONS.includes(entry.operation)) {
+      throw new ApiError(400, `${entry.operation} changes cannot be reverted`);
+    }
+    if (!entry.row_key) {
+      throw new ApiError(400, `Rows of table "${entry.table_name}" have no primary key, so changes to them cannot be reverted`);
+    }
+
+    const table = await resolveTable(entry.table_name);
+    requireBaseTable(table);
+    const keyValues = entry.row_key;
+    const current = await lockRowImage(client, table, keyValues);
+
+    if (!options.force) {
+      const same = await client.query(
+        'SELECT $1::jsonb IS NOT DISTINCT FROM $2::jsonb AS same',
+        [current && JSON.stringify(current), entry.after_image && JSON.stringify(entry.after_image)]
+      );
+      if (!same.rows[0].same) {
+        throw new ApiError(409, 'The row has changed since this change was made', { current });
+      }
+    }
+
+    const details = { revert_of: entry.id };
+    const before = entry.before_image;
+    const params: any[] = [];
+
+    if (!before) {
+      if (!current) {
+        throw new ApiError(409, 'The row has already been deleted');
+      }
+      await client.query(
+        `DELETE FROM ${table.qualifiedName} WHERE ${rowKeyCondition(table, keyValues, params)}`,
+        params
+      );
+      return recordRowChange(client, actor, 'DELETE', table, current, null, details);
+    }
+
+    // Columns dropped since the change are skipped; columns added since keep
+    // their current value or default
+    const columns = table.columns
+      .map(col => col.column_name)
+      .filter(name => name in before);
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    params.push(JSON.stringify(before));
+    const source = `jsonb_populate_record(NULL::${table.qualifiedName}, $1::jsonb)`;
+
+    if (current) {
+      const assigned = columns.filter(name => !table.primaryKey.includes(name));
+      if (assigned.length === 0) {
+        throw new ApiError(409, 'The row has no columns to restore besides its key');
+      }
+      const assignedList = assigned.map(quoteIdentifier).join(', ');
+      const result = await client.query(`
+        UPDATE ${table.qualifiedName} AS ${ROW_ALIAS}
+        SET (${assignedList}) = (SELECT ${assignedList} FROM ${source})
+        WHERE ${rowKeyCondition(table, keyValues, params)}
+        RETURNING to_jsonb(${ROW_ALIAS}) AS image
+      `, params);
+      return recordRowChange(client, actor, 'UPDATE', table, current, result.rows[0].image, details);
+    }
+
+    const result = await client.query(`
+      INSERT INTO ${table.qualifiedName} AS ${ROW_ALIAS} (${columnList})
+      OVERRIDING SYSTEM VALUE
+      SELECT ${columnList} FROM ${source}
+      RETURNING to_jsonb(${ROW_ALIAS}) AS image
+    `, params);
+    return recordRowChange(client, actor, 'INSERT', table, null, result.rows[0].image, details);
+  });
+}
@@ -0,0 +1,323 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { appPool, currentConnection, withTransaction } from './connection';
+import { ApiError } from './errors';
+import { canonicalTableName, resolveTable } from './identifiers';
+import { ensureAppTable } from './metadata';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type Role = 'viewer' | 'editor' | 'admin';
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+// What a user may do with one table, from least to most
+export type TableAccess = 'none' | 'read' | 'write' | 'admin';
+export const TABLE_ACCESS_LEVELS: TableAccess[] = ['none', 'read', 'write', 'admin'];
+
+// Access each role has to tables without a per-table permission
+const ROLE_ACCESS: Record<Role, TableAccess> = {
+  viewer: 'read',
+  editor: 'write',
+  admin: 'admin',
+};
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+export interface TablePermission {
+  username: string;
+  access: TableAccess;
+}
+
+export const USERS_TABLE = 'tomulator_users';
+const SESSIONS_TABLE = 'tomulator_sessions';
+const PERMISSIONS_TABLE = 'tomulator_table_permissions';
+
+export const SESSION_TTL_HOURS = 24 * 7;
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.@-]{1,64}$/;
+
+function ensureAuthTables(): Promise<void> {
+  return ensureAppTable(USERS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${USERS_TABLE} (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('viewer', 'editor', 'admin')),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE TABLE IF NOT EXISTS ${SESSIONS_TABLE} (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES ${USERS_TABLE} (id) ON DELETE CASCADE,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS ${PERMISSIONS_TABLE} (
+      table_name TEXT NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES ${USERS_TABLE} (id) ON DELETE CASCADE,
+      access TEXT NOT NULL CHECK (access IN ('none', 'read', 'write', 'admin')),
+      PRIMARY KEY (table_name, user_id)
+    )
+  `);
+}
+
+// Stored as scrypt$<salt>$<hash>, both base64
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Sessions are looked up by a hash of the token, so a leaked sessions table
+// cannot be replayed
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function validateCredentials(username: unknown, password: unknown): { username: string; password: string } {
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    throw new ApiError(400, 'Usernames are 1 to 64 letters, numbers, or the characters _ . @ -');
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new ApiError(400, `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return { username, password };
+}
+
+function validateRole(role: unknown): Role {
+  if (!ROLES.includes(role as Role)) {
+    throw new ApiError(400, `role must be one of ${ROLES.join(', ')}`);
+  }
+  return role as Role;
+}
+
+// The first admin is created through setup while the user store is empty
+export async function isSetupRequired(): Promise<boolean> {
+  await ensureAuthTables();
+  const result = await appPool.query(`SELECT NOT EXISTS (SELECT 1 FROM ${USERS_TABLE}) AS required`);
+  return result.rows[0].required;
+}
+
+export async function createUser(username: unknown, password: unknown, role: unknown): Promise<AuthUser> {
+  const credentials = validateCredentials(username, password);
+  const validRole = validateRole(role);
+  await ensureAuthTables();
+  const passwordHash = await hashPassword(credentials.password);
+  try {
+    const result = await appPool.query(
+      `INSERT INTO ${USERS_TABLE} (username, password_hash, role) VALUES ($1, $2, $3) RETURNING id, username, role`,
+      [credentials.username, passwordHash, validRole]
+    );
+    return result.rows[0];
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      throw new ApiError(409, `User "${credentials.username}" already exists`);
+    }
+    throw error;
+  }
+}
+
+// Create the first admin. Locks the users table so two concurrent setups
+// cannot both succeed.
+export async function setupFirstAdmin(username: unknown, password: unknown): Promise<AuthUser> {
+  const credentials = validateCredentials(username, password);
+  await ensureAuthTables();
+  const passwordHash = await hashPassword(credentials.password);
+  return withTransaction(async client => {
+    await client.query(`LOCK TABLE ${USERS_TABLE} IN EXCLUSIVE MODE`);
+    const existing = await client.query(`SELECT 1 FROM ${USERS_TABLE} LIMIT 1`);
+    if (existing.rows.length > 0) {
+      throw new ApiError(409, 'Setup has already been completed');
+    }
+    const result = await client.query(
+      `INSERT INTO ${USERS_TABLE} (username, password_hash, role) VALUES ($1, $2, 'admin') RETURNING id, username, role`,
+      [credentials.username, passwordHash]
+    );
+    return result.rows[0];
+  }, appPool);
+}
+
+export async function listUsers(): Promise<Array<AuthUser & { created_at: string }>> {
+  await ensureAuthTables();
+  const result = await appPool.query(`SELECT id, username, role, created_at FROM ${USERS_TABLE} ORDER BY username`);
+  return result.rows;
+}
+
+async function findUser(username: string): Promise<AuthUser> {
+  const result = await appPool.query(`SELECT id, username, role FROM ${USERS_TABLE} WHERE username = $1`, [username]);
+  if (result.rows.length === 0) {
+    throw new ApiError(404, `User "${username}" not found`);
+  }
+  return result.rows[0];
+}
+
+// Refuse changes that would leave nobody able to administer the app
+async function ensureAnotherAdmin(user: AuthUser): Promise<void> {
+  if (user.role !== 'admin') return;
+  const result = await appPool.query(
+    `SELECT count(*)::int AS admins FROM ${USERS_TABLE} WHERE role = 'admin' AND id <> $1`,
+    [user.id]
+  );
+  if (result.rows[0].admins === 0) {
+    throw new ApiError(400, 'At least one admin must remain');
+  }
+}
+
+export async function updateUser(username: string, changes: { role?: unknown; password?: unknown }): Promise<AuthUser> {
+  await ensureAuthTables();
+  const user = await findUser(username);
+
+  if (changes.role !== undefined) {
+    const role = validateRole(changes.role);
+    if (role !== 'admin') {
+      await ensureAnotherAdmin(user);
+    }
+    await appPool.query(`UPDATE ${USERS_TABLE} SET role = $1 WHERE id = $2`, [role, user.id]);
+    user.role = role;
+  }
+
+  if (changes.password !== undefined) {
+    const { password } = validateCredentials(username, changes.password);
+    await appPool.query(`UPDATE ${USERS_TABLE} SET password_hash = $1 WHERE id = $2`, [await hashPassword(password), user.id]);
+    // A new password signs the user out everywhere
+    await appPool.query(`DELETE FROM ${SESSIONS_TABLE} WHERE user_id = $1`, [user.id]);
+  }
+
+  return user;
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  await ensureAuthTables();
+  const user = await findUser(username);
+  await ensureAnotherAdmin(user);
+  await appPool.query(`DELETE FROM ${USERS_TABLE} WHERE id = $1`, [user.id]);
+}
+
+// Check a username and password and start a session. Returns the session
+// token for the cookie.
+export async function login(username: unknown, password: unknown): Promise<{ user: AuthUser; token: string }> {
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    throw new ApiError(400, 'username and password are required');
+  }
+  await ensureAuthTables();
+  const result = await appPool.query(
+    `SELECT id, username, role, password_hash FROM ${USERS_TABLE} WHERE username = $1`,
+    [username]
+  );
+  const row = result.rows[0];
+  if (!row || !(await verifyPassword(password, row.password_hash))) {
+    throw new ApiError(401, 'Invalid username or password');
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await appPool.query(
+    `INSERT INTO ${SESSIONS_TABLE} (token_hash, user_id, expires_at) VALUES ($1, $2, now() + make_interval(hours => $3))`,
+    [hashToken(token), row.id, SESSION_TTL_HOURS]
+  );
+  // Expired sessions are cleared out as new ones are made
+  await appPool.query(`DELETE FROM ${SESSIONS_TABLE} WHERE expires_at < now()`);
+
+  return { user: { id: row.id, username: row.username, role: row.role }, token };
+}
+
+export async function logout(token: string): Promise<void> {
+  await ensureAuthTables();
+  await appPool.query(`DELETE FROM ${SESSIONS_TABLE} WHERE token_hash = $1`, [hashToken(token)]);
+}
+
+export async function getSessionUser(token: string): Promise<AuthUser | null> {
+  await ensureAuthTables();
+  const result = await appPool.query(`
+    SELECT u.id, u.username, u.role
+    FROM ${SESSIONS_TABLE} s
+    JOIN ${USERS_TABLE} u ON u.id = s.user_id
+    WHERE s.token_hash = $1 AND s.expires_at > now()
+  `, [hashToken(token)]);
+  return result.rows[0] ?? null;
+}
+
+// Nobody may write through a read-only connection
+function withinConnection(access: TableAccess): TableAccess {
+  return currentConnection().readOnly && hasAccess(access, 'write') ? 'read' : access;
+}
+
+// A user's access to a table: the per-table permission if one is set,
+// otherwise their role's default. Admins always have full access, except
+// through a read-only connection. Permissions are kept by table name, so
+// they apply to the table of that name in every connection.
+export async function getTableAccess(user: AuthUser, tableName: string): Promise<TableAccess> {
+  if (user.role === 'admin') return withinConnection('admin');
+  await ensureAuthTables();
+  const result = await appPool.query(
+    `SELECT access FROM ${PERMISSIONS_TABLE} WHERE table_name = $1 AND user_id = $2`,
+    [canonicalTableName(tableName), user.id]
+  );
+  return withinConnection(result.rows[0]?.access ?? ROLE_ACCESS[user.role]);
+}
+
+// Access to every table at once, for the table list
+export async function getTableAccessMap(user: AuthUser, tableNames: string[]): Promise<Record<string, TableAccess>> {
+  const access: Record<string, TableAccess> = Object.fromEntries(
+    tableNames.map(name => [name, withinConnection(ROLE_ACCESS[user.role])])
+  );
+  if (user.role === 'admin') return access;
+  await ensureAuthTables();
+  const result = await appPool.query(
+    `SELECT table_name, access FROM ${PERMISSIONS_TABLE} WHERE user_id = $1`,
+    [user.id]
+  );
+  for (const row of result.rows) {
+    if (row.table_name in access) {
+      access[row.table_name] = withinConnection(row.access);
+    }
+  }
+  return access;
+}
+
+export function hasAccess(access: TableAccess, required: TableAccess): boolean {
+  return TABLE_ACCESS_LEVELS.indexOf(access) >= TABLE_ACCESS_LEVELS.indexOf(required);
+}
+
+export async function getTablePermissions(tableName: string): Promise<TablePermission[]> {
+  const table = await resolveTable(tableName);
+  await ensureAuthTables();
+  const result = await appPool.query(`
+    SELECT u.username, p.access
+    FROM ${PERMISSIONS_TABLE} p
+    JOIN ${USERS_TABLE} u ON u.id = p.user_id
+    WHERE p.table_name = $1
+    ORDER BY u.username
+  `, [table.name]);
+  return result.rows;
+}
+
+// Set a user's access to one table, or clear it with null to fall back to
+// their role's default
+export async function setTablePermission(tableName: string, username: string, access: unknown): Promise<void> {
+  const table = await resolveTable(tableName);
+  if (access !== null && !TABLE_ACCESS_LEVELS.includes(access as TableAccess)) {
+    throw new ApiError(400, `access must be null or one of ${TABLE_ACCESS_LEVELS.join(', ')}`);
+  }
+  await ensureAuthTables();
+  const user = await findUser(username);
+
+  if (access === null) {
+    await appPool.query(`DELETE FROM ${PERMISSIONS_TABLE} WHERE table_name = $1 AND user_id = $2`, [table.name, user.id]);
+    return;
+  }
+  await appPool.query(`
+    INSERT INTO ${PERMISSIONS_TABLE} (table_name, user_id, access)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (table_name, user_id) DO UPDATE SET access = EXCLUDED.access
+  `, [table.name, user.id, access]);
+}
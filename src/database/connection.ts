@@ -1,11 +1,180 @@
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, QueryConfig, types } from 'pg';
 import dotenv from 'dotenv';
+import { ApiError } from './errors';
 
 dotenv.config();
 
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+// Keep dates and timestamps without a time zone as Postgres writes them.
+// Parsed into JavaScript Dates they are shifted by the server's time zone,
+// so the grid would show and save different values than the table holds.
+const DATE_OID = 1082;
+const TIMESTAMP_OID = 1114;
+types.setTypeParser(DATE_OID, value => value);
+types.setTypeParser(TIMESTAMP_OID, value => value);
+
+// A database the app can be switched to
+export interface ConnectionProfile {
+  name: string;
+  url: string;
+  // Writes are rejected, and Postgres opens every transaction read-only
+  readOnly: boolean;
+  // Shown with the name in the switcher, so production stands out
+  color: string;
+}
+
+export const DEFAULT_CONNECTION = 'default';
+const DEFAULT_COLOR = '#6c757d';
+
+function createPool(url: string, readOnly: boolean, max?: number): Pool {
+  return new Pool({
+    connectionString: url,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    options: readOnly ? '-c default_transaction_read_only=on' : undefined,
+    max,
+  });
+}
+
+// The app's own database, from DATABASE_URL. Users, sessions, permissions,
+// saved views and the connection list are kept here, and it is the default
+// connection.
+export const appPool = createPool(process.env.DATABASE_URL || '', false);
+
+interface Connection {
+  profile: ConnectionProfile;
+  pool: Pool;
+}
+
+const connections = new Map<string, Connection>([[DEFAULT_CONNECTION, {
+  profile: { name: DEFAULT_CONNECTION, url: process.env.DATABASE_URL || '', readOnly: false, color: DEFAULT_COLOR },
+  pool: appPool,
+}]]);
+
+const scope = new AsyncLocalStorage<Connection>();
+
+function activeConnection(): Connection {
+  return scope.getStore() ?? connections.get(DEFAULT_CONNECTION)!;
+}
+
+// Add a connection, or replace one of the same name. The pool it replaces
+// is closed once its clients are released.
+export function registerConnection(profile: ConnectionProfile): void {
+  if (profile.name === DEFAULT_CONNECTION) {
+    throw new ApiError(400, `The "${DEFAULT_CONNECTION}" connection is set by DATABASE_URL`);
+  }
+  const replaced = connections.get(profile.name);
+  connections.set(profile.name, { profile, pool: createPool(profile.url, profile.readOnly) });
+  replaced?.pool.end().catch(error => console.error(`Error closing connection "${profile.name}":`, error));
+}
+
+export function unregisterConnection(name: string): void {
+  const connection = connections.get(name);
+  if (!connection || name === DEFAULT_CONNECTION) return;
+  connections.delete(name);
+  connection.pool.end().catch(error => console.error(`Error closing connection "${name}":`, error));
+}
+
+export function getConnectionProfile(name: string): ConnectionProfile | undefined {
+  return connections.get(name)?.profile;
+}
+
+export function listConnectionProfiles(): ConnectionProfile[] {
+  return Array.from(connections.values()).map(connection => connection.profile);
+}
+
+// Check that a database can be reached before saving a profile for it
+export async function checkConnection(url: string): Promise<void> {
+  const pool = createPool(url, true, 1);
+  try {
+    await pool.query('SELECT 1');
+  } catch (error) {
+    throw new ApiError(400, `Could not connect: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await pool.end().catch(() => undefined);
+  }
+}
+
+// Run fn with the named connection's database as pool, including anything
+// it starts asynchronously
+export function runWithConnection<T>(name: string, fn: () => T): T {
+  const connection = connections.get(name);
+  if (!connection) {
+    throw new ApiError(400, `Unknown connection "${name}"`);
+  }
+  return scope.run(connection, fn);
+}
+
+// The connection the current request works on; the default one outside a request
+export function currentConnection(): ConnectionProfile {
+  return activeConnection().profile;
+}
+
+export function requireWritableConnection(): void {
+  const { name, readOnly } = currentConnection();
+  if (readOnly) {
+    throw new ApiError(403, `Connection "${name}" is read-only`);
+  }
+}
+
+// The current connection's pool. Modules query through this and do not need
+// to know which database a request was made against.
+const pool = new Proxy(appPool, {
+  get(_target, property) {
+    const target = activeConnection().pool;
+    const value = Reflect.get(target, property);
+    return typeof value === 'function' ? value.bind(target) : value;
+  },
 });
 
 export default pool;
+
+// Run fn inside a transaction on one client, committing if it resolves and
+// rolling back if it throws. Uses the current connection unless db is given.
+// Undo work done outside the database during a transaction, such as files
+// written for it, when the transaction does not commit
+const rollbackActions = new WeakMap<PoolClient, Array<() => void>>();
+
+// Run action if the transaction withTransaction is running on client rolls
+// back, including when its COMMIT fails
+export function onRollback(client: PoolClient, action: () => void): void {
+  rollbackActions.get(client)?.push(action);
+}
+
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>, db: Pool = pool): Promise<T> {
+  const client = await db.connect();
+  const actions: Array<() => void> = [];
+  rollbackActions.set(client, actions);
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    for (const action of actions.reverse()) {
+      try {
+        action();
+      } catch (actionError) {
+        console.error('Failed to undo work of a rolled back transaction:', actionError);
+      }
+    }
+    throw error;
+  } finally {
+    rollbackActions.delete(client);
+    client.release();
+  }
+}
+
+// Run one statement with the extended protocol, which refuses several
+// statements in one string, so SQL fragments taken from a request cannot
+// carry extra statements. Postgres errors are reported as 400 with the
+// statement that failed.
+export async function runSingleStatement(client: PoolClient, text: string): Promise<void> {
+  try {
+    // queryMode is supported by pg but missing from its types
+    await client.query({ text, queryMode: 'extended' } as QueryConfig);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    throw new ApiError(400, `${error instanceof Error ? error.message : String(error)} in: ${text}`);
+  }
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import {
+  ConnectionProfile,
+  DEFAULT_CONNECTION,
+  appPool,
+  checkConnection,
+  getConnectionProfile,
+  listConnectionProfiles,
+  registerConnection,
+  unregisterConnection,
+} from './connection';
+import { ApiError } from './errors';
+import { ensureAppTable } from './metadata';
+import { stopListening } from './notifications';
+
+// Where a profile is defined: DATABASE_URL, the config file, or in the app
+// by an admin. Only profiles added in the app can be changed there.
+export type ConnectionSource = 'environment' | 'config' | 'admin';
+
+// A profile as shown to users, without the password in its URL
+export interface ConnectionInfo {
+  name: string;
+  url: string;
+  readOnly: boolean;
+  color: string;
+  source: ConnectionSource;
+}
+
+const CONNECTIONS_TABLE = 'tomulator_connections';
+// A JSON array of { name, url, readOnly, color }. The url may be given as
+// $NAME to read it from that environment variable.
+const CONFIG_FILE = process.env.TOMULATOR_CONNECTIONS_FILE || 'connections.json';
+const NAME_PATTERN = /^[a-zA-Z0-9_-]{1,40}$/;
+const URL_PATTERN = /^postgres(ql)?:\/\//;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const DEFAULT_PROFILE_COLOR = '#0d6efd';
+
+const sources = new Map<string, ConnectionSource>([[DEFAULT_CONNECTION, 'environment']]);
+
+function ensureConnectionsTable(): Promise<void> {
+  return ensureAppTable(CONNECTIONS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${CONNECTIONS_TABLE} (
+      name TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      read_only BOOLEAN NOT NULL DEFAULT false,
+      color TEXT NOT NULL
+    )
+  `);
+}
+
+// Check a profile, filling in what is left out from the one it changes
+function validateProfile(input: any, existing?: ConnectionProfile): ConnectionProfile {
+  const name = existing?.name ?? input?.name;
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    throw new ApiError(400, 'Connection names are 1 to 40 letters, numbers, _ or -');
+  }
+  const url = input?.url === undefined || input.url === '' ? existing?.url : input.url;
+  if (typeof url !== 'string' || !URL_PATTERN.test(url)) {
+    throw new ApiError(400, `The URL of connection "${name}" must start with postgres:// or postgresql://`);
+  }
+  const color = input?.color ?? existing?.color ?? DEFAULT_PROFILE_COLOR;
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) {
+    throw new ApiError(400, 'color must be a hex color such as #dc3545');
+  }
+  const readOnly = input?.readOnly === undefined ? existing?.readOnly ?? false : input.readOnly === true;
+  return { name, url, readOnly, color };
+}
+
+// Hide the password, so URLs can be shown in the switcher
+function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) parsed.password = '****';
+    return parsed.toString();
+  } catch {
+    return '';
+  }
+}
+
+function toInfo(profile: ConnectionProfile): ConnectionInfo {
+  return {
+    name: profile.name,
+    url: maskUrl(profile.url),
+    readOnly: profile.readOnly,
+    color: profile.color,
+    source: sources.get(profile.name) ?? 'admin',
+  };
+}
+
+// Register the profiles from the config file, then those added in the app.
+// Run once at startup.
+export async function loadConnections(): Promise<void> {
+  if (fs.existsSync(CONFIG_FILE)) {
+    const entries = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+    if (!Array.isArray(entries)) {
+      throw new Error(`${CONFIG_FILE} must hold an array of connections`);
+    }
+    for (const entry of entries) {
+      const url = typeof entry?.url === 'string' && entry.url.startsWith('$')
+        ? process.env[entry.url.slice(1)]
+        : entry?.url;
+      const profile = validateProfile({ ...entry, url });
+      registerConnection(profile);
+      sources.set(profile.name, 'config');
+    }
+  }
+
+  await ensureConnectionsTable();
+  const result = await appPool.query(`SELECT name, url, read_only, color FROM ${CONNECTIONS_TABLE} ORDER BY name`);
+  for (const row of result.rows) {
+    if (sources.has(row.name)) {
+      console.warn(`Connection "${row.name}" is defined in ${CONFIG_FILE}; ignoring the one added in the app`);
+      continue;
+    }
+    registerConnection({ name: row.name, url: row.url, readOnly: row.read_only, color: row.color });
+    sources.set(row.name, 'admin');
+  }
+}
+
+export function listConnections(): ConnectionInfo[] {
+  return listConnectionProfiles().map(toInfo);
+}
+
+export function getConnection(name: string): ConnectionInfo {
+  const profile = getConnectionProfile(name);
+  if (!profile) {
+    throw new ApiError(404, `Connection "${name}" not found`);
+  }
+  return toInfo(profile);
+}
+
+function findEditableProfile(name: string): ConnectionProfile {
+  const profile = getConnectionProfile(name);
+  if (!profile) {
+    throw new ApiError(404, `Connection "${name}" not found`);
+  }
+  const source = sources.get(name);
+  if (source !== 'admin') {
+    throw new ApiError(400, `Connection "${name}" is set in ${source === 'config' ? CONFIG_FILE : 'DATABASE_URL'}; change it there`);
+  }
+  return profile;
+}
+
+export async function createConnection(input: unknown): Promise<ConnectionInfo> {
+  const profile = validateProfile(input);
+  if (getConnectionProfile(profile.name)) {
+    throw new ApiError(409, `Connection "${profile.name}" already exists`);
+  }
+  await checkConnection(profile.url);
+  await ensureConnectionsTable();
+  await appPool.query(
+    `INSERT INTO ${CONNECTIONS_TABLE} (name, url, read_only, color) VALUES ($1, $2, $3, $4)`,
+    [profile.name, profile.url, profile.readOnly, profile.color]
+  );
+  registerConnection(profile);
+  sources.set(profile.name, 'admin');
+  return toInfo(profile);
+}
+
+// Change a profile added in the app. Its pool is replaced, so requests
+// already running finish on the old settings.
+export async function updateConnection(name: string, changes: unknown): Promise<ConnectionInfo> {
+  const existing = findEditableProfile(name);
+  const profile = validateProfile(changes, existing);
+  if (profile.url !== existing.url) {
+    await checkConnection(profile.url);
+  }
+  await appPool.query(
+    `UPDATE ${CONNECTIONS_TABLE} SET url = $2, read_only = $3, color = $4 WHERE name = $1`,
+    [profile.name, profile.url, profile.readOnly, profile.color]
+  );
+  stopListening(name);
+  registerConnection(profile);
+  return toInfo(profile);
+}
+
+export async function deleteConnection(name: string): Promise<void> {
+  findEditableProfile(name);
+  await appPool.query(`DELETE FROM ${CONNECTIONS_TABLE} WHERE name = $1`, [name]);
+  stopListening(name);
+  unregisterConnection(name);
+  sources.delete(name);
+}
@@ -0,0 +1,13 @@
+// Error with an HTTP status, thrown from the database layer when a request
+// is invalid rather than the query failing
+export class ApiError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
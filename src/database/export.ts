@@ -0,0 +1,74 @@
+import { ApiError } from './errors';
+import { quoteIdentifier, quoteLiteral, resolveTable } from './identifiers';
+import { RowQueryOptions, streamTableRows } from './queries';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'sql';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  sql: { contentType: 'application/sql; charset=utf-8', extension: 'sql' },
+};
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && format in EXPORT_FORMATS;
+}
+
+function csvValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Values arrive in Postgres' text representation, so a quoted literal
+// converts back to the column type on insert
+function sqlValue(value: string | null): string {
+  return value === null ? 'NULL' : quoteLiteral(value);
+}
+
+// Write a table in the given format, one batch of rows at a time. CSV and SQL
+// use Postgres' own text output for values; JSON formats use parsed values.
+export async function exportTable(
+  tableName: string,
+  format: ExportFormat,
+  options: RowQueryOptions,
+  write: (chunk: string) => Promise<void>
+): Promise<void> {
+  if (!isExportFormat(format)) {
+    throw new ApiError(400, `Unsupported export format "${format}"`);
+  }
+
+  const table = await resolveTable(tableName);
+  const columns = table.columns.map(col => col.column_name);
+  const rawText = format === 'csv' || format === 'sql';
+  const insertPrefix = `INSERT INTO ${table.qualifiedName} (${columns.map(quoteIdentifier).join(', ')}) VALUES `;
+  let rowCount = 0;
+
+  if (format === 'csv') {
+    await write(columns.map(csvValue).join(',') + '\r\n');
+  } else if (format === 'json') {
+    await write('[');
+  }
+
+  for await (const rows of streamTableRows(table, options, rawText)) {
+    let chunk = '';
+    for (const row of rows) {
+      if (format === 'csv') {
+        chunk += columns.map(column => csvValue(row[column])).join(',') + '\r\n';
+      } else if (format === 'json') {
+        chunk += `${rowCount > 0 ? ',' : ''}\n  ${JSON.stringify(row)}`;
+      } else if (format === 'ndjson') {
+        chunk += JSON.stringify(row) + '\n';
+      } else {
+        chunk += `${insertPrefix}(${columns.map(column => sqlValue(row[column])).join(', ')});\n`;
+      }
+      rowCount++;
+    }
+    await write(chunk);
+  }
+
+  if (format === 'json') {
+    await write(rowCount > 0 ? '\n]\n' : ']\n');
+  }
+}
@@ -0,0 +1,181 @@
+import { ApiError } from './errors';
+import { ResolvedTable, likePattern, resolveColumn } from './identifiers';
+
+// Structured row filters, as built by the grid's filter builder. Values are
+// always passed as parameters; Postgres converts them to the column's type.
+export type FilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'starts_with'
+  | 'regex'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'in'
+  | 'is_null'
+  | 'is_not_null';
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'equals', 'not_equals', 'contains', 'starts_with', 'regex',
+  'greater_than', 'less_than', 'between', 'in', 'is_null', 'is_not_null',
+];
+
+export interface FilterCondition {
+  column: string;
+  operator: FilterOperator;
+  // For single-value operators
+  value?: string;
+  // For in
+  values?: string[];
+  // For between; either end may be left open
+  from?: string;
+  to?: string;
+}
+
+export interface FilterGroup {
+  combinator: 'and' | 'or';
+  conditions: Array<FilterCondition | FilterGroup>;
+}
+
+const MAX_FILTER_CONDITIONS = 100;
+const MAX_FILTER_DEPTH = 4;
+const MAX_IN_VALUES = 1000;
+
+const SINGLE_VALUE_OPERATORS: FilterOperator[] = [
+  'equals', 'not_equals', 'contains', 'starts_with', 'regex', 'greater_than', 'less_than',
+];
+
+function isGroup(node: FilterCondition | FilterGroup): node is FilterGroup {
+  return 'conditions' in node;
+}
+
+function invalid(message: string): never {
+  throw new ApiError(400, `Invalid filter: ${message}`);
+}
+
+// Check the shape of a filter sent by a client. Column names are checked
+// against the table when the filter is compiled.
+export function parseFilterGroup(input: unknown): FilterGroup {
+  let count = 0;
+
+  const parseNode = (node: any, depth: number): FilterCondition | FilterGroup => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      invalid('each condition must be an object');
+    }
+    if ('conditions' in node) {
+      if (depth >= MAX_FILTER_DEPTH) {
+        invalid(`groups can be nested at most ${MAX_FILTER_DEPTH} deep`);
+      }
+      if (node.combinator !== 'and' && node.combinator !== 'or') {
+        invalid('combinator must be "and" or "or"');
+      }
+      if (!Array.isArray(node.conditions)) {
+        invalid('conditions must be an array');
+      }
+      return {
+        combinator: node.combinator,
+        conditions: node.conditions.map((child: unknown) => parseNode(child, depth + 1)),
+      };
+    }
+
+    if (++count > MAX_FILTER_CONDITIONS) {
+      invalid(`at most ${MAX_FILTER_CONDITIONS} conditions are allowed`);
+    }
+    const { column, operator, value, values, from, to } = node;
+    if (typeof column !== 'string' || column === '') {
+      invalid('each condition needs a column');
+    }
+    if (!FILTER_OPERATORS.includes(operator)) {
+      invalid(`operator must be one of ${FILTER_OPERATORS.join(', ')}`);
+    }
+
+    const condition: FilterCondition = { column, operator };
+    if (SINGLE_VALUE_OPERATORS.includes(operator)) {
+      if (typeof value !== 'string') {
+        invalid(`${operator} on "${column}" needs a value`);
+      }
+      condition.value = value;
+    } else if (operator === 'in') {
+      if (!Array.isArray(values) || values.length === 0 || values.length > MAX_IN_VALUES ||
+          !values.every(item => typeof item === 'string')) {
+        invalid(`in on "${column}" needs 1 to ${MAX_IN_VALUES} values`);
+      }
+      condition.values = values;
+    } else if (operator === 'between') {
+      const ends = [from, to].filter(end => end !== undefined && end !== null && end !== '');
+      if (ends.length === 0 || !ends.every(end => typeof end === 'string')) {
+        invalid(`between on "${column}" needs a from or to value`);
+      }
+      if (typeof from === 'string' && from !== '') condition.from = from;
+      if (typeof to === 'string' && to !== '') condition.to = to;
+    }
+    return condition;
+  };
+
+  const root = parseNode(input, 0);
+  if (!isGroup(root)) {
+    invalid('the filter must be a group with a combinator and conditions');
+  }
+  return root;
+}
+
+// Compile a filter into a WHERE condition, appending values to params.
+// Text operators compare the column's text form, like the search box does.
+export function compileFilter(table: ResolvedTable, group: FilterGroup, params: any[]): string {
+  const placeholder = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const compileNode = (node: FilterCondition | FilterGroup): string => {
+    if (isGroup(node)) {
+      const parts = node.conditions.map(compileNode);
+      if (parts.length === 0) return 'TRUE';
+      return `(${parts.join(node.combinator === 'and' ? ' AND ' : ' OR ')})`;
+    }
+
+    const column = resolveColumn(table, node.column);
+    switch (node.operator) {
+      case 'equals':
+        return `${column} = ${placeholder(node.value)}`;
+      case 'not_equals':
+        return `${column} IS DISTINCT FROM ${placeholder(node.value)}`;
+      case 'contains':
+        return `${column}::text ILIKE ${placeholder(likePattern(node.value!))}`;
+      case 'starts_with':
+        // likePattern wraps the term in %...%; only the trailing one is wanted
+        return `${column}::text ILIKE ${placeholder(likePattern(node.value!).slice(1))}`;
+      case 'regex':
+        return `${column}::text ~ ${placeholder(node.value)}`;
+      case 'greater_than':
+        return `${column} > ${placeholder(node.value)}`;
+      case 'less_than':
+        return `${column} < ${placeholder(node.value)}`;
+      case 'between': {
+        const bounds: string[] = [];
+        if (node.from !== undefined) bounds.push(`${column} >= ${placeholder(node.from)}`);
+        if (node.to !== undefined) bounds.push(`${column} <= ${placeholder(node.to)}`);
+        return `(${bounds.join(' AND ')})`;
+      }
+      case 'in':
+        return `${column} = ANY(${placeholder(node.values)})`;
+      case 'is_null':
+        return `${column} IS NULL`;
+      case 'is_not_null':
+        return `${column} IS NOT NULL`;
+    }
+  };
+
+  return compileNode(group);
+}
+
+// Postgres reports values that do not fit the column's type (a word compared
+// with a number column, a malformed date or regex) as data exceptions, class
+// 22. Those come from the filter, so they are the client's error.
+export function asFilterError(error: any): unknown {
+  if (typeof error?.code === 'string' && error.code.startsWith('22')) {
+    return new ApiError(400, `Invalid filter value: ${error.message}`);
+  }
+  return error;
+}
@@ -0,0 +1,167 @@
+import pool from './connection';
+import { ApiError } from './errors';
+import { ResolvedTable, likePattern, quoteIdentifier, resolveColumn, resolveTable, tableReference } from './identifiers';
+import { ensureMetadataTable } from './metadata';
+
+export interface ForeignKeyInfo {
+  table: string;
+  column: string;
+  on_delete: 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+  // Column of the referenced table shown in place of the raw key
+  display_column: string;
+}
+
+export interface LookupOption {
+  value: string;
+  label: string | null;
+}
+
+export interface LookupResult {
+  displayColumn: string;
+  displayColumns: string[];
+  options: LookupOption[];
+}
+
+const ON_DELETE_RULES: Record<string, ForeignKeyInfo['on_delete']> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+const DISPLAY_COLUMNS_TABLE = 'tomulator_display_columns';
+const MAX_LOOKUP_OPTIONS = 100;
+
+function ensureDisplayColumnsTable(): Promise<boolean> {
+  return ensureMetadataTable(DISPLAY_COLUMNS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${DISPLAY_COLUMNS_TABLE} (
+      table_name TEXT PRIMARY KEY,
+      display_column TEXT NOT NULL
+    )
+  `);
+}
+
+// Pick the column that best describes a row of the table: the configured
+// display column if it still exists, otherwise the first text column that
+// is not part of the key, otherwise the key itself
+async function displayColumnFor(table: ResolvedTable): Promise<string> {
+  const result = await ensureDisplayColumnsTable()
+    ? await pool.query(`SELECT display_column FROM ${DISPLAY_COLUMNS_TABLE} WHERE table_name = $1`, [table.name])
+    : { rows: [] };
+  const configured = result.rows[0]?.display_column;
+  if (configured && table.columns.some(col => col.column_name === configured)) {
+    return configured;
+  }
+
+  const textColumn = table.columns.find(col =>
+    !col.is_primary_key && (col.data_type === 'text' || col.data_type === 'character varying')
+  );
+  return textColumn?.column_name ?? table.primaryKey[0] ?? table.columns[0].column_name;
+}
+
+// Single-column foreign keys of the table, by referencing column. Composite
+// foreign keys have no single value to look up and are left out, as are keys
+// referencing tables the app does not browse, such as its own tomulator_
+// tables.
+export async function getForeignKeys(table: ResolvedTable): Promise<Map<string, ForeignKeyInfo>> {
+  const query = `
+    SELECT a.attname AS column_name, rn.nspname AS ref_schema, rc.relname AS ref_table, ra.attname AS ref_column, con.confdeltype
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = con.conkey[1]
+    JOIN pg_class rc ON rc.oid = con.confrelid
+    JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+    JOIN pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = con.confkey[1]
+    WHERE con.contype = 'f' AND array_length(con.conkey, 1) = 1
+      AND n.nspname = $1 AND c.relname = $2
+  `;
+  const result = await pool.query(query, [table.schema, table.relationName]);
+
+  const foreignKeys = new Map<string, ForeignKeyInfo>();
+  // The display column of each referenced table, or null for tables that
+  // cannot be resolved
+  const referenced = new Map<string, Promise<string | null>>();
+  for (const row of result.rows) {
+    const refTable = tableReference(row.ref_schema, row.ref_table);
+    if (!referenced.has(refTable)) {
+      referenced.set(refTable, resolveTable(refTable).then(displayColumnFor, error => {
+        if (error instanceof ApiError) return null;
+        throw error;
+      }));
+    }
+    const displayColumn = await referenced.get(refTable)!;
+    if (displayColumn === null) continue;
+    foreignKeys.set(row.column_name, {
+      table: refTable,
+      column: row.ref_column,
+      on_delete: ON_DELETE_RULES[row.confdeltype],
+      display_column: displayColumn,
+    });
+  }
+  return foreignKeys;
+}
+
+// Rows of the table a foreign key column references, as value/label pairs for
+// a lookup dropdown. Matches search against the key and the display column,
+// or returns the labels of specific key values when values is given.
+// canRead is asked whether the user may read the referenced table; its rows
+// are not returned when they may not.
+export async function getLookupOptions(
+  tableName: string,
+  columnName: string,
+  options: { search?: string; values?: string[]; canRead?: (tableName: string) => Promise<boolean> } = {}
+): Promise<LookupResult> {
+  const table = await resolveTable(tableName);
+  resolveColumn(table, columnName);
+  const foreignKey = (await getForeignKeys(table)).get(columnName);
+  if (!foreignKey) {
+    throw new ApiError(400, `Column "${columnName}" of table "${table.name}" does not reference another table`);
+  }
+
+  if (options.canRead && !await options.canRead(foreignKey.table)) {
+    throw new ApiError(403, `You do not have read access to "${foreignKey.table}", which "${columnName}" references`);
+  }
+
+  const referenced = await resolveTable(foreignKey.table);
+  const keyColumn = quoteIdentifier(foreignKey.column);
+  const displayColumn = quoteIdentifier(foreignKey.display_column);
+
+  const params: any[] = [];
+  const conditions: string[] = [];
+  if (options.values) {
+    params.push(options.values);
+    conditions.push(`${keyColumn}::text = ANY($${params.length}::text[])`);
+  } else if (options.search?.trim()) {
+    params.push(likePattern(options.search.trim()));
+    conditions.push(`(${keyColumn}::text ILIKE $${params.length} OR ${displayColumn}::text ILIKE $${params.length})`);
+  }
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await pool.query(`
+    SELECT ${keyColumn}::text AS value, ${displayColumn}::text AS label
+    FROM ${referenced.qualifiedName}
+    ${whereClause}
+    ORDER BY ${displayColumn} NULLS LAST, ${keyColumn}
+    LIMIT ${options.values ? options.values.length : MAX_LOOKUP_OPTIONS}
+  `, params);
+
+  return {
+    displayColumn: foreignKey.display_column,
+    displayColumns: referenced.columns.map(col => col.column_name),
+    options: result.rows,
+  };
+}
+
+// Set the column used to label rows of the table wherever they are referenced
+export async function setDisplayColumn(tableName: string, columnName: string): Promise<void> {
+  const table = await resolveTable(tableName);
+  resolveColumn(table, columnName);
+  await ensureDisplayColumnsTable();
+  await pool.query(`
+    INSERT INTO ${DISPLAY_COLUMNS_TABLE} (table_name, display_column)
+    VALUES ($1, $2)
+    ON CONFLICT (table_name) DO UPDATE SET display_column = EXCLUDED.display_column
+  `, [table.name, columnName]);
+}
@@ -0,0 +1,243 @@
+import pool from './connection';
+import { ApiError } from './errors';
+import { METADATA_TABLE_PREFIX, isMetadataTable } from './metadata';
+import type { TableSchema } from './queries';
+
+// Tables can be written to; views and materialized views are read-only
+export type RelationKind = 'table' | 'view' | 'materialized_view';
+
+export interface ResolvedTable {
+  // The name the API uses: bare for tables in public, schema.name otherwise
+  name: string;
+  schema: string;
+  // The relation's own name, without the schema
+  relationName: string;
+  qualifiedName: string;
+  kind: RelationKind;
+  columns: TableSchema[];
+  primaryKey: string[];
+}
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const MAX_IDENTIFIER_LENGTH = 63;
+const DEFAULT_SCHEMA = 'public';
+
+// pg_class relkinds that can be browsed; partitioned tables count as tables
+const RELATION_KINDS: Record<string, RelationKind> = {
+  r: 'table',
+  p: 'table',
+  v: 'view',
+  m: 'materialized_view',
+};
+
+const KIND_LABELS: Record<RelationKind, string> = {
+  table: 'table',
+  view: 'view',
+  materialized_view: 'materialized view',
+};
+
+// Condition leaving out Postgres' own schemas, on pg_namespace aliased as n
+export const USER_SCHEMA_CONDITION = `n.nspname NOT IN ('information_schema', 'pg_catalog') AND n.nspname NOT LIKE 'pg\\_%'`;
+
+// Quote an identifier for interpolation into SQL
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Quote a string literal for interpolation into DDL, where parameters are not allowed
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Escape a search term for use as an ILIKE substring pattern
+export function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Split an API table name into schema and relation. Names without a schema
+// are in public.
+export function parseTableName(tableName: string): { schema: string; relationName: string } {
+  const dot = tableName.indexOf('.');
+  return dot === -1
+    ? { schema: DEFAULT_SCHEMA, relationName: tableName }
+    : { schema: tableName.slice(0, dot), relationName: tableName.slice(dot + 1) };
+}
+
+// The API name of a relation, the inverse of parseTableName
+export function tableReference(schema: string, relationName: string): string {
+  return schema === DEFAULT_SCHEMA && !relationName.includes('.') ? relationName : `${schema}.${relationName}`;
+}
+
+// The one API name of a table, so "public.users" and "users" share
+// permissions and settings
+export function canonicalTableName(tableName: string): string {
+  const { schema, relationName } = parseTableName(tableName);
+  return tableReference(schema, relationName);
+}
+
+const COLUMNS_QUERY = `
+  SELECT c.column_name, c.data_type, c.udt_name, c.is_nullable, c.column_default, c.is_identity,
+    c.character_maximum_length::int, c.numeric_precision::int, c.numeric_scale::int,
+    EXISTS (
+      SELECT 1
+      FROM information_schema.table_constraints tc
+      JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = tc.constraint_schema AND kcu.constraint_name = tc.constraint_name
+        AND kcu.table_name = tc.table_name
+      WHERE tc.constraint_type = 'PRIMARY KEY'
+        AND tc.table_schema = c.table_schema AND tc.table_name = c.table_name
+        AND kcu.column_name = c.column_name
+    ) AS is_primary_key
+  FROM information_schema.columns c
+  WHERE c.table_schema = $1 AND c.table_name = $2
+  ORDER BY c.ordinal_position
+`;
+
+// information_schema leaves out materialized views, so their columns are
+// read from pg_attribute and described the way information_schema would
+const MATERIALIZED_VIEW_COLUMNS_QUERY = `
+  SELECT a.attname AS column_name,
+    CASE
+      WHEN t.typcategory = 'A' THEN 'ARRAY'
+      WHEN t.typtype IN ('c', 'e') THEN 'USER-DEFINED'
+      ELSE format_type(a.atttypid, NULL)
+    END AS data_type,
+    t.typname AS udt_name,
+    CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+    NULL AS column_default, 'NO' AS is_identity,
+    NULL::int AS character_maximum_length, NULL::int AS numeric_precision, NULL::int AS numeric_scale,
+    false AS is_primary_key
+  FROM pg_attribute a
+  JOIN pg_type t ON t.oid = a.atttypid
+  WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+  ORDER BY a.attnum
+`;
+
+// Look up a table, view or materialized view in the catalog and return its
+// quoted name and columns. Unknown names are rejected before any query
+// against them runs.
+export async function resolveTable(tableName: string): Promise<ResolvedTable> {
+  if (typeof tableName !== 'string' || tableName === '') {
+    throw new ApiError(400, 'Table name is required');
+  }
+  const { schema, relationName } = parseTableName(tableName);
+  if (isMetadataTable(relationName)) {
+    throw new ApiError(400, `Unknown table "${tableName}"`);
+  }
+
+  const relation = await pool.query(`
+    SELECT c.relkind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind = ANY($3::"char"[]) AND ${USER_SCHEMA_CONDITION}
+  `, [schema, relationName, Object.keys(RELATION_KINDS)]);
+  if (relation.rows.length === 0) {
+    throw new ApiError(400, `Unknown table "${tableName}"`);
+  }
+
+  const kind = RELATION_KINDS[relation.rows[0].relkind];
+  const qualifiedName = `${quoteIdentifier(schema)}.${quoteIdentifier(relationName)}`;
+  const result = kind === 'materialized_view'
+    ? await pool.query(MATERIALIZED_VIEW_COLUMNS_QUERY, [qualifiedName])
+    : await pool.query(COLUMNS_QUERY, [schema, relationName]);
+  const columns: TableSchema[] = result.rows.map(({
+    column_name, data_type, udt_name, is_nullable, column_default, is_identity, is_primary_key,
+    character_maximum_length, numeric_precision, numeric_scale,
+  }) => ({
+    column_name,
+    data_type,
+    udt_name,
+    is_nullable,
+    column_default,
+    is_identity,
+    is_primary_key,
+    character_maximum_length,
+    numeric_precision,
+    numeric_scale,
+  }));
+
+  return {
+    name: tableReference(schema, relationName),
+    schema,
+    relationName,
+    qualifiedName,
+    kind,
+    columns,
+    // Key columns are kept in table column order, which is also the order
+    // of the values in a composite row key
+    primaryKey: columns.filter(col => col.is_primary_key).map(col => col.column_name),
+  };
+}
+
+// Reject changes to views and materialized views
+export function requireBaseTable(table: ResolvedTable): void {
+  if (table.kind !== 'table') {
+    throw new ApiError(400, `"${table.name}" is a ${KIND_LABELS[table.kind]}, which is read-only`);
+  }
+}
+
+export function hasColumn(table: ResolvedTable, columnName: string): boolean {
+  return table.columns.some(col => col.column_name === columnName);
+}
+
+// Return the quoted column name, or reject names the table does not have
+export function resolveColumn(table: ResolvedTable, columnName: string): string {
+  if (!hasColumn(table, columnName)) {
+    throw new ApiError(400, `Unknown column "${columnName}" in table "${table.name}"`);
+  }
+  return quoteIdentifier(columnName);
+}
+
+export function resolveColumns(table: ResolvedTable, columnNames: string[]): string[] {
+  return columnNames.map(name => resolveColumn(table, name));
+}
+
+// Turn a row key from a URL into primary key values. Single-column keys are
+// passed as the raw value, composite keys as a JSON array in column order.
+export function parseRowKey(table: ResolvedTable, key: string): string[] {
+  if (table.primaryKey.length === 0) {
+    throw new ApiError(400, `Table "${table.name}" has no primary key, so its rows cannot be addressed`);
+  }
+  if (table.primaryKey.length === 1) {
+    return [key];
+  }
+
+  let values: unknown;
+  try {
+    values = JSON.parse(key);
+  } catch {
+    values = null;
+  }
+  if (!Array.isArray(values) || values.length !== table.primaryKey.length) {
+    throw new ApiError(
+      400,
+      `Row key for table "${table.name}" must be a JSON array of ${table.primaryKey.length} values (${table.primaryKey.join(', ')})`
+    );
+  }
+  return values.map(value => value === null ? value : String(value));
+}
+
+// Build a WHERE condition matching one row by its primary key, appending the
+// key values to params
+export function rowKeyCondition(table: ResolvedTable, keyValues: string[], params: any[]): string {
+  return table.primaryKey
+    .map((column, index) => {
+      params.push(keyValues[index]);
+      return `${quoteIdentifier(column)} = $${params.length}`;
+    })
+    .join(' AND ');
+}
+
+// Check a name for a table or column that does not exist yet
+export function validateNewIdentifier(name: string, kind: 'table' | 'column' | 'constraint' | 'index'): string {
+  if (typeof name !== 'string' || !IDENTIFIER_PATTERN.test(name) || name.length > MAX_IDENTIFIER_LENGTH) {
+    throw new ApiError(
+      400,
+      `Invalid ${kind} name "${name}": must start with a letter or underscore, contain only letters, numbers and underscores, and be at most ${MAX_IDENTIFIER_LENGTH} characters`
+    );
+  }
+  if (kind === 'table' && isMetadataTable(name)) {
+    throw new ApiError(400, `Invalid table name "${name}": names starting with "${METADATA_TABLE_PREFIX}" are reserved`);
+  }
+  return quoteIdentifier(name);
+}
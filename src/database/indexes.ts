@@ -0,0 +1,191 @@
+import type { PoolClient } from 'pg';
+import pool, { runSingleStatement, withTransaction } from './connection';
+import { recordTableChange } from './audit';
+import { ApiError } from './errors';
+import { recordMigration } from './migrations';
+import { ResolvedTable, quoteIdentifier, resolveColumns, resolveTable, validateNewIdentifier } from './identifiers';
+
+export type IndexMethod = 'btree' | 'gin' | 'gist';
+export const INDEX_METHODS: IndexMethod[] = ['btree', 'gin', 'gist'];
+
+export interface IndexInfo {
+  name: string;
+  definition: string;
+  method: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  // False when a concurrent build failed; the index is kept up to date but
+  // not used, and should be dropped
+  is_valid: boolean;
+  // The primary key, unique or exclusion constraint the index backs
+  constraint_name: string | null;
+  size: string;
+  size_bytes: number;
+  // Usage since the statistics were last reset
+  scans: number;
+  tuples_read: number;
+  tuples_fetched: number;
+}
+
+export interface CreateIndexOptions {
+  // Generated from the table and columns when empty
+  name?: string;
+  columns: string[];
+  method?: IndexMethod;
+  unique?: boolean;
+  // SQL condition for a partial index, such as status = 'open'
+  where?: string;
+  // Build without blocking writes to the table. Cannot run in a transaction.
+  concurrently?: boolean;
+  dryRun?: boolean;
+}
+
+export interface IndexChangeResult {
+  statements: string[];
+  applied: boolean;
+}
+
+// Tables and materialized views can have indexes
+async function resolveIndexedTable(tableName: string): Promise<ResolvedTable> {
+  const table = await resolveTable(tableName);
+  if (table.kind === 'view') {
+    throw new ApiError(400, `"${table.name}" is a view, which cannot have indexes`);
+  }
+  return table;
+}
+
+export async function listIndexes(tableName: string): Promise<IndexInfo[]> {
+  const table = await resolveIndexedTable(tableName);
+  const result = await pool.query(`
+    SELECT c.relname AS name, pg_get_indexdef(i.indexrelid) AS definition, am.amname AS method,
+      i.indisunique AS is_unique, i.indisprimary AS is_primary, i.indisvalid AS is_valid,
+      con.conname AS constraint_name,
+      pg_size_pretty(pg_relation_size(i.indexrelid)) AS size,
+      pg_relation_size(i.indexrelid)::float8 AS size_bytes,
+      coalesce(s.idx_scan, 0)::float8 AS scans,
+      coalesce(s.idx_tup_read, 0)::float8 AS tuples_read,
+      coalesce(s.idx_tup_fetch, 0)::float8 AS tuples_fetched
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indexrelid
+    JOIN pg_am am ON am.oid = c.relam
+    LEFT JOIN pg_constraint con
+      ON con.conindid = i.indexrelid AND con.conrelid = i.indrelid AND con.contype IN ('p', 'u', 'x')
+    LEFT JOIN pg_stat_user_indexes s ON s.indexrelid = i.indexrelid
+    WHERE i.indrelid = $1::regclass
+    ORDER BY i.indisprimary DESC, c.relname
+  `, [table.qualifiedName]);
+  return result.rows;
+}
+
+// Run a change to an index and record it. Concurrent builds and drops cannot
+// run in a transaction, so they run on their own and are recorded after they
+// succeed. Migrations run in a transaction, so the migration files always
+// have the plain statements.
+async function applyIndexChange(
+  table: ResolvedTable,
+  actor: string,
+  operation: 'CREATE INDEX' | 'DROP INDEX',
+  details: Record<string, any>,
+  statement: string,
+  migration: { description: string; up: string; down: string },
+  concurrently: boolean
+): Promise<void> {
+  const record = async (client: PoolClient) => {
+    await recordTableChange(client, actor, operation, table.name, details);
+    await recordMigration(client, actor, migration.description, [migration.up], [migration.down]);
+  };
+
+  if (!concurrently) {
+    await withTransaction(async client => {
+      await runSingleStatement(client, statement);
+      await record(client);
+    });
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await runSingleStatement(client, statement);
+  } finally {
+    client.release();
+  }
+  await withTransaction(record);
+}
+
+// Build the CREATE INDEX statement for a table and, unless this is a dry
+// run, run it. Returns the statement.
+export async function createIndex(tableName: string, options: CreateIndexOptions, actor: string): Promise<IndexChangeResult> {
+  const table = await resolveIndexedTable(tableName);
+  if (!Array.isArray(options.columns) || options.columns.length === 0) {
+    throw new ApiError(400, 'An index needs at least one column');
+  }
+  const columns = resolveColumns(table, options.columns);
+  const method = options.method ?? 'btree';
+  if (!INDEX_METHODS.includes(method)) {
+    throw new ApiError(400, `method must be one of ${INDEX_METHODS.join(', ')}`);
+  }
+  if (options.unique && method !== 'btree') {
+    throw new ApiError(400, 'Only btree indexes can be unique');
+  }
+  const where = typeof options.where === 'string' ? options.where.trim() : '';
+
+  const name = options.name?.trim()
+    ? options.name.trim()
+    : `${table.relationName}_${options.columns.join('_')}_idx`.slice(0, 63);
+  validateNewIdentifier(name, 'index');
+  const index = `${quoteIdentifier(table.schema)}.${quoteIdentifier(name)}`;
+
+  const build = (concurrently: boolean) =>
+    `CREATE ${options.unique ? 'UNIQUE ' : ''}INDEX ${concurrently ? 'CONCURRENTLY ' : ''}${quoteIdentifier(name)} ` +
+    `ON ${table.qualifiedName} USING ${method} (${columns.join(', ')})${where ? ` WHERE ${where}` : ''}`;
+  const statement = build(options.concurrently === true);
+  if (options.dryRun) {
+    return { statements: [statement], applied: false };
+  }
+
+  await applyIndexChange(
+    table,
+    actor,
+    'CREATE INDEX',
+    { index: name, statement },
+    statement,
+    { description: `Create index ${name}`, up: build(false), down: `DROP INDEX ${index}` },
+    options.concurrently === true
+  );
+  return { statements: [statement], applied: true };
+}
+
+// Drop one of the table's indexes. Indexes that back a constraint are dropped
+// with the constraint instead.
+export async function dropIndex(
+  tableName: string,
+  indexName: string,
+  actor: string,
+  options: { concurrently?: boolean; dryRun?: boolean } = {}
+): Promise<IndexChangeResult> {
+  const table = await resolveIndexedTable(tableName);
+  const existing = (await listIndexes(table.name)).find(index => index.name === indexName);
+  if (!existing) {
+    throw new ApiError(404, `Index "${indexName}" not found on "${table.name}"`);
+  }
+  if (existing.constraint_name) {
+    throw new ApiError(400, `Index "${indexName}" belongs to constraint "${existing.constraint_name}"; drop the constraint instead`);
+  }
+
+  const index = `${quoteIdentifier(table.schema)}.${quoteIdentifier(indexName)}`;
+  const statement = `DROP INDEX ${options.concurrently ? 'CONCURRENTLY ' : ''}${index}`;
+  if (options.dryRun) {
+    return { statements: [statement], applied: false };
+  }
+
+  await applyIndexChange(
+    table,
+    actor,
+    'DROP INDEX',
+    { index: indexName, definition: existing.definition },
+    statement,
+    { description: `Drop index ${indexName}`, up: `DROP INDEX ${index}`, down: existing.definition },
+    options.concurrently === true
+  );
+  return { statements: [statement], applied: true };
+}
@@ -0,0 +1,47 @@
+import type { Pool } from 'pg';
+import pool, { ConnectionProfile, appPool, currentConnection } from './connection';
+
+// Tables the app keeps its own settings in. They live next to the user's
+// tables, so they are hidden from the table list and the generic row API.
+export const METADATA_TABLE_PREFIX = 'tomulator_';
+
+export function isMetadataTable(tableName: string): boolean {
+  return tableName.startsWith(METADATA_TABLE_PREFIX);
+}
+
+// By connection, since each database has its own metadata tables
+const created = new WeakMap<ConnectionProfile | Pool, Map<string, Promise<boolean>>>();
+
+function ensureOnce(owner: ConnectionProfile | Pool, name: string, create: () => Promise<boolean>): Promise<boolean> {
+  let tables = created.get(owner);
+  if (!tables) {
+    tables = new Map();
+    created.set(owner, tables);
+  }
+  let pending = tables.get(name);
+  if (!pending) {
+    pending = create();
+    // Let a failed attempt, or a table that is still missing, be retried on
+    // the next request
+    pending.then(exists => { if (!exists) tables!.delete(name); }, () => tables!.delete(name));
+    tables.set(name, pending);
+  }
+  return pending;
+}
+
+// Create a metadata table in the current connection's database on first use.
+// The DDL must be idempotent (CREATE TABLE IF NOT EXISTS) since every server
+// start runs it once. Read-only connections cannot create it, so this
+// resolves to whether the table exists, and readers fall back when it does not.
+export function ensureMetadataTable(name: string, ddl: string): Promise<boolean> {
+  const connection = currentConnection();
+  return ensureOnce(connection, name, () => connection.readOnly
+    ? pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [name]).then(result => result.rows[0].exists)
+    : pool.query(ddl).then(() => true)
+  );
+}
+
+// Create a table of the app's own database, such as the users table, on first use
+export function ensureAppTable(name: string, ddl: string): Promise<void> {
+  return ensureOnce(appPool, name, () => appPool.query(ddl).then(() => true)).then(() => undefined);
+}
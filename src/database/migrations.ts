@@ -0,0 +1,261 @@
+import fs from 'fs';
+import path from 'path';
+import type { PoolClient } from 'pg';
+import pool, { onRollback, requireWritableConnection, withTransaction } from './connection';
+import { ApiError } from './errors';
+import { ensureMetadataTable } from './metadata';
+
+// Schema changes made in the app are written as migration files, so other
+// databases can be brought to the same schema from the repo. Each migration
+// is a pair of files, <version>_<name>.up.sql and <version>_<name>.down.sql,
+// where the version is the UTC time it was recorded.
+export interface MigrationInfo {
+  version: string;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+  applied_by: string | null;
+  // Applied to this database, but its files are not in the migrations directory
+  missing: boolean;
+}
+
+export const MIGRATIONS_DIR = process.env.TOMULATOR_MIGRATIONS_DIR || 'migrations';
+const MIGRATIONS_TABLE = 'tomulator_schema_migrations';
+const FILE_PATTERN = /^(\d{14})_(\w+)\.(up|down)\.sql$/;
+// Serializes applying and rolling back on one database
+const MIGRATION_LOCK = `hashtext('${MIGRATIONS_TABLE}')`;
+
+function ensureMigrationsTable(): Promise<boolean> {
+  return ensureMetadataTable(MIGRATIONS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      applied_by TEXT NOT NULL
+    )
+  `);
+}
+
+// Down SQL for a change that cannot be undone. Rolling it back fails rather
+// than leaving the schema half reverted.
+export function irreversibleDown(reason: string): string[] {
+  return [`DO $$ BEGIN RAISE EXCEPTION 'This migration cannot be rolled back: %', ${dollarQuote(reason)}; END $$`];
+}
+
+function dollarQuote(text: string): string {
+  return `$reason$${text}$reason$`;
+}
+
+function formatVersion(date: Date): string {
+  return date.toISOString().replace(/\D/g, '').slice(0, 14);
+}
+
+function migrationFile(version: string, name: string, direction: 'up' | 'down'): string {
+  return path.join(MIGRATIONS_DIR, `${version}_${name}.${direction}.sql`);
+}
+
+// For each line of the SQL, whether it starts outside string literals,
+// quoted identifiers and dollar-quoted bodies, so its indentation is the
+// generator's and not part of a value
+function linesOutsideQuotes(sql: string): boolean[] {
+  const starts = [true];
+  // The open quote: ', E' (with backslash escapes), " or a $tag$
+  let quote: string | null = null;
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === '\n') {
+      starts.push(quote === null);
+    } else if (quote === null) {
+      if (char === "'") {
+        quote = /[eE]/.test(sql[i - 1] ?? '') && !/\w/.test(sql[i - 2] ?? '') ? "E'" : "'";
+      } else if (char === '"') {
+        quote = '"';
+      } else if (char === '$' && !/\w/.test(sql[i - 1] ?? '')) {
+        const tag = sql.slice(i).match(/^\$([A-Za-z_]\w*)?\$/);
+        if (tag) {
+          quote = tag[0];
+          i += tag[0].length - 1;
+        }
+      }
+    } else if (quote.startsWith('$')) {
+      if (sql.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = null;
+      }
+    } else if (quote === "E'" && char === '\\' && sql[i + 1] !== '\n') {
+      i++;
+    } else if (char === quote[quote.length - 1]) {
+      // A doubled quote stands for itself
+      if (sql[i + 1] === char) i++;
+      else quote = null;
+    }
+  }
+  return starts;
+}
+
+// Statements built for queries are indented to fit their code. That
+// indentation is removed, leaving what is inside quotes as it is.
+function formatStatement(statement: string): string {
+  const lines = statement.replace(/^(\s*\n)+/, '').trimEnd().split('\n');
+  const outside = linesOutsideQuotes(lines.join('\n'));
+  const indents = lines
+    .filter((line, index) => index > 0 && outside[index] && line.trim() !== '')
+    .map(line => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  const text = lines
+    .map((line, index) => {
+      if (index === 0) return line.trimStart();
+      if (!outside[index]) return line;
+      return line.trim() === '' ? null : line.slice(indent);
+    })
+    .filter((line): line is string => line !== null)
+    .join('\n');
+  return text.endsWith(';') ? text : `${text};`;
+}
+
+function formatStatements(header: string, statements: string[]): string {
+  return `${header}\n\n${statements.map(formatStatement).join('\n\n')}\n`;
+}
+
+// Write the files of a change the app has just made and mark it as applied
+// to the current database. Called last in the change's transaction, run with
+// withTransaction, so the change is rolled back if the files cannot be
+// written, and the files are deleted if the transaction does not commit.
+export async function recordMigration(
+  client: PoolClient,
+  actor: string,
+  description: string,
+  up: string[],
+  down: string[]
+): Promise<string> {
+  await ensureMigrationsTable();
+  const name = description.toLowerCase().replace(/\W+/g, '_').replace(/^_|_$/g, '').slice(0, 60);
+  fs.mkdirSync(MIGRATIONS_DIR, { recursive: true });
+
+  // Two changes in the same second get consecutive versions
+  const time = new Date();
+  let version = formatVersion(time);
+  while (listFiles().has(version)) {
+    time.setUTCSeconds(time.getUTCSeconds() + 1);
+    version = formatVersion(time);
+  }
+
+  const header = `-- ${description.replace(/\s+/g, ' ')}\n-- Recorded by ${actor} on ${new Date().toISOString()}`;
+  await client.query(
+    `INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_by) VALUES ($1, $2, $3)`,
+    [version, name, actor]
+  );
+  for (const [direction, statements] of [['up', up], ['down', down]] as const) {
+    const file = migrationFile(version, name, direction);
+    fs.writeFileSync(file, formatStatements(header, statements), { flag: 'wx' });
+    onRollback(client, () => fs.rmSync(file, { force: true }));
+  }
+  return version;
+}
+
+// Migration names by version, from the files in the migrations directory
+function listFiles(): Map<string, string> {
+  const files = new Map<string, string>();
+  if (!fs.existsSync(MIGRATIONS_DIR)) return files;
+  for (const file of fs.readdirSync(MIGRATIONS_DIR)) {
+    const match = file.match(FILE_PATTERN);
+    if (match) files.set(match[1], match[2]);
+  }
+  return files;
+}
+
+function readMigration(version: string, name: string, direction: 'up' | 'down'): string {
+  const file = migrationFile(version, name, direction);
+  if (!fs.existsSync(file)) {
+    throw new ApiError(400, `Migration ${version}_${name} has no ${direction} file`);
+  }
+  return fs.readFileSync(file, 'utf8');
+}
+
+// Every migration in the directory or applied to the current database, oldest first
+export async function listMigrations(): Promise<MigrationInfo[]> {
+  const files = listFiles();
+  const applied = await ensureMigrationsTable()
+    ? (await pool.query(`SELECT version, name, applied_at, applied_by FROM ${MIGRATIONS_TABLE}`)).rows
+    : [];
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+
+  const versions = Array.from(new Set([...files.keys(), ...appliedByVersion.keys()])).sort();
+  return versions.map(version => {
+    const row = appliedByVersion.get(version);
+    return {
+      version,
+      name: files.get(version) ?? row.name,
+      applied: row !== undefined,
+      applied_at: row?.applied_at ?? null,
+      applied_by: row?.applied_by ?? null,
+      missing: !files.has(version),
+    };
+  });
+}
+
+// Run one migration's file in a transaction, holding the lock so another
+// server cannot run it at the same time
+async function runMigration(migration: MigrationInfo, direction: 'up' | 'down', actor: string): Promise<void> {
+  const sql = readMigration(migration.version, migration.name, direction);
+  await withTransaction(async client => {
+    await client.query(`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK})`);
+    const tracked = await client.query(`SELECT 1 FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+    if ((tracked.rows.length > 0) === (direction === 'up')) {
+      return; // Already done by someone else
+    }
+    try {
+      await client.query(sql);
+    } catch (error) {
+      throw new ApiError(400, `Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (direction === 'up') {
+      await client.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, applied_by) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, actor]
+      );
+    } else {
+      await client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+    }
+  });
+}
+
+// Apply pending migrations to the current database in version order, up to
+// and including target when given. Each runs in its own transaction; the
+// first to fail stops the rest. Returns the versions applied.
+export async function applyMigrations(actor: string, target?: string): Promise<string[]> {
+  requireWritableConnection();
+  await ensureMigrationsTable();
+  const pending = (await listMigrations()).filter(migration =>
+    !migration.applied && (target === undefined || migration.version <= target)
+  );
+  const applied: string[] = [];
+  for (const migration of pending) {
+    await runMigration(migration, 'up', actor);
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+// Roll back applied migrations, newest first: the latest one, or every one
+// after target when given. Returns the versions rolled back.
+export async function rollbackMigrations(actor: string, target?: string): Promise<string[]> {
+  requireWritableConnection();
+  await ensureMigrationsTable();
+  const applied = (await listMigrations()).filter(migration => migration.applied).reverse();
+  const toRollBack = target === undefined ? applied.slice(0, 1) : applied.filter(migration => migration.version > target);
+  const rolledBack: string[] = [];
+  for (const migration of toRollBack) {
+    await runMigration(migration, 'down', actor);
+    rolledBack.push(migration.version);
+  }
+  return rolledBack;
+}
+
+export function validateVersion(version: unknown): string | undefined {
+  if (version === undefined || version === null || version === '') return undefined;
+  if (typeof version !== 'string' || !/^\d{14}$/.test(version)) {
+    throw new ApiError(400, 'Migration versions are 14 digits, such as 20240101120000');
+  }
+  return version;
+}
@@ -0,0 +1,343 @@
+import type { Notification, PoolClient } from 'pg';
+import pool, { currentConnection, getConnectionProfile, runWithConnection, withTransaction } from './connection';
+import { ROW_ALIAS, VERSION_FIELD } from './audit';
+import { ApiError } from './errors';
+import { quoteLiteral, requireBaseTable, resolveTable, rowKeyCondition, tableReference } from './identifiers';
+import { ensureMetadataTable } from './metadata';
+
+// A row change as sent to subscribers. Inserted and updated rows are read
+// in full, the same way the grid reads them; deleted rows only have a key.
+export type RowChange =
+  | { operation: 'INSERT' | 'UPDATE'; key: string[]; row: Record<string, any> }
+  | { operation: 'DELETE'; key: string[] };
+
+// Changes are sent in batches. A reload message means too much changed to
+// send row by row.
+export type TableChangeMessage =
+  | { type: 'changes'; changes: RowChange[] }
+  | { type: 'reload' };
+
+type Listener = (message: TableChangeMessage) => void;
+
+export interface LiveUpdatesSettings {
+  // The table has the notify triggers, so its open grids update live
+  enabled: boolean;
+}
+
+// A row change waiting to be flushed
+interface RowChangeNotification {
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  // Primary key values as text, or null when the rows cannot be told apart
+  key: string[] | null;
+}
+
+// The changes of one statement, as sent by the trigger. keys is null when
+// the table has no primary key, or too many rows changed to list.
+interface StatementChangeNotification {
+  schema: string;
+  table: string;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  keys: string[][] | null;
+}
+
+const CHANNEL = 'tomulator_row_changes';
+const NOTIFY_FUNCTION = 'tomulator_notify_changes';
+// A trigger for each operation, since each has different transition tables
+const NOTIFY_TRIGGERS = {
+  INSERT: { name: 'tomulator_notify_insert', transitions: 'NEW TABLE AS new_rows' },
+  UPDATE: { name: 'tomulator_notify_update', transitions: 'NEW TABLE AS new_rows' },
+  DELETE: { name: 'tomulator_notify_delete', transitions: 'OLD TABLE AS old_rows' },
+};
+// The row-level trigger of earlier versions, which sent a notification per
+// row. It is replaced when live updates are turned on or off.
+const LEGACY_NOTIFY_TRIGGER = 'tomulator_notify_row_change';
+const TRIGGER_NAMES = [...Object.values(NOTIFY_TRIGGERS).map(trigger => trigger.name), LEGACY_NOTIFY_TRIGGER];
+// Changes are collected for this long before being read and sent, so a bulk
+// change becomes one query instead of one per row
+const FLUSH_DELAY_MS = 200;
+// Beyond this many rows in one flush, subscribers are told to reload instead
+const MAX_ROWS_PER_FLUSH = 200;
+// NOTIFY payloads must be shorter than this many bytes
+const MAX_PAYLOAD_BYTES = 8000;
+const RECONNECT_DELAY_MS = 5000;
+
+// One notification per statement, listing the keys of the changed rows from
+// the transition table. The trigger's arguments are the primary key columns.
+// Statements changing more rows than a flush sends only say that the table
+// changed, so bulk changes stay cheap.
+function ensureNotifyFunction(): Promise<boolean> {
+  const keysOf = (rows: string) => `
+      SELECT count(*) INTO changed FROM (SELECT 1 FROM ${rows} LIMIT ${MAX_ROWS_PER_FLUSH + 1}) AS limited;
+      IF TG_NARGS > 0 AND changed <= ${MAX_ROWS_PER_FLUSH} THEN
+        SELECT json_agg((
+          SELECT json_agg(to_jsonb(r) ->> key_column ORDER BY position)
+          FROM unnest(TG_ARGV) WITH ORDINALITY AS k(key_column, position)
+        )) INTO keys FROM ${rows} AS r;
+      END IF;`;
+  return ensureMetadataTable(NOTIFY_FUNCTION, `
+    CREATE OR REPLACE FUNCTION ${NOTIFY_FUNCTION}() RETURNS trigger AS $$
+    DECLARE
+      changed integer;
+      keys json;
+      payload text;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN${keysOf('old_rows')}
+      ELSE${keysOf('new_rows')}
+      END IF;
+      IF changed = 0 THEN
+        RETURN NULL;
+      END IF;
+      payload := json_build_object('schema', TG_TABLE_SCHEMA, 'table', TG_TABLE_NAME, 'operation', TG_OP, 'keys', keys)::text;
+      IF octet_length(payload) >= ${MAX_PAYLOAD_BYTES} THEN
+        payload := json_build_object('schema', TG_TABLE_SCHEMA, 'table', TG_TABLE_NAME, 'operation', TG_OP, 'keys', NULL)::text;
+      END IF;
+      PERFORM pg_notify('${CHANNEL}', payload);
+      RETURN NULL;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+}
+
+export async function getLiveUpdates(tableName: string): Promise<LiveUpdatesSettings> {
+  const table = await resolveTable(tableName);
+  if (table.kind !== 'table') return { enabled: false };
+  const result = await pool.query(
+    'SELECT EXISTS (SELECT 1 FROM pg_trigger WHERE tgrelid = $1::regclass AND tgname = ANY($2)) AS enabled',
+    [table.qualifiedName, TRIGGER_NAMES]
+  );
+  return { enabled: result.rows[0].enabled };
+}
+
+// Install the notify triggers on a table, or remove them. Turning live
+// updates on again reinstalls the triggers, as is needed after the primary
+// key changed.
+export async function setLiveUpdates(tableName: string, enabled: unknown): Promise<LiveUpdatesSettings> {
+  if (typeof enabled !== 'boolean') {
+    throw new ApiError(400, 'enabled must be true or false');
+  }
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  if (enabled) {
+    await ensureNotifyFunction();
+  }
+  const args = table.primaryKey.map(quoteLiteral).join(', ');
+  await withTransaction(async client => {
+    for (const name of TRIGGER_NAMES) {
+      await client.query(`DROP TRIGGER IF EXISTS ${name} ON ${table.qualifiedName}`);
+    }
+    if (!enabled) return;
+    for (const [operation, trigger] of Object.entries(NOTIFY_TRIGGERS)) {
+      await client.query(`
+        CREATE TRIGGER ${trigger.name}
+        AFTER ${operation} ON ${table.qualifiedName}
+        REFERENCING ${trigger.transitions}
+        FOR EACH STATEMENT EXECUTE FUNCTION ${NOTIFY_FUNCTION}(${args})
+      `);
+    }
+  });
+  return { enabled };
+}
+
+// What is being listened to on one connection's database
+interface ListenState {
+  connection: string;
+  listeners: Map<string, Set<Listener>>;
+  // Changes waiting to be flushed, by table, then by key
+  pending: Map<string, Map<string, RowChangeNotification>>;
+  client: PoolClient | null;
+  connecting: Promise<void> | null;
+}
+
+// By connection name
+const states = new Map<string, ListenState>();
+
+function stateFor(connection: string): ListenState {
+  let state = states.get(connection);
+  if (!state) {
+    state = { connection, listeners: new Map(), pending: new Map(), client: null, connecting: null };
+    states.set(connection, state);
+  }
+  return state;
+}
+
+function broadcast(state: ListenState, tableName: string, message: TableChangeMessage) {
+  state.listeners.get(tableName)?.forEach(listener => listener(message));
+}
+
+function handleNotification(state: ListenState, notification: Notification) {
+  if (notification.channel !== CHANNEL || !notification.payload) return;
+  let change: StatementChangeNotification & { key?: string[] | null };
+  try {
+    change = JSON.parse(notification.payload);
+  } catch {
+    return;
+  }
+  const tableName = tableReference(change.schema, change.table);
+  if (!state.listeners.has(tableName)) return;
+
+  let changes = state.pending.get(tableName);
+  if (!changes) {
+    changes = new Map();
+    state.pending.set(tableName, changes);
+    setTimeout(() => {
+      state.pending.delete(tableName);
+      if (!getConnectionProfile(state.connection)) return;
+      runWithConnection(state.connection, () => flushChanges(state, tableName, changes!)).catch(error => {
+        console.error(`Error sending changes to table "${tableName}":`, error);
+        broadcast(state, tableName, { type: 'reload' });
+      });
+    }, FLUSH_DELAY_MS);
+  }
+  // The legacy row-level trigger sends a single key
+  const keys = 'key' in change ? (change.key ? [change.key] : null) : change.keys;
+  if (!keys) {
+    changes.set(`#${changes.size}`, { operation: change.operation, key: null });
+    return;
+  }
+  // A row changed twice before the flush is only sent once, as it is now
+  for (const key of keys) {
+    changes.set(JSON.stringify(key), { operation: change.operation, key });
+  }
+}
+
+async function flushChanges(state: ListenState, tableName: string, changes: Map<string, RowChangeNotification>) {
+  const list = Array.from(changes.values());
+  if (list.length > MAX_ROWS_PER_FLUSH || list.some(change => !change.key)) {
+    broadcast(state, tableName, { type: 'reload' });
+    return;
+  }
+
+  const table = await resolveTable(tableName);
+  // The triggers were installed before the primary key changed
+  if (list.some(change => change.key!.length !== table.primaryKey.length)) {
+    broadcast(state, tableName, { type: 'reload' });
+    return;
+  }
+  const changedKeys = list.filter(change => change.operation !== 'DELETE').map(change => change.key!);
+  const rows = new Map<string, Record<string, any>>();
+
+  if (changedKeys.length > 0) {
+    const params: any[] = [];
+    const keyColumns = table.primaryKey.map(column => {
+      params.push(column);
+      return `to_jsonb(${ROW_ALIAS}) ->> $${params.length}::text`;
+    });
+    const conditions = changedKeys.map(key => `(${rowKeyCondition(table, key, params)})`);
+    const result = await pool.query(`
+      SELECT *, xmin::text AS ${VERSION_FIELD}, json_build_array(${keyColumns.join(', ')}) AS tomulator_key
+      FROM ${table.qualifiedName} AS ${ROW_ALIAS}
+      WHERE ${conditions.join(' OR ')}
+    `, params);
+    for (const { tomulator_key: key, ...row } of result.rows) {
+      rows.set(JSON.stringify(key), row);
+    }
+  }
+
+  const rowChanges = list.map((change): RowChange => {
+    const row = rows.get(JSON.stringify(change.key));
+    // A row deleted since it was inserted or updated is sent as deleted
+    return change.operation === 'DELETE' || !row
+      ? { operation: 'DELETE', key: change.key! }
+      : { operation: change.operation, key: change.key!, row };
+  });
+  broadcast(state, tableName, { type: 'changes', changes: rowChanges });
+}
+
+// Hold one pool client of the current connection for LISTEN while anyone is
+// subscribed. If its connection is lost, reconnect while there are still
+// subscribers.
+function ensureListening(state: ListenState): Promise<void> {
+  if (state.client) return Promise.resolve();
+  if (!state.connecting) {
+    state.connecting = (async () => {
+      const client = await pool.connect();
+      try {
+        await client.query(`LISTEN ${CHANNEL}`);
+      } catch (error) {
+        client.release(true);
+        throw error;
+      }
+      client.on('notification', notification => handleNotification(state, notification));
+      client.on('error', error => {
+        // The client was already given up
+        if (state.client !== client) return;
+        console.error(`Lost the connection listening for table changes on "${state.connection}":`, error);
+        state.client = null;
+        client.release(true);
+        setTimeout(() => reconnect(state), RECONNECT_DELAY_MS);
+      });
+      state.client = client;
+      // Everyone unsubscribed while connecting
+      if (state.listeners.size === 0) {
+        releaseListener(state);
+      }
+    })().finally(() => {
+      state.connecting = null;
+    });
+  }
+  return state.connecting;
+}
+
+// Give up the LISTEN client. Its connection is closed rather than returned
+// to the pool, so no other request gets a client that is still listening.
+function releaseListener(state: ListenState) {
+  const client = state.client;
+  state.client = null;
+  client?.release(true);
+}
+
+function reconnect(state: ListenState) {
+  // Nobody is listening any more, or the connection was removed
+  if (state.listeners.size === 0 || !getConnectionProfile(state.connection)) return;
+  runWithConnection(state.connection, () => ensureListening(state)).then(
+    // Changes made while disconnected were missed
+    () => state.listeners.forEach((_, tableName) => broadcast(state, tableName, { type: 'reload' })),
+    error => {
+      console.error('Error listening for table changes:', error);
+      setTimeout(() => reconnect(state), RECONNECT_DELAY_MS);
+    }
+  );
+}
+
+// Stop listening on a connection that is being changed or removed. Its
+// subscribers are told to reload, and stop getting changes.
+export function stopListening(connection: string): void {
+  const state = states.get(connection);
+  if (!state) return;
+  states.delete(connection);
+  releaseListener(state);
+  state.listeners.forEach((_, tableName) => broadcast(state, tableName, { type: 'reload' }));
+  state.listeners.clear();
+}
+
+// Send changes to a table's rows to listener until the returned function is
+// called. Changes are only sent for tables that have the notify triggers,
+// which an admin of the table installs with setLiveUpdates.
+export async function subscribeToTable(tableName: string, listener: Listener): Promise<() => void> {
+  const table = await resolveTable(tableName);
+  const state = stateFor(currentConnection().name);
+
+  let tableListeners = state.listeners.get(table.name);
+  if (!tableListeners) {
+    tableListeners = new Set();
+    state.listeners.set(table.name, tableListeners);
+  }
+  tableListeners.add(listener);
+
+  const unsubscribe = () => {
+    tableListeners!.delete(listener);
+    if (tableListeners!.size === 0 && state.listeners.get(table.name) === tableListeners) {
+      state.listeners.delete(table.name);
+    }
+    if (state.listeners.size === 0) {
+      releaseListener(state);
+    }
+  };
+  try {
+    await ensureListening(state);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+  return unsubscribe;
+}
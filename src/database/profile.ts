@@ -0,0 +1,237 @@
+import type { PoolClient } from 'pg';
+import { withTransaction } from './connection';
+import { ApiError } from './errors';
+import { RelationKind, ResolvedTable, quoteIdentifier, resolveTable } from './identifiers';
+import type { TableSchema } from './queries';
+
+export interface HistogramBucket {
+  from: string;
+  to: string;
+  count: number;
+}
+
+// Counts are of the rows profiled: the sample when the table was sampled
+export interface ColumnProfile {
+  name: string;
+  dataType: string;
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  // For numbers, dates, times and text
+  min: string | null;
+  max: string | null;
+  // The most common values, as text, most common first
+  topValues: { value: string; count: number }[];
+  // For numbers, dates and timestamps
+  histogram: HistogramBucket[] | null;
+}
+
+export interface TableProfile {
+  tableName: string;
+  kind: RelationKind;
+  rowCount: number;
+  // False when rowCount is Postgres' estimate, for tables too large to count
+  rowCountExact: boolean;
+  // Sizes are null for views, which store nothing
+  totalSize: string | null;
+  tableSize: string | null;
+  indexesSize: string | null;
+  deadRows: number | null;
+  lastVacuum: string | null;
+  lastAutovacuum: string | null;
+  lastAnalyze: string | null;
+  lastAutoanalyze: string | null;
+  sampled: boolean;
+  profiledRows: number;
+  columns: ColumnProfile[];
+}
+
+// Tables with more rows than this are estimated rather than counted
+const EXACT_COUNT_LIMIT = 1000000;
+// Columns are profiled from a sample of about this many rows
+const SAMPLE_ROWS = 100000;
+const TOP_VALUES = 5;
+const HISTOGRAM_BUCKETS = 10;
+// Longer values are cut in the minimum, maximum and top values
+const MAX_VALUE_LENGTH = 200;
+const PROFILE_TIMEOUT_SECONDS = 30;
+
+const NUMERIC_TYPES = ['smallint', 'integer', 'bigint', 'numeric', 'real', 'double precision'];
+const TEMPORAL_TYPES = ['date', 'timestamp without time zone', 'timestamp with time zone'];
+// Types with a min and max besides numbers and the temporal types
+const ORDERED_TYPES = ['text', 'character varying', 'character', 'time without time zone', 'time with time zone'];
+
+function hasRange(col: TableSchema): boolean {
+  return NUMERIC_TYPES.includes(col.data_type) || TEMPORAL_TYPES.includes(col.data_type) || ORDERED_TYPES.includes(col.data_type);
+}
+
+async function countRows(client: PoolClient, table: ResolvedTable): Promise<{ rowCount: number; exact: boolean }> {
+  if (table.kind !== 'view') {
+    // reltuples is -1 for tables that were never vacuumed or analyzed
+    const estimate = await client.query('SELECT reltuples::float8 AS rows FROM pg_class WHERE oid = $1::regclass', [table.qualifiedName]);
+    const rows = estimate.rows[0].rows;
+    if (rows > EXACT_COUNT_LIMIT) {
+      return { rowCount: Math.round(rows), exact: false };
+    }
+  }
+  const result = await client.query(`SELECT count(*)::float8 AS rows FROM ${table.qualifiedName}`);
+  return { rowCount: result.rows[0].rows, exact: true };
+}
+
+async function readStorageStats(client: PoolClient, table: ResolvedTable) {
+  const result = await client.query(`
+    SELECT pg_size_pretty(pg_total_relation_size(c.oid)) AS total_size,
+      pg_size_pretty(pg_relation_size(c.oid)) AS table_size,
+      pg_size_pretty(pg_indexes_size(c.oid)) AS indexes_size,
+      s.n_dead_tup::float8 AS dead_rows,
+      s.last_vacuum, s.last_autovacuum, s.last_analyze, s.last_autoanalyze
+    FROM pg_class c
+    LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+    WHERE c.oid = $1::regclass
+  `, [table.qualifiedName]);
+  return result.rows[0];
+}
+
+// The rows to profile, as a FROM item. Large tables are sampled by page,
+// with a fixed seed so every query sees the same sample; views cannot be
+// sampled, so their first rows are used.
+function sampleSource(table: ResolvedTable, rowCount: number): string {
+  if (rowCount <= SAMPLE_ROWS) {
+    return `${table.qualifiedName} AS sample`;
+  }
+  if (table.kind === 'view') {
+    return `(SELECT * FROM ${table.qualifiedName} LIMIT ${SAMPLE_ROWS}) AS sample`;
+  }
+  const percent = Math.max(0.0001, Math.min(100, (SAMPLE_ROWS * 100) / rowCount)).toFixed(4);
+  return `${table.qualifiedName} AS sample TABLESAMPLE SYSTEM (${percent}) REPEATABLE (0)`;
+}
+
+function formatBound(value: number, col: TableSchema): string {
+  if (!TEMPORAL_TYPES.includes(col.data_type)) {
+    return String(Number(value.toPrecision(6)));
+  }
+  const iso = new Date(value * 1000).toISOString();
+  return col.data_type === 'date' ? iso.slice(0, 10) : iso;
+}
+
+// Equal-width buckets between the column's smallest and largest finite
+// values; dates and timestamps are bucketed by their epoch seconds
+async function readHistogram(client: PoolClient, source: string, col: TableSchema): Promise<HistogramBucket[]> {
+  const column = quoteIdentifier(col.column_name);
+  const value = TEMPORAL_TYPES.includes(col.data_type) ? `extract(epoch FROM ${column})::float8` : `${column}::float8`;
+  const result = await client.query(`
+    WITH v AS (
+      SELECT ${value} AS v FROM ${source}
+      WHERE ${column} IS NOT NULL AND ${value} > '-Infinity'::float8 AND ${value} < 'Infinity'::float8
+    ), bounds AS (
+      SELECT min(v) AS lo, max(v) AS hi FROM v
+    )
+    SELECT lo, hi,
+      CASE WHEN hi > lo THEN least(width_bucket(v, lo, hi, ${HISTOGRAM_BUCKETS}), ${HISTOGRAM_BUCKETS}) ELSE 1 END AS bucket,
+      count(*)::float8 AS count
+    FROM v, bounds
+    GROUP BY lo, hi, bucket
+    ORDER BY bucket
+  `);
+  if (result.rows.length === 0) return [];
+
+  const { lo, hi } = result.rows[0];
+  const buckets = hi > lo ? HISTOGRAM_BUCKETS : 1;
+  const width = (hi - lo) / buckets;
+  return Array.from({ length: buckets }, (_, index) => ({
+    from: formatBound(lo + width * index, col),
+    to: formatBound(index === buckets - 1 ? hi : lo + width * (index + 1), col),
+    count: result.rows.find(row => row.bucket === index + 1)?.count ?? 0,
+  }));
+}
+
+// Row count, storage and maintenance statistics for a table, view or
+// materialized view, and a profile of each column. Large tables are profiled
+// from a sample. Runs with a statement timeout so it cannot hold a
+// connection for long.
+export async function getTableProfile(tableName: string): Promise<TableProfile> {
+  const table = await resolveTable(tableName);
+  try {
+    return await withTransaction(async client => {
+      await client.query(`SET LOCAL statement_timeout = '${PROFILE_TIMEOUT_SECONDS}s'`);
+      const { rowCount, exact } = await countRows(client, table);
+      const stats = table.kind === 'view' ? null : await readStorageStats(client, table);
+      const source = sampleSource(table, rowCount);
+
+      // Null, distinct, min and max counts for every column in one scan
+      const aggregates = table.columns.flatMap((col, index) => {
+        const column = quoteIdentifier(col.column_name);
+        const parts = [
+          `count(${column})::float8 AS n${index}`,
+          `count(DISTINCT ${column}::text)::float8 AS d${index}`,
+        ];
+        if (hasRange(col)) {
+          parts.push(
+            `left(min(${column})::text, ${MAX_VALUE_LENGTH}) AS min${index}`,
+            `left(max(${column})::text, ${MAX_VALUE_LENGTH}) AS max${index}`
+          );
+        }
+        return parts;
+      });
+      const summary = (await client.query(
+        `SELECT count(*)::float8 AS profiled_rows${aggregates.length > 0 ? `, ${aggregates.join(', ')}` : ''} FROM ${source}`
+      )).rows[0];
+      const profiledRows: number = summary.profiled_rows;
+
+      const columns: ColumnProfile[] = [];
+      for (const [index, col] of table.columns.entries()) {
+        const column = quoteIdentifier(col.column_name);
+        const nonNull: number = summary[`n${index}`];
+        const distinctCount: number = summary[`d${index}`];
+        // Values that are all different have no top values worth showing
+        const topValues = distinctCount === 0 || distinctCount === nonNull
+          ? []
+          : (await client.query(`
+              SELECT left(${column}::text, ${MAX_VALUE_LENGTH}) AS value, count(*)::float8 AS count
+              FROM ${source}
+              WHERE ${column} IS NOT NULL
+              GROUP BY 1
+              ORDER BY 2 DESC, 1
+              LIMIT ${TOP_VALUES}
+            `)).rows;
+        const histogram = nonNull > 0 && (NUMERIC_TYPES.includes(col.data_type) || TEMPORAL_TYPES.includes(col.data_type))
+          ? await readHistogram(client, source, col)
+          : null;
+        columns.push({
+          name: col.column_name,
+          dataType: col.data_type,
+          nullCount: profiledRows - nonNull,
+          nullRatio: profiledRows > 0 ? (profiledRows - nonNull) / profiledRows : 0,
+          distinctCount,
+          min: summary[`min${index}`] ?? null,
+          max: summary[`max${index}`] ?? null,
+          topValues,
+          histogram,
+        });
+      }
+
+      return {
+        tableName: table.name,
+        kind: table.kind,
+        rowCount,
+        rowCountExact: exact,
+        totalSize: stats?.total_size ?? null,
+        tableSize: stats?.table_size ?? null,
+        indexesSize: stats?.indexes_size ?? null,
+        deadRows: stats?.dead_rows ?? null,
+        lastVacuum: stats?.last_vacuum ?? null,
+        lastAutovacuum: stats?.last_autovacuum ?? null,
+        lastAnalyze: stats?.last_analyze ?? null,
+        lastAutoanalyze: stats?.last_autoanalyze ?? null,
+        sampled: rowCount > SAMPLE_ROWS,
+        profiledRows,
+        columns,
+      };
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === '57014') {
+      throw new ApiError(503, `Profiling "${table.name}" took longer than ${PROFILE_TIMEOUT_SECONDS} seconds`);
+    }
+    throw error;
+  }
+}
@@ -1,196 +1,896 @@
-import pool from './connection';
+import type { CustomTypesConfig } from 'pg';
+import pool, { runSingleStatement, withTransaction } from './connection';
+import { RETURNING_WITH_IMAGE, ROW_ALIAS, VERSION_FIELD, lockRow, lockRowImage, recordBulkChange, recordRowChange, recordTableChange, takeImage } from './audit';
+import { ApiError } from './errors';
+import { FilterGroup, asFilterError, compileFilter } from './filters';
+import { ForeignKeyInfo, getForeignKeys } from './foreignKeys';
+import { METADATA_TABLE_PREFIX } from './metadata';
+import { recordMigration } from './migrations';
+import { ConstraintDefinition, IndexDefinition, constraintClauses, indexStatements, primaryKeyClause } from './tableConstraints';
+import { tableDefinitionStatements } from './tableDefinition';
+import { deletedCondition, isDeletedImage, requireSoftDelete, softDeleteAssignments, softDeleteMode } from './softDelete';
+import { asValidationError, validateColumnNames, validateRow } from './validation';
+import { RelationKind, ResolvedTable, USER_SCHEMA_CONDITION, likePattern, quoteIdentifier, quoteLiteral, requireBaseTable, resolveTable, resolveColumn, resolveColumns, tableReference, validateNewIdentifier, parseRowKey, rowKeyCondition } from './identifiers';
 
 export interface TableSchema {
   column_name: string;
   data_type: string;
+  // The Postgres type name, as in pg_type; array types start with an underscore
+  udt_name: string;
   is_nullable: string;
   column_default: string | null;
+  is_identity: string;
+  is_primary_key: boolean;
+  // Declared limits of varchar/char and numeric columns, null when unlimited
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+  // Set by getTableSchema for columns with a single-column foreign key
+  foreign_key?: ForeignKeyInfo | null;
+  // Set by getTableSchema for enum columns and arrays of enums, in sort order
+  enum_values?: string[] | null;
 }
 
 export interface TableInfo {
+  // The name to address the table by in the API
+  name: string;
   table_name: string;
   table_schema: string;
+  kind: RelationKind;
 }
 
-// Get all tables in the database
+// Get all tables, views and materialized views the user can use, public
+// first, then by schema
 export async function getAllTables(): Promise<TableInfo[]> {
   const query = `
-    SELECT table_name, table_schema 
-    FROM information_schema.tables 
-    WHERE table_schema = 'public' 
-    ORDER BY table_name
+    SELECT c.relname AS table_name, n.nspname AS table_schema,
+      CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized_view' ELSE 'table' END AS kind
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm') AND NOT c.relispartition
+      AND ${USER_SCHEMA_CONDITION}
+      AND has_schema_privilege(n.oid, 'USAGE')
+      AND has_table_privilege(c.oid, 'SELECT, INSERT, UPDATE, DELETE')
+      AND NOT starts_with(c.relname::text, $1)
+    ORDER BY n.nspname <> 'public', n.nspname, c.relname
   `;
-  const result = await pool.query(query);
-  return result.rows;
+  const result = await pool.query(query, [METADATA_TABLE_PREFIX]);
+  return result.rows.map(row => ({ name: tableReference(row.table_schema, row.table_name), ...row }));
 }
 
 // Get table schema
 export async function getTableSchema(tableName: string): Promise<TableSchema[]> {
+  const table = await resolveTable(tableName);
+  return describeColumns(table);
+}
+
+// The table's columns with their foreign keys and enum labels
+async function describeColumns(table: ResolvedTable): Promise<TableSchema[]> {
+  const foreignKeys = await getForeignKeys(table);
+  const enumValues = await getEnumValues(table);
+  return table.columns.map(col => ({
+    ...col,
+    foreign_key: foreignKeys.get(col.column_name) ?? null,
+    enum_values: enumValues.get(col.column_name) ?? null,
+  }));
+}
+
+// Labels of the enum types used by the table's columns, by column
+async function getEnumValues(table: ResolvedTable): Promise<Map<string, string[]>> {
+  const result = await pool.query(`
+    SELECT a.attname AS column_name, array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS labels
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_type t ON t.oid = a.atttypid
+    JOIN pg_enum e ON e.enumtypid = CASE WHEN t.typcategory = 'A' THEN t.typelem ELSE t.oid END
+    WHERE n.nspname = $1 AND c.relname = $2 AND a.attnum > 0 AND NOT a.attisdropped
+    GROUP BY a.attname
+  `, [table.schema, table.relationName]);
+  return new Map(result.rows.map(row => [row.column_name, row.labels]));
+}
+
+export interface TableDataOptions {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  sortColumn?: string;
+  sortDirection?: 'asc' | 'desc';
+  search?: string;
+  filters?: Record<string, string>;
+  // Structured conditions from the filter builder
+  where?: FilterGroup;
+  hideDeleted?: boolean;
+  // Only the soft-deleted rows, for the trash view
+  onlyDeleted?: boolean;
+}
+
+export interface TableDataPage {
+  rows: any[];
+  total: number;
+  tableTotal: number;
+  limit: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+// Search, filter and sort options shared by paging and export
+export type RowQueryOptions = Pick<TableDataOptions, 'sortColumn' | 'sortDirection' | 'search' | 'filters' | 'where' | 'hideDeleted' | 'onlyDeleted'>;
+
+interface RowQuery {
+  conditions: string[];
+  params: any[];
+  orderColumns: string[];
+  sortDirection: 'asc' | 'desc';
+  orderClause: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+const STREAM_BATCH_SIZE = 1000;
+
+// Leave every value as Postgres' text representation instead of parsing it
+const rawTextTypes = {
+  getTypeParser: () => (value: string) => value,
+} as unknown as CustomTypesConfig;
+
+function encodeCursor(values: Array<string | null>): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, length: number): Array<string | null> {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(values) && values.length === length) {
+      return values;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ApiError(400, 'Invalid cursor');
+}
+
+// Build the "comes after" condition for keyset pagination. Ordering columns
+// are compared left to right with NULLs sorted last, matching the ORDER BY.
+function keysetCondition(
+  columns: string[],
+  values: Array<string | null>,
+  direction: 'asc' | 'desc',
+  params: any[]
+): string {
+  const operator = direction === 'asc' ? '>' : '<';
+  const [column, ...restColumns] = columns;
+  const [value, ...restValues] = values;
+  const rest = restColumns.length > 0
+    ? keysetCondition(restColumns, restValues, direction, params)
+    : 'FALSE';
+
+  if (value === null) {
+    return `(${column} IS NULL AND ${rest})`;
+  }
+
+  params.push(value);
+  const placeholder = `$${params.length}`;
+  return `(${column} ${operator} ${placeholder} OR ${column} IS NULL OR (${column} = ${placeholder} AND ${rest}))`;
+}
+
+// Build the WHERE conditions and ORDER BY for the search, filter and sort options
+function buildRowQuery(table: ResolvedTable, options: RowQueryOptions): RowQuery {
+  const columnNames = table.columns.map(col => col.column_name);
+  const sortDirection = options.sortDirection === 'desc' ? 'desc' : 'asc';
+  const params: any[] = [];
+  const conditions: string[] = [];
+
+  const mode = softDeleteMode(table);
+  if (options.onlyDeleted) {
+    conditions.push(deletedCondition(requireSoftDelete(table)));
+  } else if (options.hideDeleted && mode) {
+    conditions.push(`(${deletedCondition(mode)}) IS NOT TRUE`);
+  }
+
+  if (options.search && options.search.trim() !== '') {
+    params.push(likePattern(options.search.trim()));
+    const placeholder = `$${params.length}`;
+    const matches = columnNames.map(name => `${quoteIdentifier(name)}::text ILIKE ${placeholder}`);
+    conditions.push(`(${matches.join(' OR ')})`);
+  }
+
+  for (const [name, value] of Object.entries(options.filters || {})) {
+    if (value === undefined || value === '') continue;
+    const column = resolveColumn(table, name);
+    params.push(likePattern(value));
+    conditions.push(`${column}::text ILIKE $${params.length}`);
+  }
+
+  if (options.where) {
+    conditions.push(compileFilter(table, options.where, params));
+  }
+
+  // The primary key breaks ties so that pages and cursors are stable
+  const orderColumns: string[] = [];
+  if (options.sortColumn) {
+    orderColumns.push(resolveColumn(table, options.sortColumn));
+  }
+  for (const column of table.primaryKey) {
+    if (column !== options.sortColumn) {
+      orderColumns.push(quoteIdentifier(column));
+    }
+  }
+
+  const orderClause = orderColumns.length > 0
+    ? `ORDER BY ${orderColumns.map(column => `${column} ${sortDirection.toUpperCase()} NULLS LAST`).join(', ')}`
+    : '';
+
+  return { conditions, params, orderColumns, sortDirection, orderClause };
+}
+
+// Get one page of data from a table, filtered and sorted in the database
+export async function getTableData(tableName: string, options: TableDataOptions = {}): Promise<TableDataPage> {
+  const table = await resolveTable(tableName);
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const { conditions, params, orderColumns, sortDirection, orderClause } = buildRowQuery(table, options);
+  const whereClause = conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+
+  const countResult = await pool.query(
+    `SELECT count(*) AS table_total, count(*) FILTER (WHERE ${whereClause}) AS total FROM ${table.qualifiedName}`,
+    params
+  ).catch(error => { throw asFilterError(error); });
+
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  let offset = Math.max(options.offset ?? 0, 0);
+  if (options.cursor) {
+    if (orderColumns.length === 0) {
+      throw new ApiError(400, 'Cursor pagination requires a sort column');
+    }
+    const values = decodeCursor(options.cursor, orderColumns.length);
+    pageConditions.push(keysetCondition(orderColumns, values, sortDirection, pageParams));
+    offset = 0;
+  }
+
+  const cursorColumns = orderColumns.map((column, index) => `${column}::text AS "__cursor_${index}"`);
+
+  pageParams.push(limit, offset);
   const query = `
-    SELECT column_name, data_type, is_nullable, column_default
-    FROM information_schema.columns 
-    WHERE table_name = $1 AND table_schema = 'public'
-    ORDER BY ordinal_position
+    SELECT *, xmin::text AS ${VERSION_FIELD}${cursorColumns.length > 0 ? `, ${cursorColumns.join(', ')}` : ''}
+    FROM ${table.qualifiedName}
+    WHERE ${pageConditions.length > 0 ? pageConditions.join(' AND ') : 'TRUE'}
+    ${orderClause}
+    LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}
   `;
-  const result = await pool.query(query, [tableName]);
-  return result.rows;
+  const result = await pool.query(query, pageParams).catch(error => { throw asFilterError(error); });
+
+  let nextCursor: string | null = null;
+  const rows = result.rows.map(row => {
+    const cursorValues = orderColumns.map((_, index) => row[`__cursor_${index}`]);
+    orderColumns.forEach((_, index) => delete row[`__cursor_${index}`]);
+    if (orderColumns.length > 0) {
+      nextCursor = encodeCursor(cursorValues);
+    }
+    return row;
+  });
+
+  return {
+    rows,
+    total: parseInt(countResult.rows[0].total, 10),
+    tableTotal: parseInt(countResult.rows[0].table_total, 10),
+    limit,
+    offset,
+    nextCursor: rows.length === limit ? nextCursor : null,
+  };
 }
 
-// Get all data from a table
-export async function getTableData(tableName: string): Promise<any[]> {
-  const query = `SELECT * FROM ${tableName} ORDER BY id`;
-  const result = await pool.query(query);
-  return result.rows;
+// Read every matching row through a server-side cursor in batches, so large
+// tables are never held in memory at once. With rawText, values are left in
+// Postgres' text representation.
+export async function* streamTableRows(
+  table: ResolvedTable,
+  options: RowQueryOptions = {},
+  rawText: boolean = false
+): AsyncGenerator<any[]> {
+  const { conditions, params, orderClause } = buildRowQuery(table, options);
+  const client = await pool.connect();
+  let committed = false;
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query({
+      text: `
+        DECLARE tomulator_stream NO SCROLL CURSOR FOR
+        SELECT * FROM ${table.qualifiedName}
+        WHERE ${conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'}
+        ${orderClause}
+      `,
+      values: params,
+    }).catch(error => { throw asFilterError(error); });
+
+    while (true) {
+      const result = await client.query({
+        text: `FETCH ${STREAM_BATCH_SIZE} FROM tomulator_stream`,
+        types: rawText ? rawTextTypes : undefined,
+      });
+      if (result.rows.length === 0) break;
+      yield result.rows;
+    }
+
+    await client.query('COMMIT');
+    committed = true;
+  } finally {
+    // Also reached when the consumer stops iterating early
+    if (!committed) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    client.release();
+  }
 }
 
-// Insert new row
-export async function insertRow(tableName: string, data: Record<string, any>): Promise<any> {
-  const columns = Object.keys(data);
+function buildInsertQuery(table: ResolvedTable, data: Record<string, any>): { text: string; values: any[] } {
+  const columns = resolveColumns(table, Object.keys(data));
   const values = Object.values(data);
   const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
   
-  const query = `
-    INSERT INTO ${tableName} (${columns.join(', ')}) 
-    VALUES (${placeholders}) 
-    RETURNING *
-  `;
-  
-  const result = await pool.query(query, values);
-  return result.rows[0];
+  const text = columns.length > 0
+    ? `
+      INSERT INTO ${table.qualifiedName} AS ${ROW_ALIAS} (${columns.join(', ')}) 
+      VALUES (${placeholders}) 
+      ${RETURNING_WITH_IMAGE}
+    `
+    : `INSERT INTO ${table.qualifiedName} AS ${ROW_ALIAS} DEFAULT VALUES ${RETURNING_WITH_IMAGE}`;
+  return { text, values };
+}
+
+// Insert new row
+export async function insertRow(tableName: string, data: Record<string, any>, actor: string): Promise<any> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  validateRow(await describeColumns(table), data, 'insert');
+  return withTransaction(async client => {
+    const result = await client.query(buildInsertQuery(table, data)).catch(error => { throw asValidationError(error); });
+    const { row, image } = takeImage(result.rows[0]);
+    await recordRowChange(client, actor, 'INSERT', table, null, image);
+    return row;
+  });
+}
+
+export interface BulkInsertOptions {
+  // Validate every row against the database, then roll everything back
+  dryRun?: boolean;
+  // Insert nothing if any row is rejected, instead of skipping the bad rows
+  rollbackOnError?: boolean;
 }
 
-// Update row
-export async function updateRow(tableName: string, id: number, data: Record<string, any>): Promise<any> {
-  // Remove id and any timestamp fields from the update data
-  const { id: _, created_at, updated_at, ...updateData } = data;
+export interface BulkInsertResult {
+  inserted: number;
+  rejected: number;
+  errors: Array<{ row: number; error: string }>;
+  dryRun: boolean;
+  committed: boolean;
+}
+
+export const MAX_BULK_ROWS = 50000;
+
+// Insert many rows in one transaction. Each row runs under its own savepoint,
+// so a rejected row is reported (by 1-based position) without aborting the rest.
+export async function insertRows(
+  tableName: string,
+  rows: Record<string, any>[],
+  actor: string,
+  options: BulkInsertOptions = {}
+): Promise<BulkInsertResult> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  if (rows.length > MAX_BULK_ROWS) {
+    throw new ApiError(400, `At most ${MAX_BULK_ROWS} rows can be inserted at once`);
+  }
+
+  // Reject unknown columns up front rather than once per row
+  const columns = await describeColumns(table);
+  const columnNames = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columnNames.add(column)));
+  validateColumnNames(columns, [...columnNames]);
+
+  const result: BulkInsertResult = {
+    inserted: 0,
+    rejected: 0,
+    errors: [],
+    dryRun: !!options.dryRun,
+    committed: false,
+  };
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const [index, row] of rows.entries()) {
+      await client.query('SAVEPOINT bulk_row');
+      try {
+        validateRow(columns, row, 'insert');
+        const inserted = await client.query(buildInsertQuery(table, row));
+        await recordRowChange(client, actor, 'INSERT', table, null, takeImage(inserted.rows[0]).image, { bulk: true });
+        await client.query('RELEASE SAVEPOINT bulk_row');
+        result.inserted++;
+      } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT bulk_row');
+        result.rejected++;
+        result.errors.push({
+          row: index + 1,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (options.dryRun || (options.rollbackOnError && result.rejected > 0)) {
+      await client.query('ROLLBACK');
+    } else {
+      await client.query('COMMIT');
+      result.committed = true;
+    }
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Update row, addressed by its primary key. When data carries the version
+// token the row was read with, the update is rejected with a 409 holding the
+// current row if someone else has changed it since.
+export async function updateRow(tableName: string, key: string, data: Record<string, any>, actor: string): Promise<any> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  const keyValues = parseRowKey(table, key);
+  const { [VERSION_FIELD]: expectedVersion, ...rowData } = data;
+
+  // Key columns identify the row and timestamps are managed by the database
+  const updateData = Object.fromEntries(
+    Object.entries(rowData).filter(([column]) =>
+      !table.primaryKey.includes(column) && column !== 'created_at' && column !== 'updated_at'
+    )
+  );
   
-  const columns = Object.keys(updateData);
+  validateRow(await describeColumns(table), updateData, 'update');
+  const columns = resolveColumns(table, Object.keys(updateData));
   if (columns.length === 0) {
-    throw new Error('No valid columns to update');
+    throw new ApiError(400, 'No valid columns to update');
   }
   
   const values = Object.values(updateData);
   const setClause = columns.map((col, index) => `${col} = $${index + 1}`).join(', ');
+  const params = [...values];
   
   const query = `
-    UPDATE ${tableName} 
+    UPDATE ${table.qualifiedName} AS ${ROW_ALIAS}
     SET ${setClause}
-    WHERE id = $${values.length + 1} 
-    RETURNING *
+    WHERE ${rowKeyCondition(table, keyValues, params)} 
+    ${RETURNING_WITH_IMAGE}
   `;
   
-  const result = await pool.query(query, [...values, id]);
-  return result.rows[0];
+  return withTransaction(async client => {
+    const locked = await lockRow(client, table, keyValues);
+    if (!locked) {
+      return undefined;
+    }
+    if (expectedVersion !== undefined && expectedVersion !== null && String(expectedVersion) !== locked.version) {
+      // Read the current row the same way the grid does, so it can be
+      // compared with the edited one field by field
+      const currentParams: any[] = [];
+      const current = await client.query(
+        `SELECT *, xmin::text AS ${VERSION_FIELD} FROM ${table.qualifiedName} WHERE ${rowKeyCondition(table, keyValues, currentParams)}`,
+        currentParams
+      );
+      throw new ApiError(409, 'The row has been changed by someone else since you loaded it', { current: current.rows[0] });
+    }
+    const result = await client.query(query, params).catch(error => { throw asValidationError(error); });
+    const { row, image } = takeImage(result.rows[0]);
+    await recordRowChange(client, actor, 'UPDATE', table, locked.image, image);
+    return row;
+  });
 }
 
-// Delete row
-export async function deleteRow(tableName: string, id: number, hardDelete: boolean = false): Promise<boolean> {
-  if (hardDelete) {
-    // Hard delete - permanently remove from database
-    const query = `DELETE FROM ${tableName} WHERE id = $1`;
-    const result = await pool.query(query, [id]);
-    return result.rowCount > 0;
-  } else {
-    // Soft delete - check if table has is_deleted column
-    const schemaQuery = `
-      SELECT column_name 
-      FROM information_schema.columns 
-      WHERE table_name = $1 AND column_name = 'is_deleted'
+// Permanently delete a row, addressed by its primary key
+export async function deleteRow(tableName: string, key: string, actor: string): Promise<boolean> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  const keyValues = parseRowKey(table, key);
+  const params: any[] = [];
+  const condition = rowKeyCondition(table, keyValues, params);
+
+  return withTransaction(async client => {
+    const before = await lockRowImage(client, table, keyValues);
+    if (!before) {
+      return false;
+    }
+    await client.query(`DELETE FROM ${table.qualifiedName} WHERE ${condition}`, params);
+    await recordRowChange(client, actor, 'DELETE', table, before, null);
+    return true;
+  });
+}
+
+// Soft delete or restore a row, for tables with soft delete turned on.
+// Returns the updated row, or undefined if there is no such row. Deleting a
+// row that is already deleted leaves it, and its deletion time, as it is.
+export async function softDeleteRow(tableName: string, key: string, actor: string, deleting: boolean): Promise<any> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  const mode = requireSoftDelete(table);
+  const keyValues = parseRowKey(table, key);
+
+  return withTransaction(async client => {
+    const before = await lockRowImage(client, table, keyValues);
+    if (!before) {
+      return undefined;
+    }
+    const params: any[] = [];
+    const condition = rowKeyCondition(table, keyValues, params);
+    if (isDeletedImage(mode, before) === deleting) {
+      const current = await client.query(
+        `SELECT *, xmin::text AS ${VERSION_FIELD} FROM ${table.qualifiedName} WHERE ${condition}`,
+        params
+      );
+      return current.rows[0];
+    }
+
+    const setClause = softDeleteAssignments(table, mode, deleting, actor, params);
+    const result = await client.query(
+      `UPDATE ${table.qualifiedName} AS ${ROW_ALIAS} SET ${setClause} WHERE ${condition} ${RETURNING_WITH_IMAGE}`,
+      params
+    );
+    const { row, image } = takeImage(result.rows[0]);
+    await recordRowChange(client, actor, 'UPDATE', table, before, image, deleting ? { soft_delete: true } : { restore: true });
+    return row;
+  });
+}
+
+export type BulkAction = 'soft-delete' | 'restore' | 'hard-delete' | 'set';
+export const BULK_ACTIONS: BulkAction[] = ['soft-delete', 'restore', 'hard-delete', 'set'];
+
+// The rows a bulk action applies to: either row keys as used in row URLs, or
+// every row matching a grid view's search and filters
+export interface BulkSelection {
+  keys?: string[];
+  matching?: RowQueryOptions;
+}
+
+export interface BulkActionResult {
+  action: BulkAction;
+  affected: number;
+}
+
+// Build the WHERE condition for the selected rows, appending to params
+function selectionCondition(table: ResolvedTable, selection: BulkSelection, params: any[]): string {
+  if (selection.keys) {
+    if (selection.keys.length === 0) {
+      throw new ApiError(400, 'No rows selected');
+    }
+    if (selection.keys.length > MAX_BULK_ROWS) {
+      throw new ApiError(400, `At most ${MAX_BULK_ROWS} rows can be selected by key`);
+    }
+    const keys = selection.keys.map(key => parseRowKey(table, key));
+    if (table.primaryKey.length === 1) {
+      // The parameter is typed as an array of the key column's type
+      params.push(keys.map(([value]) => value));
+      return `${quoteIdentifier(table.primaryKey[0])} = ANY($${params.length})`;
+    }
+    return keys.map(keyValues => `(${rowKeyCondition(table, keyValues, params)})`).join(' OR ');
+  }
+
+  if (selection.matching) {
+    const { conditions, params: matchParams } = buildRowQuery(table, { ...selection.matching, sortColumn: undefined });
+    params.push(...matchParams);
+    return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+  }
+
+  throw new ApiError(400, 'selection must have keys or matching');
+}
+
+// Apply one action to many rows in a single transaction: soft-delete or
+// restore (tables with soft delete turned on), hard-delete, or set one
+// column to a value.
+// Every changed row is recorded in the audit log.
+export async function runBulkAction(
+  tableName: string,
+  action: BulkAction,
+  selection: BulkSelection,
+  actor: string,
+  update: { column?: string; value?: string | null } = {}
+): Promise<BulkActionResult> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  if (table.primaryKey.length === 0) {
+    throw new ApiError(400, `Table "${table.name}" has no primary key, so its rows cannot be changed`);
+  }
+
+  const params: any[] = [];
+  const conditions = [`(${selectionCondition(table, selection, params)})`];
+
+  let statement: string;
+  if (action === 'hard-delete') {
+    statement = `
+      DELETE FROM ${table.qualifiedName} AS ${ROW_ALIAS}
+      WHERE ${conditions.join(' AND ')}
+      RETURNING to_jsonb(${ROW_ALIAS}) AS before_image, NULL::jsonb AS after_image
     `;
-    const schemaResult = await pool.query(schemaQuery, [tableName]);
-    
-    if (schemaResult.rows.length > 0) {
-      // Table has is_deleted column, perform soft delete
-      const query = `UPDATE ${tableName} SET is_deleted = 'true' WHERE id = $1`;
-      const result = await pool.query(query, [id]);
-      return result.rowCount > 0;
+  } else {
+    let setClause: string;
+    if (action === 'set') {
+      if (!update.column) {
+        throw new ApiError(400, 'column is required');
+      }
+      const column = resolveColumn(table, update.column);
+      if (table.primaryKey.includes(update.column)) {
+        throw new ApiError(400, 'Primary key columns cannot be set in bulk');
+      }
+      validateRow(await describeColumns(table), { [update.column]: update.value ?? null }, 'update');
+      params.push(update.value ?? null);
+      setClause = `${column} = $${params.length}`;
     } else {
-      // Table doesn't have is_deleted column, perform hard delete
-      const query = `DELETE FROM ${tableName} WHERE id = $1`;
-      const result = await pool.query(query, [id]);
-      return result.rowCount > 0;
+      const mode = requireSoftDelete(table);
+      // Only rows that actually change count as affected
+      const deleting = action === 'soft-delete';
+      conditions.push(deleting ? `(${deletedCondition(mode)}) IS NOT TRUE` : deletedCondition(mode));
+      setClause = softDeleteAssignments(table, mode, deleting, actor, params);
     }
+
+    // The before image is read in the same statement, so it is exactly the
+    // row version being updated
+    statement = `
+      UPDATE ${table.qualifiedName} AS ${ROW_ALIAS}
+      SET ${setClause}
+      FROM (
+        SELECT ctid AS row_ctid, to_jsonb(tomulator_old) AS image
+        FROM ${table.qualifiedName} AS tomulator_old
+        WHERE ${conditions.join(' AND ')}
+      ) AS tomulator_before
+      WHERE ${ROW_ALIAS}.ctid = tomulator_before.row_ctid
+      RETURNING tomulator_before.image AS before_image, to_jsonb(${ROW_ALIAS}) AS after_image
+    `;
+  }
+
+  const details: Record<string, any> = { bulk: true };
+  if (action === 'soft-delete') details.soft_delete = true;
+  if (action === 'restore') details.restore = true;
+
+  const operation = action === 'hard-delete' ? 'DELETE' : 'UPDATE';
+  const affected = await withTransaction(client =>
+    recordBulkChange(client, actor, operation, table, statement, params, details)
+  ).catch(error => { throw asValidationError(error); });
+  return { action, affected };
+}
+
+// Column types accepted by createTable, matching the choices in NewTableCreator
+export const COLUMN_TYPES = [
+  'SERIAL',
+  'INTEGER',
+  'BIGINT',
+  'SMALLINT',
+  'TEXT',
+  'VARCHAR',
+  'CHAR',
+  'BOOLEAN',
+  'TIMESTAMP',
+  'DATE',
+  'TIME',
+  'NUMERIC',
+  'DECIMAL',
+  'REAL',
+  'DOUBLE PRECISION',
+  'JSON',
+  'JSONB',
+  'UUID'
+];
+
+// Defaults that are SQL expressions rather than literal values
+const DEFAULT_EXPRESSIONS = [
+  'CURRENT_TIMESTAMP',
+  'CURRENT_DATE',
+  'CURRENT_TIME',
+  'NOW()',
+  'GEN_RANDOM_UUID()',
+  'TRUE',
+  'FALSE',
+  'NULL'
+];
+
+function formatDefault(value: string): string {
+  const trimmed = value.trim();
+  if (DEFAULT_EXPRESSIONS.includes(trimmed.toUpperCase())) {
+    return trimmed.toUpperCase();
   }
+  return quoteLiteral(trimmed);
 }
 
-// Create new table
-export async function createTable(tableName: string, columns: Array<{
+export interface ColumnDefinition {
   name: string;
   type: string;
   isNullable: boolean;
   isPrimaryKey: boolean;
   defaultValue: string;
   isAutoIncrement: boolean;
-}>): Promise<void> {
-  // Build column definitions
-  const columnDefinitions = columns.map(col => {
-    let definition = `${col.name} `;
-    
-    // Handle data types with special cases
-    if (col.type === 'VARCHAR' || col.type === 'CHAR') {
-      const length = col.defaultValue || '255';
-      definition += `${col.type}(${length})`;
-    } else if (col.type === 'NUMERIC' || col.type === 'DECIMAL') {
-      const precision = col.defaultValue || '10,2';
-      definition += `${col.type}(${precision})`;
-    } else {
-      definition += col.type;
-    }
-    
-    // Add constraints
-    if (!col.isNullable) {
-      definition += ' NOT NULL';
-    }
-    
-    if (col.isPrimaryKey) {
-      definition += ' PRIMARY KEY';
-    }
-    
-    if (col.isAutoIncrement && (col.type === 'INTEGER' || col.type === 'BIGINT')) {
-      definition += ' GENERATED ALWAYS AS IDENTITY';
-    }
-    
-    if (col.defaultValue && col.type !== 'SERIAL' && !col.isAutoIncrement) {
-      if (col.type === 'BOOLEAN') {
-        definition += ` DEFAULT ${col.defaultValue}`;
-      } else if (col.type === 'TEXT' || col.type === 'VARCHAR' || col.type === 'CHAR') {
-        definition += ` DEFAULT '${col.defaultValue}'`;
-      } else {
-        definition += ` DEFAULT ${col.defaultValue}`;
+  // VARCHAR/CHAR length, such as 255
+  length?: string;
+  // NUMERIC/DECIMAL precision and optional scale, such as 10,2
+  precision?: string;
+  // Name of the existing column this definition edits; unset for new columns
+  originalName?: string;
+}
+
+// Check the shape of column definitions sent in a request, so a missing
+// field is a 400 rather than a failure halfway through building the SQL.
+// A missing or null default means no default.
+export function validateColumnDefinitions(columns: unknown): ColumnDefinition[] {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    throw new ApiError(400, 'columns must be a non-empty list');
+  }
+  return columns.map((col, index) => {
+    if (typeof col !== 'object' || col === null) {
+      throw new ApiError(400, `Column ${index + 1} must be an object`);
+    }
+    const label = typeof col.name === 'string' && col.name ? `"${col.name}"` : String(index + 1);
+    if (typeof col.name !== 'string' || typeof col.type !== 'string') {
+      throw new ApiError(400, `Column ${label} needs a name and a type`);
+    }
+    for (const flag of ['isNullable', 'isPrimaryKey', 'isAutoIncrement']) {
+      if (col[flag] !== undefined && typeof col[flag] !== 'boolean') {
+        throw new ApiError(400, `${flag} of column ${label} must be true or false`);
+      }
+    }
+    for (const field of ['defaultValue', 'length', 'precision', 'originalName']) {
+      if (col[field] !== undefined && col[field] !== null && typeof col[field] !== 'string') {
+        throw new ApiError(400, `${field} of column ${label} must be a string`);
       }
     }
-    
-    return definition;
+    return {
+      ...col,
+      isNullable: col.isNullable ?? false,
+      isPrimaryKey: col.isPrimaryKey ?? false,
+      isAutoIncrement: col.isAutoIncrement ?? false,
+      defaultValue: col.defaultValue ?? '',
+      length: col.length ?? undefined,
+      precision: col.precision ?? undefined,
+      originalName: col.originalName ?? undefined,
+    };
   });
+}
+
+// Build the SQL type for a column, with its length or precision
+export function columnTypeSql(col: ColumnDefinition): string {
+  if (!COLUMN_TYPES.includes(col.type)) {
+    throw new ApiError(400, `Unsupported column type "${col.type}" for column "${col.name}"`);
+  }
+
+  if (col.type === 'VARCHAR' || col.type === 'CHAR') {
+    const length = (col.length || '255').trim();
+    if (!/^\d+$/.test(length)) {
+      throw new ApiError(400, `Invalid length "${length}" for column "${col.name}"`);
+    }
+    return `${col.type}(${length})`;
+  }
+  if (col.type === 'NUMERIC' || col.type === 'DECIMAL') {
+    const precision = (col.precision || '10,2').replace(/\s/g, '');
+    if (!/^\d+(,\d+)?$/.test(precision)) {
+      throw new ApiError(400, `Invalid precision "${precision}" for column "${col.name}"`);
+    }
+    return `${col.type}(${precision})`;
+  }
+  return col.type;
+}
+
+// Types with a length or precision
+export const SIZED_TYPES = ['VARCHAR', 'CHAR', 'NUMERIC', 'DECIMAL'];
+
+// Build the DEFAULT expression for a column, or null when it has none
+export function columnDefaultSql(col: ColumnDefinition): string | null {
+  if (!col.defaultValue || col.type === 'SERIAL' || col.isAutoIncrement) {
+    return null;
+  }
+  if (col.type === 'TEXT' || col.type === 'VARCHAR' || col.type === 'CHAR') {
+    return quoteLiteral(col.defaultValue);
+  }
+  return formatDefault(col.defaultValue);
+}
+
+// Build the full definition of a column for CREATE TABLE or ADD COLUMN. The
+// primary key is a table constraint, since it may span several columns.
+export function buildColumnDefinition(col: ColumnDefinition): string {
+  let definition = `${validateNewIdentifier(col.name, 'column')} ${columnTypeSql(col)}`;
   
-  const createTableQuery = `
-    CREATE TABLE ${tableName} (
-      ${columnDefinitions.join(',\n      ')}
-    )
-  `;
+  // Add constraints
+  if (!col.isNullable) {
+    definition += ' NOT NULL';
+  }
   
-  await pool.query(createTableQuery);
+  if (col.isAutoIncrement && (col.type === 'INTEGER' || col.type === 'BIGINT')) {
+    definition += ' GENERATED ALWAYS AS IDENTITY';
+  }
   
-  // Add created_at column if it doesn't exist
-  const hasCreatedAtQuery = `
-    SELECT column_name 
-    FROM information_schema.columns 
-    WHERE table_name = $1 AND column_name = 'created_at'
-  `;
-  const hasCreatedAtResult = await pool.query(hasCreatedAtQuery, [tableName]);
+  const defaultSql = columnDefaultSql(col);
+  if (defaultSql) {
+    definition += ` DEFAULT ${defaultSql}`;
+  }
   
-  if (hasCreatedAtResult.rows.length === 0) {
-    const addCreatedAtQuery = `
-      ALTER TABLE ${tableName} 
-      ADD COLUMN created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    `;
-    await pool.query(addCreatedAtQuery);
+  return definition;
+}
+
+export interface CreateTableOptions {
+  constraints?: ConstraintDefinition[];
+  indexes?: IndexDefinition[];
+  // Only return the statements
+  dryRun?: boolean;
+}
+
+// Create new table, with its constraints and indexes, in one transaction.
+// Returns the statements, which are only computed on a dry run.
+export async function createTable(
+  tableName: string,
+  columns: ColumnDefinition[],
+  actor: string,
+  options: CreateTableOptions = {}
+): Promise<string[]> {
+  const table = validateNewIdentifier(tableName, 'table');
+  columns = validateColumnDefinitions(columns);
+  const constraints = options.constraints ?? [];
+  const indexes = options.indexes ?? [];
+  if (!Array.isArray(constraints) || !Array.isArray(indexes)) {
+    throw new ApiError(400, 'constraints and indexes must be lists');
+  }
+
+  // Build column definitions, then the table constraints
+  const definitions = columns.map(buildColumnDefinition);
+  const primaryKey = primaryKeyClause(columns);
+  if (primaryKey) {
+    definitions.push(primaryKey);
+  }
+  definitions.push(...await constraintClauses(tableName, table, columns, constraints));
+
+  const statements = [`CREATE TABLE ${table} (\n  ${definitions.join(',\n  ')}\n)`];
+  // Add created_at column if it doesn't exist
+  if (!columns.some(col => col.name === 'created_at')) {
+    statements.push(`ALTER TABLE ${table} ADD COLUMN created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP`);
+  }
+  statements.push(...indexStatements(table, columns, indexes));
+
+  if (options.dryRun) {
+    return statements;
   }
+
+  await withTransaction(async client => {
+    for (const statement of statements) {
+      await runSingleStatement(client, statement);
+    }
+    await recordTableChange(client, actor, 'CREATE TABLE', tableName, { columns, constraints, indexes });
+    await recordMigration(client, actor, `Create table ${tableName}`, statements, [`DROP TABLE ${table}`]);
+  });
+  return statements;
 }
 
 // Delete table
-export async function deleteTable(tableName: string): Promise<void> {
+export async function deleteTable(tableName: string, actor: string): Promise<void> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
   // Drop the table - this will permanently delete all data
-  const dropTableQuery = `DROP TABLE IF EXISTS ${tableName} CASCADE`;
-  await pool.query(dropTableQuery);
+  const dropTableQuery = `DROP TABLE IF EXISTS ${table.qualifiedName} CASCADE`;
+  await withTransaction(async client => {
+    const count = await client.query(`SELECT count(*)::int AS rows FROM ${table.qualifiedName}`);
+    const definition = await tableDefinitionStatements(client, table);
+    await client.query(dropTableQuery);
+    await recordTableChange(client, actor, 'DROP TABLE', table.name, {
+      columns: table.columns.map(col => col.column_name),
+      rows: count.rows[0].rows,
+    });
+    // Rolling back recreates the table empty; foreign keys of other tables
+    // that referenced it were dropped with it and are not restored
+    await recordMigration(client, actor, `Drop table ${table.name}`, [dropTableQuery], definition);
+  });
+}
+
+// Re-run a materialized view's query to bring its rows up to date
+export async function refreshMaterializedView(tableName: string, actor: string): Promise<void> {
+  const table = await resolveTable(tableName);
+  if (table.kind !== 'materialized_view') {
+    throw new ApiError(400, `"${table.name}" is not a materialized view`);
+  }
+  await withTransaction(async client => {
+    await client.query(`REFRESH MATERIALIZED VIEW ${table.qualifiedName}`);
+    await recordTableChange(client, actor, 'REFRESH MATERIALIZED VIEW', table.name, {});
+  });
 }
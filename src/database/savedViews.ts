@@ -0,0 +1,203 @@
+import { appPool, withTransaction } from './connection';
+import { AuthUser, USERS_TABLE } from './auth';
+import { ApiError } from './errors';
+import { resolveTable } from './identifiers';
+import { ensureAppTable } from './metadata';
+
+// A named grid layout for one table. Settings are stored as the client sends
+// them: column order, visibility and widths, sort, search, filters, and the
+// hide-deleted and word-wrap toggles. Views are kept in the app database by
+// table name, so they apply to the table of that name in every connection.
+export interface SavedView {
+  id: number;
+  name: string;
+  owner: string;
+  // Shared views are visible to everyone who can read the table
+  shared: boolean;
+  settings: Record<string, any>;
+  // Whether this is the requesting user's default view for the table
+  is_default: boolean;
+  updated_at: string;
+}
+
+const VIEWS_TABLE = 'tomulator_saved_views';
+const DEFAULT_VIEWS_TABLE = 'tomulator_default_views';
+const MAX_VIEW_NAME_LENGTH = 100;
+const MAX_SETTINGS_LENGTH = 100000;
+
+function ensureViewTables(): Promise<void> {
+  return ensureAppTable(VIEWS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${VIEWS_TABLE} (
+      id SERIAL PRIMARY KEY,
+      table_name TEXT NOT NULL,
+      name TEXT NOT NULL,
+      owner_id INTEGER NOT NULL REFERENCES ${USERS_TABLE} (id) ON DELETE CASCADE,
+      shared BOOLEAN NOT NULL DEFAULT false,
+      settings JSONB NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (table_name, owner_id, name)
+    );
+    CREATE TABLE IF NOT EXISTS ${DEFAULT_VIEWS_TABLE} (
+      user_id INTEGER NOT NULL REFERENCES ${USERS_TABLE} (id) ON DELETE CASCADE,
+      table_name TEXT NOT NULL,
+      view_id INTEGER NOT NULL REFERENCES ${VIEWS_TABLE} (id) ON DELETE CASCADE,
+      PRIMARY KEY (user_id, table_name)
+    )
+  `);
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_VIEW_NAME_LENGTH) {
+    throw new ApiError(400, `View names must be 1 to ${MAX_VIEW_NAME_LENGTH} characters`);
+  }
+  return name.trim();
+}
+
+function validateSettings(settings: unknown): string {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new ApiError(400, 'settings must be an object');
+  }
+  const json = JSON.stringify(settings);
+  if (json.length > MAX_SETTINGS_LENGTH) {
+    throw new ApiError(400, 'settings are too large');
+  }
+  return json;
+}
+
+// Select a table's views as seen by user, with a filter on the view
+async function queryViews(user: AuthUser, tableName: string, condition: string = 'TRUE', params: any[] = []): Promise<SavedView[]> {
+  const result = await appPool.query(`
+    SELECT v.id, v.name, u.username AS owner, v.shared, v.settings, v.updated_at,
+      d.view_id IS NOT NULL AS is_default
+    FROM ${VIEWS_TABLE} v
+    JOIN ${USERS_TABLE} u ON u.id = v.owner_id
+    LEFT JOIN ${DEFAULT_VIEWS_TABLE} d ON d.view_id = v.id AND d.user_id = $1
+    WHERE v.table_name = $2 AND (v.owner_id = $1 OR v.shared) AND ${condition}
+    ORDER BY v.owner_id = $1 DESC, lower(v.name)
+  `, [user.id, tableName, ...params]);
+  return result.rows;
+}
+
+// The user's own views and those shared by others
+export async function listSavedViews(user: AuthUser, tableName: string): Promise<SavedView[]> {
+  const table = await resolveTable(tableName);
+  await ensureViewTables();
+  return queryViews(user, table.name);
+}
+
+async function getSavedView(user: AuthUser, tableName: string, id: number): Promise<SavedView> {
+  const [view] = await queryViews(user, tableName, 'v.id = $3', [id]);
+  if (!view) {
+    throw new ApiError(404, `View ${id} not found`);
+  }
+  return view;
+}
+
+function duplicateNameError(error: any, name: string): unknown {
+  return error?.code === '23505' ? new ApiError(409, `You already have a view named "${name}"`) : error;
+}
+
+export async function createSavedView(
+  user: AuthUser,
+  tableName: string,
+  view: { name: unknown; shared?: unknown; settings: unknown }
+): Promise<SavedView> {
+  const table = await resolveTable(tableName);
+  const name = validateName(view.name);
+  const settings = validateSettings(view.settings);
+  await ensureViewTables();
+  try {
+    const result = await appPool.query(`
+      INSERT INTO ${VIEWS_TABLE} (table_name, name, owner_id, shared, settings)
+      VALUES ($1, $2, $3, $4, $5::jsonb)
+      RETURNING id
+    `, [table.name, name, user.id, view.shared === true, settings]);
+    return getSavedView(user, table.name, result.rows[0].id);
+  } catch (error) {
+    throw duplicateNameError(error, name);
+  }
+}
+
+// Views can be changed and deleted by their owner and by admins
+async function findEditableView(user: AuthUser, tableName: string, id: number): Promise<void> {
+  if (!Number.isInteger(id)) {
+    throw new ApiError(400, 'Invalid view id');
+  }
+  const result = await appPool.query(
+    `SELECT owner_id FROM ${VIEWS_TABLE} WHERE id = $1 AND table_name = $2 AND (owner_id = $3 OR shared)`,
+    [id, tableName, user.id]
+  );
+  if (result.rows.length === 0) {
+    throw new ApiError(404, `View ${id} not found`);
+  }
+  if (result.rows[0].owner_id !== user.id && user.role !== 'admin') {
+    throw new ApiError(403, 'Only the owner of a view can change it');
+  }
+}
+
+export async function updateSavedView(
+  user: AuthUser,
+  tableName: string,
+  id: number,
+  changes: { name?: unknown; shared?: unknown; settings?: unknown }
+): Promise<SavedView> {
+  const table = await resolveTable(tableName);
+  await ensureViewTables();
+  await findEditableView(user, table.name, id);
+
+  const assignments: string[] = [];
+  const params: any[] = [];
+  if (changes.name !== undefined) {
+    params.push(validateName(changes.name));
+    assignments.push(`name = $${params.length}`);
+  }
+  if (changes.shared !== undefined) {
+    params.push(changes.shared === true);
+    assignments.push(`shared = $${params.length}`);
+  }
+  if (changes.settings !== undefined) {
+    params.push(validateSettings(changes.settings));
+    assignments.push(`settings = $${params.length}::jsonb`);
+  }
+  if (assignments.length === 0) {
+    throw new ApiError(400, 'Nothing to update');
+  }
+
+  params.push(id);
+  try {
+    await appPool.query(
+      `UPDATE ${VIEWS_TABLE} SET ${assignments.join(', ')}, updated_at = now() WHERE id = $${params.length}`,
+      params
+    );
+  } catch (error) {
+    throw duplicateNameError(error, String(changes.name));
+  }
+  return getSavedView(user, table.name, id);
+}
+
+export async function deleteSavedView(user: AuthUser, tableName: string, id: number): Promise<void> {
+  const table = await resolveTable(tableName);
+  await ensureViewTables();
+  await findEditableView(user, table.name, id);
+  await appPool.query(`DELETE FROM ${VIEWS_TABLE} WHERE id = $1`, [id]);
+}
+
+// Set the view the user sees when opening the table, or clear it with null.
+// A default that another user stops sharing is no longer listed, so the
+// table then opens without one.
+export async function setDefaultView(user: AuthUser, tableName: string, id: number | null): Promise<void> {
+  const table = await resolveTable(tableName);
+  await ensureViewTables();
+  await withTransaction(async client => {
+    await client.query(
+      `DELETE FROM ${DEFAULT_VIEWS_TABLE} WHERE user_id = $1 AND table_name = $2`,
+      [user.id, table.name]
+    );
+    if (id === null) return;
+    await getSavedView(user, table.name, id);
+    await client.query(
+      `INSERT INTO ${DEFAULT_VIEWS_TABLE} (user_id, table_name, view_id) VALUES ($1, $2, $3)`,
+      [user.id, table.name, id]
+    );
+  }, appPool);
+}
@@ -0,0 +1,275 @@
+import pool, { runSingleStatement, withTransaction } from './connection';
+import { recordTableChange } from './audit';
+import { ApiError } from './errors';
+import { parseTableName, quoteIdentifier, quoteLiteral, requireBaseTable, resolveTable, tableReference, validateNewIdentifier } from './identifiers';
+import { recordMigration } from './migrations';
+import { COLUMN_TYPES, ColumnDefinition, buildColumnDefinition, columnDefaultSql } from './queries';
+import { getTableStructure } from './structure';
+import { primaryKeyClause } from './tableConstraints';
+import { SchemaObject, foreignKeyStatements, readConstraints, readIndexes, tableDefinitionStatements } from './tableDefinition';
+
+export type SchemaExportFormat = 'json' | 'sql';
+export const SCHEMA_EXPORT_FORMATS: SchemaExportFormat[] = ['json', 'sql'];
+
+// A table as exported: its columns in the shape NewTableCreator uses, and the
+// constraints (other than the primary key, which the columns mark) and
+// indexes as Postgres prints them
+export interface TableDocument {
+  name: string;
+  columns: ColumnDefinition[];
+  constraints: SchemaObject[];
+  indexes: SchemaObject[];
+}
+
+export interface SchemaDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  tables: TableDocument[];
+}
+
+export interface ImportSchemaResult {
+  tables: string[];
+  statements: string[];
+  applied: boolean;
+}
+
+const DOCUMENT_FORMAT = 'tomulator-schema';
+const DOCUMENT_VERSION = 2;
+const MAX_TABLES = 100;
+
+function parseTableList(tableNames: unknown): string[] {
+  const names = (Array.isArray(tableNames) ? tableNames : [tableNames])
+    .flatMap(name => typeof name === 'string' ? name.split(',') : [])
+    .map(name => name.trim())
+    .filter(name => name !== '');
+  if (names.length === 0 || names.length > MAX_TABLES) {
+    throw new ApiError(400, `tables must name 1 to ${MAX_TABLES} tables`);
+  }
+  return Array.from(new Set(names));
+}
+
+export async function exportSchemaDocument(tableNames: unknown): Promise<SchemaDocument> {
+  const tables: TableDocument[] = [];
+  for (const tableName of parseTableList(tableNames)) {
+    const table = await resolveTable(tableName);
+    requireBaseTable(table);
+    const columns = await getTableStructure(table.name);
+    const constraints = await readConstraints(pool, table);
+    tables.push({
+      name: table.name,
+      columns: columns.map(({ originalName: _originalName, ...col }) => col),
+      constraints: constraints
+        .filter(constraint => constraint.type !== 'p')
+        .map(({ name, definition }) => ({ name, definition })),
+      indexes: await readIndexes(pool, table),
+    });
+  }
+  return { format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION, tables };
+}
+
+// The tables as a DDL script. Foreign keys are added at the end, so tables
+// can reference each other in any order.
+export async function exportSchemaSql(tableNames: unknown): Promise<string> {
+  const sections: string[] = [];
+  const foreignKeys: string[] = [];
+  for (const tableName of parseTableList(tableNames)) {
+    const table = await resolveTable(tableName);
+    requireBaseTable(table);
+    const statements = await tableDefinitionStatements(pool, table, false);
+    sections.push(`-- ${table.name}\n${statements.map(statement => `${statement};`).join('\n')}`);
+    foreignKeys.push(...await foreignKeyStatements(pool, table));
+  }
+  if (foreignKeys.length > 0) {
+    sections.push(`-- Foreign keys\n${foreignKeys.map(statement => `${statement};`).join('\n')}`);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Column types the editor does not offer are checked by Postgres
+async function importColumnDefinition(col: ColumnDefinition): Promise<string> {
+  if (COLUMN_TYPES.includes(col.type)) {
+    return buildColumnDefinition(col);
+  }
+  const result = await pool.query('SELECT to_regtype($1)::text AS type', [col.type])
+    .catch(() => ({ rows: [{ type: null }] }));
+  const type = result.rows[0].type;
+  if (!type) {
+    throw new ApiError(400, `Unknown type "${col.type}" for column "${col.name}"`);
+  }
+  let definition = `${validateNewIdentifier(col.name, 'column')} ${type}`;
+  if (!col.isNullable) {
+    definition += ' NOT NULL';
+  }
+  const defaultSql = columnDefaultSql(col);
+  if (defaultSql) {
+    definition += ` DEFAULT ${defaultSql}`;
+  }
+  return definition;
+}
+
+// Version 1 documents kept the length or precision of sized types in defaultValue
+function upgradeVersion1Column(col: any): ColumnDefinition {
+  if (col?.type === 'VARCHAR' || col?.type === 'CHAR') {
+    return { ...col, length: col.defaultValue, defaultValue: '' };
+  }
+  if (col?.type === 'NUMERIC' || col?.type === 'DECIMAL') {
+    return { ...col, precision: col.defaultValue, defaultValue: '' };
+  }
+  return col;
+}
+
+function parseDocument(document: any): TableDocument[] {
+  if (!document || document.format !== DOCUMENT_FORMAT || !Array.isArray(document.tables)) {
+    throw new ApiError(400, `The document is not a schema export: it needs "format": "${DOCUMENT_FORMAT}" and a tables array`);
+  }
+  if (typeof document.version !== 'number' || document.version > DOCUMENT_VERSION) {
+    throw new ApiError(400, `Schema documents up to version ${DOCUMENT_VERSION} can be imported`);
+  }
+  if (document.tables.length === 0 || document.tables.length > MAX_TABLES) {
+    throw new ApiError(400, `The document must have 1 to ${MAX_TABLES} tables`);
+  }
+  return document.tables.map((table: any) => {
+    if (typeof table?.name !== 'string' || !Array.isArray(table.columns) || table.columns.length === 0) {
+      throw new ApiError(400, 'Each table needs a name and at least one column');
+    }
+    const objects = (list: any, kind: string): SchemaObject[] => {
+      if (list === undefined) return [];
+      if (!Array.isArray(list) || list.some(item => typeof item?.name !== 'string' || typeof item?.definition !== 'string')) {
+        throw new ApiError(400, `The ${kind} of table "${table.name}" must be a list of { name, definition }`);
+      }
+      return list;
+    };
+    return {
+      name: table.name,
+      columns: document.version === 1 ? table.columns.map(upgradeVersion1Column) : table.columns,
+      constraints: objects(table.constraints, 'constraints'),
+      indexes: objects(table.indexes, 'indexes'),
+    };
+  });
+}
+
+// Create the tables of an exported document in the current database, in one
+// transaction. Foreign keys are added after every table exists. A dry run
+// only returns the statements.
+export async function importSchema(document: unknown, actor: string, dryRun: boolean = false): Promise<ImportSchemaResult> {
+  const tables = parseDocument(document);
+  const creates: string[] = [];
+  const others: string[] = [];
+  const foreignKeys: string[] = [];
+  const names: string[] = [];
+  const targets: string[] = [];
+
+  for (const table of tables) {
+    const { schema, relationName } = parseTableName(table.name);
+    const target = `${quoteIdentifier(schema)}.${validateNewIdentifier(relationName, 'table')}`;
+    const existing = await pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [target]);
+    if (existing.rows[0].exists) {
+      throw new ApiError(409, `Table "${table.name}" already exists`);
+    }
+
+    const definitions: string[] = [];
+    for (const col of table.columns) {
+      definitions.push(await importColumnDefinition(col));
+    }
+    const primaryKey = primaryKeyClause(table.columns);
+    if (primaryKey) {
+      definitions.push(primaryKey);
+    }
+    creates.push(`CREATE TABLE ${target} (\n${definitions.join(',\n')}\n)`);
+
+    for (const constraint of table.constraints) {
+      const statement = `ALTER TABLE ${target} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`;
+      (/^FOREIGN KEY\b/i.test(constraint.definition) ? foreignKeys : others).push(statement);
+    }
+    for (const index of table.indexes) {
+      if (!/^CREATE (UNIQUE )?INDEX\b/i.test(index.definition)) {
+        throw new ApiError(400, `Index "${index.name}" of table "${table.name}" must be a CREATE INDEX statement`);
+      }
+      others.push(index.definition);
+    }
+    names.push(tableReference(schema, relationName));
+    targets.push(target);
+  }
+
+  const statements = [...creates, ...others, ...foreignKeys];
+  if (dryRun) {
+    return { tables: names, statements, applied: false };
+  }
+
+  await withTransaction(async client => {
+    for (const statement of statements) {
+      await runSingleStatement(client, statement);
+    }
+    for (const [index, name] of names.entries()) {
+      await recordTableChange(client, actor, 'CREATE TABLE', name, { imported: true, columns: tables[index].columns });
+    }
+    await recordMigration(
+      client,
+      actor,
+      `Import ${names.join(', ')}`,
+      statements,
+      targets.slice().reverse().map(target => `DROP TABLE ${target}`)
+    );
+  });
+  return { tables: names, statements, applied: true };
+}
+
+// Copy a table's structure, and optionally its rows, to a new table in the
+// same schema. Serial columns get their own sequences, so the copy does not
+// draw ids from the original.
+export async function cloneTable(tableName: string, newName: unknown, withData: boolean, actor: string): Promise<string> {
+  const source = await resolveTable(tableName);
+  requireBaseTable(source);
+  if (typeof newName !== 'string') {
+    throw new ApiError(400, 'newName is required');
+  }
+  const relation = validateNewIdentifier(newName, 'table');
+  const target = `${quoteIdentifier(source.schema)}.${relation}`;
+  const targetName = tableReference(source.schema, newName);
+  const existing = await pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [target]);
+  if (existing.rows[0].exists) {
+    throw new ApiError(409, `Table "${targetName}" already exists`);
+  }
+
+  const statements = [`CREATE TABLE ${target} (LIKE ${source.qualifiedName} INCLUDING ALL)`];
+  const serialColumns = source.columns.filter(col => col.is_identity !== 'YES' && (col.column_default || '').startsWith('nextval('));
+  for (const col of serialColumns) {
+    const sequence = `${quoteIdentifier(source.schema)}.${quoteIdentifier(`${newName}_${col.column_name}_seq`.slice(0, 63))}`;
+    statements.push(
+      `CREATE SEQUENCE ${sequence} AS ${col.data_type === 'bigint' ? 'bigint' : col.data_type === 'smallint' ? 'smallint' : 'integer'} OWNED BY ${target}.${quoteIdentifier(col.column_name)}`,
+      `ALTER TABLE ${target} ALTER COLUMN ${quoteIdentifier(col.column_name)} SET DEFAULT nextval(${quoteLiteral(sequence)}::regclass)`
+    );
+  }
+  // LIKE copies every constraint but foreign keys
+  for (const constraint of await readConstraints(pool, source)) {
+    if (constraint.type === 'f') {
+      statements.push(`ALTER TABLE ${target} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`);
+    }
+  }
+
+  if (withData) {
+    const generated = await pool.query(
+      `SELECT attname FROM pg_attribute WHERE attrelid = $1::regclass AND attgenerated <> ''`,
+      [source.qualifiedName]
+    );
+    const generatedNames = generated.rows.map(row => row.attname);
+    const columns = source.columns
+      .filter(col => !generatedNames.includes(col.column_name))
+      .map(col => quoteIdentifier(col.column_name))
+      .join(', ');
+    statements.push(`INSERT INTO ${target} (${columns}) OVERRIDING SYSTEM VALUE SELECT ${columns} FROM ${source.qualifiedName}`);
+    // Continue numbering after the copied rows
+    for (const col of source.columns.filter(col => col.is_identity === 'YES' || serialColumns.includes(col))) {
+      statements.push(`SELECT setval(pg_get_serial_sequence(${quoteLiteral(target)}, ${quoteLiteral(col.column_name)}), max(${quoteIdentifier(col.column_name)})) FROM ${target}`);
+    }
+  }
+
+  await withTransaction(async client => {
+    for (const statement of statements) {
+      await runSingleStatement(client, statement);
+    }
+    await recordTableChange(client, actor, 'CREATE TABLE', targetName, { cloned_from: source.name, with_data: withData });
+    await recordMigration(client, actor, `Clone ${source.name} to ${targetName}`, statements, [`DROP TABLE ${target}`]);
+  });
+  return targetName;
+}
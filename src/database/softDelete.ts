@@ -0,0 +1,246 @@
+import pool, { withTransaction } from './connection';
+import { ROW_ALIAS, recordBulkChange, recordTableChange } from './audit';
+import { ApiError } from './errors';
+import { ResolvedTable, hasColumn, quoteIdentifier, requireBaseTable, resolveTable } from './identifiers';
+import { ensureMetadataTable } from './metadata';
+import { irreversibleDown, recordMigration } from './migrations';
+
+// How a table marks deleted rows: a boolean is_deleted flag, or a deleted_at
+// time (with deleted_by, when the table has it). Which one a table uses is
+// read from its columns, so tables set up by hand work the same way.
+export type SoftDeleteMode = 'flag' | 'timestamp';
+export const SOFT_DELETE_MODES: SoftDeleteMode[] = ['flag', 'timestamp'];
+
+export interface SoftDeleteSettings {
+  mode: SoftDeleteMode | null;
+  // Deleted rows are purged this many days after deletion; timestamp mode only
+  retentionDays: number | null;
+}
+
+const FLAG_COLUMN = 'is_deleted';
+const DELETED_AT_COLUMN = 'deleted_at';
+const DELETED_BY_COLUMN = 'deleted_by';
+const SETTINGS_TABLE = 'tomulator_soft_delete';
+const MAX_RETENTION_DAYS = 36500;
+// Recorded in the audit log as the actor of purged rows
+export const RETENTION_ACTOR = 'retention';
+
+function ensureSettingsTable(): Promise<boolean> {
+  return ensureMetadataTable(SETTINGS_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${SETTINGS_TABLE} (
+      table_name TEXT PRIMARY KEY,
+      retention_days INTEGER NOT NULL
+    )
+  `);
+}
+
+export function softDeleteMode(table: ResolvedTable): SoftDeleteMode | null {
+  if (hasColumn(table, DELETED_AT_COLUMN)) return 'timestamp';
+  if (hasColumn(table, FLAG_COLUMN)) return 'flag';
+  return null;
+}
+
+export function requireSoftDelete(table: ResolvedTable): SoftDeleteMode {
+  const mode = softDeleteMode(table);
+  if (!mode) {
+    throw new ApiError(400, `Table "${table.name}" does not have soft delete turned on, so rows can only be deleted permanently`);
+  }
+  return mode;
+}
+
+// Condition that is true for the table's deleted rows. A flag is compared as
+// text, so older tables that keep 'true' in a text column still work.
+export function deletedCondition(mode: SoftDeleteMode): string {
+  return mode === 'timestamp'
+    ? `${quoteIdentifier(DELETED_AT_COLUMN)} IS NOT NULL`
+    : `${quoteIdentifier(FLAG_COLUMN)}::text = 'true'`;
+}
+
+// Whether a row, as a JSON image, is deleted
+export function isDeletedImage(mode: SoftDeleteMode, image: Record<string, any>): boolean {
+  return mode === 'timestamp' ? image[DELETED_AT_COLUMN] != null : String(image[FLAG_COLUMN]) === 'true';
+}
+
+// SET assignments that delete or restore rows, appending values to params
+export function softDeleteAssignments(
+  table: ResolvedTable,
+  mode: SoftDeleteMode,
+  deleting: boolean,
+  actor: string,
+  params: any[]
+): string {
+  if (mode === 'flag') {
+    return `${quoteIdentifier(FLAG_COLUMN)} = '${deleting}'`;
+  }
+  const assignments = [`${quoteIdentifier(DELETED_AT_COLUMN)} = ${deleting ? 'now()' : 'NULL'}`];
+  if (hasColumn(table, DELETED_BY_COLUMN)) {
+    params.push(deleting ? actor : null);
+    assignments.push(`${quoteIdentifier(DELETED_BY_COLUMN)} = $${params.length}`);
+  }
+  return assignments.join(', ');
+}
+
+export async function getSoftDeleteSettings(tableName: string): Promise<SoftDeleteSettings> {
+  const table = await resolveTable(tableName);
+  const result = await ensureSettingsTable()
+    ? await pool.query(`SELECT retention_days FROM ${SETTINGS_TABLE} WHERE table_name = $1`, [table.name])
+    : { rows: [] };
+  const mode = softDeleteMode(table);
+  return {
+    mode,
+    retentionDays: mode === 'timestamp' ? result.rows[0]?.retention_days ?? null : null,
+  };
+}
+
+// The DDL that turns on a soft delete mode, migrating what the table has:
+// an is_deleted text column becomes a boolean, and switching from the flag
+// to deleted_at moves deleted rows over before the flag is dropped
+function enableStatements(table: ResolvedTable, mode: SoftDeleteMode): string[] {
+  const current = softDeleteMode(table);
+  const name = table.qualifiedName;
+  const flag = quoteIdentifier(FLAG_COLUMN);
+
+  if (mode === 'flag') {
+    if (current === 'timestamp') {
+      throw new ApiError(400, `Table "${table.name}" already uses ${DELETED_AT_COLUMN} for soft delete`);
+    }
+    if (current === null) {
+      return [`ALTER TABLE ${name} ADD COLUMN ${flag} BOOLEAN NOT NULL DEFAULT false`];
+    }
+    const column = table.columns.find(col => col.column_name === FLAG_COLUMN)!;
+    if (column.udt_name === 'bool' && column.is_nullable === 'NO') {
+      throw new ApiError(400, `Table "${table.name}" already has soft delete turned on`);
+    }
+    return [
+      `ALTER TABLE ${name} ALTER COLUMN ${flag} DROP DEFAULT`,
+      `ALTER TABLE ${name} ALTER COLUMN ${flag} TYPE BOOLEAN USING COALESCE(${flag}::text = 'true', false)`,
+      `ALTER TABLE ${name} ALTER COLUMN ${flag} SET DEFAULT false`,
+      `ALTER TABLE ${name} ALTER COLUMN ${flag} SET NOT NULL`,
+    ];
+  }
+
+  if (current === 'timestamp') {
+    throw new ApiError(400, `Table "${table.name}" already has soft delete turned on`);
+  }
+  const statements = [
+    `ALTER TABLE ${name} ADD COLUMN ${quoteIdentifier(DELETED_AT_COLUMN)} TIMESTAMPTZ`,
+    `ALTER TABLE ${name} ADD COLUMN IF NOT EXISTS ${quoteIdentifier(DELETED_BY_COLUMN)} TEXT`,
+  ];
+  if (current === 'flag') {
+    statements.push(
+      `UPDATE ${name} SET ${quoteIdentifier(DELETED_AT_COLUMN)} = now() WHERE ${deletedCondition('flag')}`,
+      `ALTER TABLE ${name} DROP COLUMN ${flag}`
+    );
+  }
+  return statements;
+}
+
+// The DDL that undoes enableStatements. A flag moved to deleted_at comes
+// back as a boolean; converting a text flag to a boolean cannot be undone.
+function revertStatements(table: ResolvedTable, mode: SoftDeleteMode): string[] {
+  const current = softDeleteMode(table);
+  const name = table.qualifiedName;
+  const flag = quoteIdentifier(FLAG_COLUMN);
+
+  if (mode === 'flag') {
+    return current === null
+      ? [`ALTER TABLE ${name} DROP COLUMN ${flag}`]
+      : irreversibleDown(`${FLAG_COLUMN} was converted to a boolean`);
+  }
+  const statements: string[] = [];
+  if (current === 'flag') {
+    statements.push(
+      `ALTER TABLE ${name} ADD COLUMN ${flag} BOOLEAN NOT NULL DEFAULT false`,
+      `UPDATE ${name} SET ${flag} = true WHERE ${deletedCondition('timestamp')}`
+    );
+  }
+  statements.push(`ALTER TABLE ${name} DROP COLUMN ${quoteIdentifier(DELETED_AT_COLUMN)}`);
+  if (!hasColumn(table, DELETED_BY_COLUMN)) {
+    statements.push(`ALTER TABLE ${name} DROP COLUMN ${quoteIdentifier(DELETED_BY_COLUMN)}`);
+  }
+  return statements;
+}
+
+export async function enableSoftDelete(tableName: string, mode: unknown, actor: string): Promise<SoftDeleteSettings> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  if (!SOFT_DELETE_MODES.includes(mode as SoftDeleteMode)) {
+    throw new ApiError(400, `mode must be one of ${SOFT_DELETE_MODES.join(', ')}`);
+  }
+  const statements = enableStatements(table, mode as SoftDeleteMode);
+  await withTransaction(async client => {
+    for (const statement of statements) {
+      await client.query(statement);
+    }
+    await recordTableChange(client, actor, 'ALTER TABLE', table.name, { statements, soft_delete: mode });
+    await recordMigration(client, actor, `Soft delete on ${table.name}`, statements, revertStatements(table, mode as SoftDeleteMode));
+  });
+  return getSoftDeleteSettings(table.name);
+}
+
+// Set how long deleted rows are kept, or keep them forever with null
+export async function setRetention(tableName: string, retentionDays: unknown): Promise<SoftDeleteSettings> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  if (softDeleteMode(table) !== 'timestamp') {
+    throw new ApiError(400, `Retention needs the ${DELETED_AT_COLUMN} column to know when rows were deleted`);
+  }
+  await ensureSettingsTable();
+  if (retentionDays === null) {
+    await pool.query(`DELETE FROM ${SETTINGS_TABLE} WHERE table_name = $1`, [table.name]);
+  } else {
+    const days = Number(retentionDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS) {
+      throw new ApiError(400, `retentionDays must be a whole number from 1 to ${MAX_RETENTION_DAYS}`);
+    }
+    await pool.query(`
+      INSERT INTO ${SETTINGS_TABLE} (table_name, retention_days) VALUES ($1, $2)
+      ON CONFLICT (table_name) DO UPDATE SET retention_days = EXCLUDED.retention_days
+    `, [table.name, days]);
+  }
+  return getSoftDeleteSettings(table.name);
+}
+
+// Permanently delete rows that have been deleted for longer than their
+// table's retention period. Each purged row is recorded in the audit log.
+// Works on the current connection and returns the number of rows purged.
+// Databases where no retention was ever set have no settings table, and are
+// left as they are.
+export async function purgeExpiredRows(): Promise<number> {
+  const exists = await pool.query('SELECT to_regclass($1) IS NOT NULL AS exists', [SETTINGS_TABLE]);
+  if (!exists.rows[0].exists) return 0;
+  const settings = await pool.query(`SELECT table_name, retention_days FROM ${SETTINGS_TABLE}`);
+  let purged = 0;
+
+  for (const { table_name: tableName, retention_days: retentionDays } of settings.rows) {
+    let table: ResolvedTable;
+    try {
+      table = await resolveTable(tableName);
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+      // The table was dropped; forget its setting
+      await pool.query(`DELETE FROM ${SETTINGS_TABLE} WHERE table_name = $1`, [tableName]);
+      continue;
+    }
+    if (table.kind !== 'table' || softDeleteMode(table) !== 'timestamp') continue;
+
+    const statement = `
+      DELETE FROM ${table.qualifiedName} AS ${ROW_ALIAS}
+      WHERE ${quoteIdentifier(DELETED_AT_COLUMN)} < now() - make_interval(days => $1)
+      RETURNING to_jsonb(${ROW_ALIAS}) AS before_image, NULL::jsonb AS after_image
+    `;
+    try {
+      purged += await withTransaction(client =>
+        recordBulkChange(client, RETENTION_ACTOR, 'DELETE', table, statement, [retentionDays], {
+          purge: true,
+          retention_days: retentionDays,
+        })
+      );
+    } catch (error) {
+      // A row still referenced by another table blocks the purge of this
+      // table only
+      console.error(`Failed to purge deleted rows of ${tableName}:`, error);
+    }
+  }
+  return purged;
+}
@@ -0,0 +1,241 @@
+import { DatabaseError, PoolClient, QueryConfig } from 'pg';
+import pool, { appPool, currentConnection } from './connection';
+import { ApiError } from './errors';
+import { ensureAppTable } from './metadata';
+
+export interface ConsoleOptions {
+  // Run in a READ ONLY transaction, so nothing can be changed
+  readOnly?: boolean;
+  timeoutSeconds?: number;
+  maxRows?: number;
+}
+
+// One statement's result. Rows are arrays, so columns of the same name (as
+// from a join) are all kept.
+export interface StatementResult {
+  command: string;
+  rowCount: number | null;
+  columns: string[];
+  rows: any[][];
+  // More rows were returned than maxRows
+  truncated: boolean;
+}
+
+export interface ConsoleResult {
+  results: StatementResult[];
+  readOnly: boolean;
+  durationMs: number;
+}
+
+export interface QueryHistoryEntry {
+  id: number;
+  connection: string;
+  sql: string;
+  read_only: boolean;
+  row_count: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+const HISTORY_TABLE = 'tomulator_query_history';
+// Older entries of a user are removed as new ones are added
+const MAX_HISTORY_PER_USER = 200;
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const MAX_TIMEOUT_SECONDS = 300;
+const DEFAULT_MAX_ROWS = 1000;
+const MAX_ROWS = 10000;
+const MAX_SQL_LENGTH = 100000;
+const CURSOR_NAME = 'tomulator_console';
+
+function ensureHistoryTable(): Promise<void> {
+  return ensureAppTable(HISTORY_TABLE, `
+    CREATE TABLE IF NOT EXISTS ${HISTORY_TABLE} (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL,
+      connection TEXT NOT NULL,
+      sql TEXT NOT NULL,
+      read_only BOOLEAN NOT NULL,
+      row_count INTEGER,
+      error TEXT,
+      duration_ms INTEGER NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX IF NOT EXISTS ${HISTORY_TABLE}_username_idx ON ${HISTORY_TABLE} (username, id)
+  `);
+}
+
+function boundedNumber(value: unknown, fallback: number, max: number, field: string): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new ApiError(400, `${field} must be a whole number from 1 to ${max}`);
+  }
+  return number;
+}
+
+function toStatementResult(result: { command: string; rowCount: number | null; fields?: { name: string }[]; rows: any[] }, maxRows: number): StatementResult {
+  return {
+    command: result.command,
+    rowCount: result.rowCount,
+    columns: (result.fields ?? []).map(field => field.name),
+    rows: result.rows.slice(0, maxRows),
+    truncated: result.rows.length > maxRows,
+  };
+}
+
+// Run a single query through a cursor, so only maxRows rows are read. Returns
+// null when the SQL cannot be a cursor (several statements, or one that is
+// not a query), after undoing the attempt. The DECLARE uses the extended
+// protocol, so statements after the query are refused rather than run.
+async function runThroughCursor(client: PoolClient, sql: string, maxRows: number): Promise<StatementResult | null> {
+  await client.query('SAVEPOINT tomulator_cursor');
+  try {
+    // queryMode is supported by pg but missing from its types
+    await client.query({ text: `DECLARE ${CURSOR_NAME} NO SCROLL CURSOR FOR ${sql}`, queryMode: 'extended' } as QueryConfig);
+  } catch {
+    await client.query('ROLLBACK TO SAVEPOINT tomulator_cursor');
+    return null;
+  }
+  const result = await client.query({ text: `FETCH ${maxRows + 1} FROM ${CURSOR_NAME}`, rowMode: 'array' });
+  await client.query(`CLOSE ${CURSOR_NAME}`);
+  return { ...toStatementResult(result, maxRows), command: 'SELECT', rowCount: Math.min(result.rows.length, maxRows) };
+}
+
+// In read-only mode the SQL runs with the extended protocol, which refuses
+// several statements, so a COMMIT or SET cannot be followed by a statement
+// that would run outside the read-only transaction.
+async function runStatements(client: PoolClient, sql: string, maxRows: number, readOnly: boolean): Promise<StatementResult[]> {
+  // A trailing semicolon would end the cursor's query early
+  const single = await runThroughCursor(client, sql.trim().replace(/;+$/, ''), maxRows);
+  if (single) return [single];
+  if (readOnly) {
+    // queryMode is supported by pg but missing from its types
+    const result = await client.query({ text: sql, rowMode: 'array', queryMode: 'extended' } as QueryConfig)
+      .catch(error => {
+        if (error instanceof DatabaseError && error.message.startsWith('cannot insert multiple commands')) {
+          throw new ApiError(400, 'Read-only mode runs one statement at a time. Run the statements separately, or turn off read-only mode.');
+        }
+        throw error;
+      });
+    return [toStatementResult(result, maxRows)];
+  }
+  const result: any = await client.query({ text: sql, rowMode: 'array' });
+  return (Array.isArray(result) ? result : [result]).map(statement => toStatementResult(statement, maxRows));
+}
+
+// A last check before a read-only run commits: the transaction is still
+// read-only and was never given a transaction id, which Postgres assigns on
+// the first write
+async function assertNothingWritten(client: PoolClient): Promise<void> {
+  const result = await client.query(
+    `SELECT current_setting('transaction_read_only') = 'on' AND txid_current_if_assigned() IS NULL AS read_only`
+  );
+  if (!result.rows[0].read_only) {
+    throw new ApiError(400, 'The query tried to leave read-only mode, so it was rolled back');
+  }
+}
+
+function asConsoleError(error: unknown, timeoutSeconds: number): unknown {
+  if (!(error instanceof DatabaseError)) return error;
+  if (error.code === '57014') {
+    return new ApiError(400, `The query was cancelled after the ${timeoutSeconds} second timeout`);
+  }
+  if (error.code === '25006') {
+    return new ApiError(400, `${error.message}. Turn off read-only mode to change data.`);
+  }
+  return new ApiError(400, error.message, { code: error.code, position: error.position ? Number(error.position) : null });
+}
+
+// Run SQL typed in the console on the current connection. Statements run in
+// one transaction. In read-only mode only one statement runs, in a read-only
+// transaction of a read-only session. Whatever the SQL changes about the
+// session is discarded before the client goes back to the pool.
+export async function runConsoleQuery(sql: unknown, options: ConsoleOptions, username: string): Promise<ConsoleResult> {
+  if (typeof sql !== 'string' || sql.trim() === '') {
+    throw new ApiError(400, 'sql is required');
+  }
+  if (sql.length > MAX_SQL_LENGTH) {
+    throw new ApiError(400, `sql must be at most ${MAX_SQL_LENGTH} characters`);
+  }
+  const connection = currentConnection();
+  const readOnly = options.readOnly !== false || connection.readOnly;
+  const timeoutSeconds = boundedNumber(options.timeoutSeconds, DEFAULT_TIMEOUT_SECONDS, MAX_TIMEOUT_SECONDS, 'timeoutSeconds');
+  const maxRows = boundedNumber(options.maxRows, DEFAULT_MAX_ROWS, MAX_ROWS, 'maxRows');
+
+  const started = Date.now();
+  let results: StatementResult[] = [];
+  let failure: unknown = null;
+  const client = await pool.connect();
+  let broken: Error | undefined;
+  try {
+    await client.query(`SET statement_timeout = ${timeoutSeconds * 1000}`);
+    if (readOnly) {
+      await client.query('SET default_transaction_read_only = on');
+    }
+    await client.query(readOnly ? 'BEGIN READ ONLY' : 'BEGIN');
+    results = await runStatements(client, sql, maxRows, readOnly);
+    if (readOnly) {
+      await assertNothingWritten(client);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    failure = error;
+    await client.query('ROLLBACK').catch(() => undefined);
+  } finally {
+    await client.query('DISCARD ALL').catch(error => { broken = error; });
+    client.release(broken);
+  }
+  const durationMs = Date.now() - started;
+
+  const lastResult = results[results.length - 1];
+  await recordHistory(username, {
+    connection: connection.name,
+    sql,
+    readOnly,
+    rowCount: lastResult?.rowCount ?? null,
+    error: failure instanceof Error ? failure.message : failure ? String(failure) : null,
+    durationMs,
+  }).catch(error => console.error('Failed to record query history:', error));
+
+  if (failure) throw asConsoleError(failure, timeoutSeconds);
+  return { results, readOnly, durationMs };
+}
+
+async function recordHistory(username: string, entry: {
+  connection: string;
+  sql: string;
+  readOnly: boolean;
+  rowCount: number | null;
+  error: string | null;
+  durationMs: number;
+}): Promise<void> {
+  await ensureHistoryTable();
+  await appPool.query(`
+    INSERT INTO ${HISTORY_TABLE} (username, connection, sql, read_only, row_count, error, duration_ms)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+  `, [username, entry.connection, entry.sql, entry.readOnly, entry.rowCount, entry.error, entry.durationMs]);
+  await appPool.query(`
+    DELETE FROM ${HISTORY_TABLE}
+    WHERE username = $1 AND id <= (
+      SELECT id FROM ${HISTORY_TABLE} WHERE username = $1 ORDER BY id DESC OFFSET $2 LIMIT 1
+    )
+  `, [username, MAX_HISTORY_PER_USER]);
+}
+
+// The user's queries on every connection, newest first
+export async function getQueryHistory(username: string): Promise<QueryHistoryEntry[]> {
+  await ensureHistoryTable();
+  const result = await appPool.query(`
+    SELECT id, connection, sql, read_only, row_count, error, duration_ms, created_at
+    FROM ${HISTORY_TABLE}
+    WHERE username = $1
+    ORDER BY id DESC
+  `, [username]);
+  return result.rows;
+}
+
+export async function clearQueryHistory(username: string): Promise<void> {
+  await ensureHistoryTable();
+  await appPool.query(`DELETE FROM ${HISTORY_TABLE} WHERE username = $1`, [username]);
+}
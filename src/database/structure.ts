@@ -0,0 +1,252 @@
+import pool, { runSingleStatement, withTransaction } from './connection';
+import { recordTableChange } from './audit';
+import { ApiError } from './errors';
+import { irreversibleDown, recordMigration } from './migrations';
+import { ResolvedTable, quoteIdentifier, requireBaseTable, resolveTable, validateNewIdentifier } from './identifiers';
+import { ColumnDefinition, SIZED_TYPES, buildColumnDefinition, columnDefaultSql, columnTypeSql, validateColumnDefinitions } from './queries';
+
+// information_schema data types and the NewTableCreator types they correspond to
+const DATA_TYPE_NAMES: Record<string, string> = {
+  'integer': 'INTEGER',
+  'bigint': 'BIGINT',
+  'smallint': 'SMALLINT',
+  'text': 'TEXT',
+  'character varying': 'VARCHAR',
+  'character': 'CHAR',
+  'boolean': 'BOOLEAN',
+  'timestamp without time zone': 'TIMESTAMP',
+  'date': 'DATE',
+  'time without time zone': 'TIME',
+  'numeric': 'NUMERIC',
+  'real': 'REAL',
+  'double precision': 'DOUBLE PRECISION',
+  'json': 'JSON',
+  'jsonb': 'JSONB',
+  'uuid': 'UUID'
+};
+
+// Show literal defaults such as 'false'::character varying as the bare value
+function displayDefault(columnDefault: string | null): string {
+  if (!columnDefault) return '';
+  const literal = columnDefault.match(/^'((?:[^']|'')*)'(?:::[\w\s"]+)?$/);
+  return literal ? literal[1].replace(/''/g, "'") : columnDefault;
+}
+
+// Describe an existing table as the ColumnDefinition[] used by NewTableCreator
+export async function getTableStructure(tableName: string): Promise<ColumnDefinition[]> {
+  const table = await resolveTable(tableName);
+  return readStructure(table);
+}
+
+async function readStructure(table: ResolvedTable): Promise<ColumnDefinition[]> {
+  const query = `
+    SELECT column_name, data_type, udt_name, is_nullable, column_default, is_identity,
+      character_maximum_length, numeric_precision, numeric_scale
+    FROM information_schema.columns
+    WHERE table_schema = $1 AND table_name = $2
+    ORDER BY ordinal_position
+  `;
+  const result = await pool.query(query, [table.schema, table.relationName]);
+
+  return result.rows.map(row => {
+    const isSerial = (row.column_default || '').startsWith('nextval(');
+    let type = DATA_TYPE_NAMES[row.data_type];
+    if (!type) {
+      // Types the editor does not offer are shown as-is and left untouched
+      type = row.data_type === 'ARRAY'
+        ? `${row.udt_name.replace(/^_/, '').toUpperCase()}[]`
+        : row.data_type === 'USER-DEFINED' ? row.udt_name : row.data_type.toUpperCase();
+    }
+    if (type === 'INTEGER' && isSerial) {
+      type = 'SERIAL';
+    }
+
+    const defaultValue = isSerial || row.is_identity === 'YES' ? '' : displayDefault(row.column_default);
+    const length = type === 'VARCHAR' || type === 'CHAR'
+      ? (row.character_maximum_length ? String(row.character_maximum_length) : '')
+      : undefined;
+    const precision = type === 'NUMERIC'
+      ? (row.numeric_precision !== null ? `${row.numeric_precision},${row.numeric_scale ?? 0}` : '')
+      : undefined;
+
+    return {
+      name: row.column_name,
+      type,
+      isNullable: row.is_nullable === 'YES',
+      isPrimaryKey: table.primaryKey.includes(row.column_name),
+      defaultValue,
+      isAutoIncrement: isSerial || row.is_identity === 'YES',
+      length,
+      precision,
+      originalName: row.column_name,
+    };
+  });
+}
+
+// Work out the ALTER TABLE statements that turn the current columns into the
+// desired ones. Desired columns are matched to current ones by originalName;
+// columns without one are added and unmatched current columns are dropped.
+export function computeAlterStatements(
+  table: ResolvedTable,
+  current: ColumnDefinition[],
+  desired: ColumnDefinition[]
+): string[] {
+  const target = table.qualifiedName;
+  const drops: string[] = [];
+  const renames: { from: string; to: string; statement: string }[] = [];
+  const alters: string[] = [];
+  const adds: string[] = [];
+
+  const matched = new Set<string>();
+  for (const col of desired) {
+    if (col.originalName === undefined) continue;
+    if (!current.some(existing => existing.name === col.originalName)) {
+      throw new ApiError(400, `Unknown column "${col.originalName}" in table "${table.name}"`);
+    }
+    if (matched.has(col.originalName)) {
+      throw new ApiError(400, `Column "${col.originalName}" appears more than once`);
+    }
+    matched.add(col.originalName);
+  }
+
+  for (const existing of current) {
+    if (!matched.has(existing.name)) {
+      drops.push(`ALTER TABLE ${target} DROP COLUMN ${quoteIdentifier(existing.name)}`);
+    }
+  }
+
+  for (const col of desired) {
+    if (col.originalName === undefined) {
+      if (col.isPrimaryKey) {
+        throw new ApiError(400, 'Adding primary key columns is not supported when editing a table');
+      }
+      adds.push(`ALTER TABLE ${target} ADD COLUMN ${buildColumnDefinition(col)}`);
+      continue;
+    }
+
+    const existing = current.find(c => c.name === col.originalName)!;
+    if (col.isPrimaryKey !== existing.isPrimaryKey || col.isAutoIncrement !== existing.isAutoIncrement) {
+      throw new ApiError(400, `Changing the primary key or auto-increment of column "${existing.name}" is not supported`);
+    }
+
+    if (col.name !== existing.name) {
+      const newName = validateNewIdentifier(col.name, 'column');
+      renames.push({
+        from: existing.name,
+        to: col.name,
+        statement: `ALTER TABLE ${target} RENAME COLUMN ${quoteIdentifier(existing.name)} TO ${newName}`,
+      });
+    }
+    const column = quoteIdentifier(col.name);
+
+    const sized = SIZED_TYPES.includes(col.type);
+    const typeChanged = col.type !== existing.type
+      || (sized && ((col.length ?? '') !== (existing.length ?? '') || (col.precision ?? '') !== (existing.precision ?? '')));
+    if (typeChanged) {
+      const typeSql = columnTypeSql(col);
+      alters.push(`ALTER TABLE ${target} ALTER COLUMN ${column} TYPE ${typeSql} USING ${column}::${typeSql}`);
+    }
+
+    if (col.isNullable !== existing.isNullable) {
+      alters.push(`ALTER TABLE ${target} ALTER COLUMN ${column} ${col.isNullable ? 'DROP' : 'SET'} NOT NULL`);
+    }
+
+    // Serial columns keep their sequence default
+    if (!col.isAutoIncrement && col.defaultValue.trim() !== existing.defaultValue) {
+      const defaultSql = columnDefaultSql({ ...col, defaultValue: col.defaultValue.trim() });
+      alters.push(defaultSql
+        ? `ALTER TABLE ${target} ALTER COLUMN ${column} SET DEFAULT ${defaultSql}`
+        : `ALTER TABLE ${target} ALTER COLUMN ${column} DROP DEFAULT`);
+    }
+  }
+
+  return [...drops, ...orderRenames(table, renames, matched), ...alters, ...adds];
+}
+
+// Order renames so each column's new name is free by the time it is renamed,
+// as when b is renamed to c and a to b. Columns that trade names have no
+// such order and are refused.
+function orderRenames(
+  table: ResolvedTable,
+  renames: { from: string; to: string; statement: string }[],
+  kept: Set<string>
+): string[] {
+  const taken = new Set(kept);
+  const pending = [...renames];
+  const ordered: string[] = [];
+  while (pending.length > 0) {
+    const index = pending.findIndex(rename => !taken.has(rename.to));
+    if (index === -1) {
+      // The name is held by a column that is not being renamed
+      const conflict = pending.find(rename => !pending.some(other => other.from === rename.to));
+      if (conflict) {
+        throw new ApiError(400, `Column "${conflict.to}" already exists in table "${table.name}"`);
+      }
+      throw new ApiError(400, `Columns ${pending.map(rename => `"${rename.from}"`).join(', ')} trade names; rename them in separate changes`);
+    }
+    const [rename] = pending.splice(index, 1);
+    taken.delete(rename.from);
+    taken.add(rename.to);
+    ordered.push(rename.statement);
+  }
+  return ordered;
+}
+
+// The statements that undo computeAlterStatements(table, current, desired):
+// the same computation from the desired columns back to the current ones.
+// Dropped columns come back empty.
+function computeRevertStatements(
+  table: ResolvedTable,
+  current: ColumnDefinition[],
+  desired: ColumnDefinition[]
+): string[] {
+  const altered = desired.map(col => ({ ...col, defaultValue: col.defaultValue.trim(), originalName: col.name }));
+  const original = current.map(existing => ({
+    ...existing,
+    originalName: desired.find(col => col.originalName === existing.name)?.name,
+  }));
+  try {
+    return computeAlterStatements(table, altered, original);
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    return irreversibleDown(error.message);
+  }
+}
+
+export interface AlterTableResult {
+  statements: string[];
+  applied: boolean;
+}
+
+// Compute the DDL for the desired columns and, unless this is a dry run,
+// apply it in one transaction. When expectedStatements is given (the DDL the
+// user reviewed), the change is refused if the table has changed since.
+export async function alterTable(
+  tableName: string,
+  columns: ColumnDefinition[],
+  actor: string,
+  options: { dryRun?: boolean; expectedStatements?: string[] } = {}
+): Promise<AlterTableResult> {
+  const table = await resolveTable(tableName);
+  requireBaseTable(table);
+  columns = validateColumnDefinitions(columns);
+  const current = await readStructure(table);
+  const statements = computeAlterStatements(table, current, columns);
+
+  if (options.dryRun || statements.length === 0) {
+    return { statements, applied: false };
+  }
+
+  if (options.expectedStatements && JSON.stringify(options.expectedStatements) !== JSON.stringify(statements)) {
+    throw new ApiError(409, 'The table structure changed since the changes were reviewed. Review them again.', { statements });
+  }
+
+  await withTransaction(async client => {
+    for (const statement of statements) {
+      await runSingleStatement(client, statement);
+    }
+    await recordTableChange(client, actor, 'ALTER TABLE', table.name, { statements });
+    await recordMigration(client, actor, `Alter table ${table.name}`, statements, computeRevertStatements(table, current, columns));
+  });
+  return { statements, applied: true };
+}
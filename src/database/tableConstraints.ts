@@ -0,0 +1,111 @@
+import { ApiError } from './errors';
+import { quoteIdentifier, requireBaseTable, resolveColumns, resolveTable, validateNewIdentifier } from './identifiers';
+import type { ColumnDefinition } from './queries';
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+export const FOREIGN_KEY_ACTIONS: ForeignKeyAction[] = ['NO ACTION', 'RESTRICT', 'CASCADE', 'SET NULL', 'SET DEFAULT'];
+
+// A table constraint other than the primary key, which the columns mark.
+// Without a name, Postgres names it.
+export interface ConstraintDefinition {
+  type: 'unique' | 'check' | 'foreign_key';
+  name?: string;
+  // Columns of a unique constraint or foreign key, in order
+  columns?: string[];
+  // SQL boolean expression of a check constraint, such as price > 0
+  expression?: string;
+  // Table and columns a foreign key references, matched to columns by position
+  referencedTable?: string;
+  referencedColumns?: string[];
+  onDelete?: ForeignKeyAction;
+}
+
+// A secondary index. Without a name, Postgres names it.
+export interface IndexDefinition {
+  name?: string;
+  columns: string[];
+  unique?: boolean;
+}
+
+// Quote a list of the new table's columns, rejecting unknown and repeated ones
+function newColumnList(names: unknown, columns: ColumnDefinition[], what: string): string {
+  if (!Array.isArray(names) || names.length === 0) {
+    throw new ApiError(400, `${what} needs at least one column`);
+  }
+  for (const [index, name] of names.entries()) {
+    if (!columns.some(col => col.name === name)) {
+      throw new ApiError(400, `${what} uses unknown column "${name}"`);
+    }
+    if (names.indexOf(name) !== index) {
+      throw new ApiError(400, `${what} lists column "${name}" more than once`);
+    }
+  }
+  return names.map(name => quoteIdentifier(name)).join(', ');
+}
+
+function constraintPrefix(name: string | undefined): string {
+  return name ? `CONSTRAINT ${validateNewIdentifier(name, 'constraint')} ` : '';
+}
+
+// The primary key clause for CREATE TABLE, or null when no column is marked
+export function primaryKeyClause(columns: ColumnDefinition[]): string | null {
+  const keyColumns = columns.filter(col => col.isPrimaryKey).map(col => quoteIdentifier(col.name));
+  return keyColumns.length > 0 ? `PRIMARY KEY (${keyColumns.join(', ')})` : null;
+}
+
+// The CREATE TABLE clauses for the constraints of a new table. A foreign key
+// may reference the new table itself by its name.
+export async function constraintClauses(
+  tableName: string,
+  table: string,
+  columns: ColumnDefinition[],
+  constraints: ConstraintDefinition[]
+): Promise<string[]> {
+  const clauses: string[] = [];
+  for (const constraint of constraints) {
+    const prefix = constraintPrefix(constraint.name);
+    if (constraint.type === 'unique') {
+      clauses.push(`${prefix}UNIQUE (${newColumnList(constraint.columns, columns, 'A unique constraint')})`);
+    } else if (constraint.type === 'check') {
+      if (typeof constraint.expression !== 'string' || !constraint.expression.trim()) {
+        throw new ApiError(400, 'A check constraint needs an expression');
+      }
+      clauses.push(`${prefix}CHECK (${constraint.expression.trim()})`);
+    } else if (constraint.type === 'foreign_key') {
+      const localColumns = newColumnList(constraint.columns, columns, 'A foreign key');
+      const referencedNames = constraint.referencedColumns;
+      if (!Array.isArray(referencedNames) || referencedNames.length !== constraint.columns!.length) {
+        throw new ApiError(400, 'A foreign key needs one referenced column for each of its columns');
+      }
+      let reference: string;
+      let referencedColumns: string;
+      if (constraint.referencedTable === tableName) {
+        reference = table;
+        referencedColumns = newColumnList(referencedNames, columns, 'A foreign key');
+      } else {
+        if (typeof constraint.referencedTable !== 'string') {
+          throw new ApiError(400, 'A foreign key needs a referenced table');
+        }
+        const referenced = await resolveTable(constraint.referencedTable);
+        requireBaseTable(referenced);
+        reference = referenced.qualifiedName;
+        referencedColumns = resolveColumns(referenced, referencedNames).join(', ');
+      }
+      const onDelete = constraint.onDelete ?? 'NO ACTION';
+      if (!FOREIGN_KEY_ACTIONS.includes(onDelete)) {
+        throw new ApiError(400, `Invalid ON DELETE action "${onDelete}"`);
+      }
+      clauses.push(`${prefix}FOREIGN KEY (${localColumns}) REFERENCES ${reference} (${referencedColumns}) ON DELETE ${onDelete}`);
+    } else {
+      throw new ApiError(400, `Unknown constraint type "${(constraint as ConstraintDefinition).type}"`);
+    }
+  }
+  return clauses;
+}
+
+export function indexStatements(table: string, columns: ColumnDefinition[], indexes: IndexDefinition[]): string[] {
+  return indexes.map(index => {
+    const name = index.name ? `${validateNewIdentifier(index.name, 'index')} ` : '';
+    return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${name}ON ${table} (${newColumnList(index.columns, columns, 'An index')})`;
+  });
+}
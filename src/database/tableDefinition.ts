@@ -0,0 +1,99 @@
+import type { Pool, PoolClient } from 'pg';
+import { ResolvedTable, quoteIdentifier } from './identifiers';
+
+// A constraint or index, with its definition as Postgres prints it
+export interface SchemaObject {
+  name: string;
+  definition: string;
+}
+
+const SERIAL_TYPES: Record<string, string> = {
+  smallint: 'SMALLSERIAL',
+  integer: 'SERIAL',
+  bigint: 'BIGSERIAL',
+};
+
+// The table's primary key, unique, check, exclusion and foreign key
+// constraints, foreign keys last so they can be added after the tables they
+// reference
+export async function readConstraints(db: Pool | PoolClient, table: ResolvedTable): Promise<(SchemaObject & { type: string })[]> {
+  const result = await db.query(`
+    SELECT conname AS name, contype AS type, pg_get_constraintdef(oid) AS definition
+    FROM pg_constraint
+    WHERE conrelid = $1::regclass AND contype IN ('p', 'u', 'c', 'x', 'f')
+    ORDER BY contype = 'f', contype <> 'p', conname
+  `, [table.qualifiedName]);
+  return result.rows;
+}
+
+// The table's indexes as CREATE INDEX statements, except those that back a
+// constraint, which are created by the constraint
+export async function readIndexes(db: Pool | PoolClient, table: ResolvedTable): Promise<SchemaObject[]> {
+  const result = await db.query(`
+    SELECT c.relname AS name, pg_get_indexdef(i.indexrelid) AS definition
+    FROM pg_index i
+    JOIN pg_class c ON c.oid = i.indexrelid
+    WHERE i.indrelid = $1::regclass
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_constraint con
+        WHERE con.conrelid = i.indrelid AND con.conindid = i.indexrelid AND con.contype IN ('p', 'u', 'x')
+      )
+    ORDER BY c.relname
+  `, [table.qualifiedName]);
+  return result.rows;
+}
+
+// The DDL that recreates a table as it is now: its columns with their
+// defaults, identity and generated expressions, its constraints and its
+// other indexes. Rows, triggers and grants are not included. Read from the
+// catalog, so types the app cannot edit are kept exactly. Without foreign
+// keys, add them with foreignKeyStatements once every table exists.
+export async function tableDefinitionStatements(
+  db: Pool | PoolClient,
+  table: ResolvedTable,
+  withForeignKeys: boolean = true
+): Promise<string[]> {
+  const columns = await db.query(`
+    SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type, a.attnotnull AS not_null,
+      a.attidentity AS identity, a.attgenerated AS generated, pg_get_expr(d.adbin, d.adrelid) AS default_expr,
+      pg_get_serial_sequence($1, a.attname) IS NOT NULL AS owns_sequence
+    FROM pg_attribute a
+    LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+    WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+    ORDER BY a.attnum
+  `, [table.qualifiedName]);
+  const constraints = await readConstraints(db, table);
+  const indexes = await readIndexes(db, table);
+
+  const definitions = columns.rows.map(col => {
+    const isSerial = col.owns_sequence && col.identity === '' && (col.default_expr || '').startsWith('nextval(');
+    let definition = `${quoteIdentifier(col.name)} ${isSerial ? SERIAL_TYPES[col.type] ?? col.type : col.type}`;
+    if (col.generated === 's') {
+      definition += ` GENERATED ALWAYS AS (${col.default_expr}) STORED`;
+    } else if (col.identity) {
+      definition += ` GENERATED ${col.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`;
+    } else if (col.default_expr && !isSerial) {
+      definition += ` DEFAULT ${col.default_expr}`;
+    }
+    if (col.not_null && !isSerial && !col.identity) {
+      definition += ' NOT NULL';
+    }
+    return definition;
+  });
+  for (const constraint of constraints) {
+    if (constraint.type === 'f' && !withForeignKeys) continue;
+    definitions.push(`CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`);
+  }
+
+  return [
+    `CREATE TABLE ${table.qualifiedName} (\n${definitions.join(',\n')}\n)`,
+    ...indexes.map(index => index.definition),
+  ];
+}
+
+export async function foreignKeyStatements(db: Pool | PoolClient, table: ResolvedTable): Promise<string[]> {
+  const constraints = await readConstraints(db, table);
+  return constraints
+    .filter(constraint => constraint.type === 'f')
+    .map(constraint => `ALTER TABLE ${table.qualifiedName} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`);
+}
@@ -0,0 +1,171 @@
+import { ApiError } from './errors';
+import type { TableSchema } from './queries';
+
+// Problems with a row's values, by column
+export type FieldErrors = Record<string, string>;
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const SPECIAL_NUMBER_PATTERN = /^[-+]?(nan|infinity|inf)$/i;
+const UUID_PATTERN = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+const BOOLEAN_WORDS = ['true', 'false', 't', 'f', 'yes', 'no', 'y', 'n', 'on', 'off', '1', '0'];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?\s*(Z|[-+]\d{2}(:?\d{2})?)?$/i;
+const SPECIAL_DATE_WORDS = ['infinity', '-infinity', 'epoch', 'now', 'today', 'tomorrow', 'yesterday'];
+
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  int2: [-32768n, 32767n],
+  int4: [-2147483648n, 2147483647n],
+  int8: [-9223372036854775808n, 9223372036854775807n],
+};
+
+const UNKNOWN_COLUMN = 'is not a column of this table';
+
+const requiresValue = (column: TableSchema) =>
+  column.is_nullable === 'NO' && column.column_default === null && column.is_identity !== 'YES';
+
+// Check one non-null value against its column's type and declared limits.
+// Types not checked here are left for Postgres to judge.
+function checkValue(column: TableSchema, value: unknown): string | null {
+  const type = column.udt_name;
+
+  if (type === 'json' || type === 'jsonb') {
+    // Objects and arrays are sent as JSON; strings must already be JSON text
+    if (typeof value !== 'string') return null;
+    try {
+      JSON.parse(value);
+      return null;
+    } catch {
+      return 'must be valid JSON';
+    }
+  }
+  if (type.startsWith('_')) {
+    // Arrays, or a Postgres array literal such as {a,b}
+    return Array.isArray(value) || typeof value === 'string' ? null : 'must be an array';
+  }
+  if (typeof value === 'object') {
+    return 'must be a single value';
+  }
+
+  const text = String(value).trim();
+  if (type in INTEGER_RANGES) {
+    if (!INTEGER_PATTERN.test(text)) return 'must be a whole number';
+    const [min, max] = INTEGER_RANGES[type];
+    const number = BigInt(text);
+    return number < min || number > max ? `must be between ${min} and ${max}` : null;
+  }
+  if (type === 'numeric') {
+    if (SPECIAL_NUMBER_PATTERN.test(text)) return null;
+    if (!DECIMAL_PATTERN.test(text)) return 'must be a number';
+    const { numeric_precision: precision, numeric_scale: scale } = column;
+    if (precision !== null && !/e/i.test(text)) {
+      // Extra decimal places are rounded away; extra integer digits overflow
+      const integerDigits = text.replace(/^[-+]/, '').split('.')[0].replace(/^0+/, '').length;
+      const allowed = precision - (scale ?? 0);
+      if (integerDigits > allowed) {
+        return `must have at most ${allowed} digit${allowed === 1 ? '' : 's'} before the decimal point`;
+      }
+    }
+    return null;
+  }
+  if (type === 'float4' || type === 'float8') {
+    return DECIMAL_PATTERN.test(text) || SPECIAL_NUMBER_PATTERN.test(text) ? null : 'must be a number';
+  }
+  if (type === 'bool') {
+    return BOOLEAN_WORDS.includes(text.toLowerCase()) ? null : 'must be true or false';
+  }
+  if (type === 'uuid') {
+    return UUID_PATTERN.test(text) ? null : 'must be a UUID';
+  }
+  if (type === 'date' || type === 'timestamp' || type === 'timestamptz') {
+    // Postgres reads many more formats; anything Date can parse is let through
+    return ISO_DATE_PATTERN.test(text) || SPECIAL_DATE_WORDS.includes(text.toLowerCase()) || !isNaN(Date.parse(text))
+      ? null
+      : `must be a ${type === 'date' ? 'date' : 'date and time'}`;
+  }
+  if (column.enum_values) {
+    return column.enum_values.includes(String(value)) ? null : `must be one of ${column.enum_values.join(', ')}`;
+  }
+  if (column.character_maximum_length !== null && (type === 'varchar' || type === 'bpchar')) {
+    // Postgres counts characters, not UTF-16 code units
+    const length = [...String(value)].length;
+    const max = column.character_maximum_length;
+    return length > max ? `must be at most ${max} character${max === 1 ? '' : 's'}` : null;
+  }
+  return null;
+}
+
+// Check a row's values before writing them. On insert, columns that must
+// have a value and have no default are required; on update, only the
+// columns being changed are checked.
+export function rowFieldErrors(columns: TableSchema[], data: Record<string, any>, mode: 'insert' | 'update'): FieldErrors {
+  const errors: FieldErrors = {};
+  const byName = new Map(columns.map(column => [column.column_name, column]));
+
+  for (const [name, value] of Object.entries(data)) {
+    const column = byName.get(name);
+    if (!column) {
+      errors[name] = UNKNOWN_COLUMN;
+    } else if (value === null || value === undefined) {
+      // An explicit NULL is not replaced by the column's default
+      if (column.is_nullable === 'NO') {
+        errors[name] = 'is required';
+      }
+    } else {
+      const error = checkValue(column, value);
+      if (error) errors[name] = error;
+    }
+  }
+
+  if (mode === 'insert') {
+    for (const column of columns) {
+      if (!(column.column_name in data) && requiresValue(column)) {
+        errors[column.column_name] = 'is required';
+      }
+    }
+  }
+  return errors;
+}
+
+function invalidFields(fields: FieldErrors): ApiError {
+  const message = Object.entries(fields).map(([column, error]) => `${column} ${error}`).join('; ');
+  return new ApiError(422, message, { fields });
+}
+
+// Throw a 422 listing every invalid field, if there are any
+export function validateRow(columns: TableSchema[], data: Record<string, any>, mode: 'insert' | 'update'): void {
+  const fields = rowFieldErrors(columns, data, mode);
+  if (Object.keys(fields).length > 0) {
+    throw invalidFields(fields);
+  }
+}
+
+// Throw a 422 naming every column the table does not have, if there are any
+export function validateColumnNames(columns: TableSchema[], names: string[]): void {
+  const known = new Set(columns.map(column => column.column_name));
+  const fields: FieldErrors = Object.fromEntries(names.filter(name => !known.has(name)).map(name => [name, UNKNOWN_COLUMN]));
+  if (Object.keys(fields).length > 0) {
+    throw invalidFields(fields);
+  }
+}
+
+// Errors Postgres raises for values the checks above let through, such as a
+// duplicate key or a failed CHECK constraint, reported the same way. The
+// column is named when Postgres says which one it was.
+export function asValidationError(error: any): unknown {
+  const code = typeof error?.code === 'string' ? error.code : '';
+  // Class 22 is bad data, class 23 a violated constraint
+  if (!code.startsWith('22') && !code.startsWith('23')) {
+    return error;
+  }
+  const keyColumn = typeof error.detail === 'string' ? error.detail.match(/^Key \(([^,)]+)\)=/)?.[1] : undefined;
+  const column: string | undefined = error.column || keyColumn;
+  if (!column) {
+    return new ApiError(422, error.message, { fields: {} });
+  }
+
+  let message = error.message;
+  if (code === '23502') message = 'is required';
+  else if (code === '23505') message = 'must be unique; another row already has this value';
+  else if (code === '23503') message = 'must refer to an existing row';
+  return invalidFields({ [column]: message });
+}
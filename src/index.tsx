@@ -3,6 +3,15 @@ import { createRoot } from 'react-dom/client';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import SimpleCrudApp from './components/SimpleCrudApp';
 import NewTableCreator from './components/NewTableCreator';
+import ImportWizard from './components/ImportWizard';
+import TableStructureEditor from './components/TableStructureEditor';
+import AuditLog from './components/AuditLog';
+import AuthGate from './components/AuthGate';
+import UserAdmin from './components/UserAdmin';
+import ConnectionAdmin from './components/ConnectionAdmin';
+import SqlConsole from './components/SqlConsole';
+import SchemaTransfer from './components/SchemaTransfer';
+import TableProfile from './components/TableProfile';
 
 const container = document.getElementById('root');
 if (!container) {
@@ -13,10 +22,20 @@ const root = createRoot(container);
 root.render(
   <React.StrictMode>
     <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<SimpleCrudApp />} />
-        <Route path="/new-table" element={<NewTableCreator />} />
-      </Routes>
+      <AuthGate>
+        <Routes>
+          <Route path="/" element={<SimpleCrudApp />} />
+          <Route path="/new-table" element={<NewTableCreator />} />
+          <Route path="/sql" element={<SqlConsole />} />
+          <Route path="/schema" element={<SchemaTransfer />} />
+          <Route path="/tables/:tableName/import" element={<ImportWizard />} />
+          <Route path="/tables/:tableName/structure" element={<TableStructureEditor />} />
+          <Route path="/tables/:tableName/profile" element={<TableProfile />} />
+          <Route path="/audit" element={<AuditLog />} />
+          <Route path="/users" element={<UserAdmin />} />
+          <Route path="/connections" element={<ConnectionAdmin />} />
+        </Routes>
+      </AuthGate>
     </BrowserRouter>
   </React.StrictMode>
 );
@@ -0,0 +1,53 @@
+// Lists, applies and rolls back the migration files in the migrations
+// directory, for setting up databases outside the app.
+//
+//   bun run migrate [status|up|down] [--connection NAME] [--to VERSION]
+//
+// up applies every pending migration (up to and including --to); down rolls
+// back the latest one (or every one after --to).
+import os from 'os';
+import { DEFAULT_CONNECTION, runWithConnection } from './database/connection';
+import { loadConnections } from './database/connections';
+import { ApiError } from './database/errors';
+import { MIGRATIONS_DIR, applyMigrations, listMigrations, rollbackMigrations, validateVersion } from './database/migrations';
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function run(command: string, target: string | undefined): Promise<void> {
+  const actor = `${os.userInfo().username} (command line)`;
+  if (command === 'status') {
+    const migrations = await listMigrations();
+    if (migrations.length === 0) {
+      console.log(`No migrations in ${MIGRATIONS_DIR}`);
+    }
+    for (const migration of migrations) {
+      const state = migration.missing ? 'applied, file missing' : migration.applied ? 'applied' : 'pending';
+      console.log(`${migration.version}  ${migration.name.padEnd(40)}  ${state}`);
+    }
+  } else if (command === 'up') {
+    const applied = await applyMigrations(actor, target);
+    console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'No pending migrations');
+  } else if (command === 'down') {
+    const rolledBack = await rollbackMigrations(actor, target);
+    console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.join(', ')}` : 'No migrations to roll back');
+  } else {
+    throw new ApiError(400, `Unknown command "${command}"; use status, up or down`);
+  }
+}
+
+async function main() {
+  const command = process.argv[2] && !process.argv[2].startsWith('--') ? process.argv[2] : 'status';
+  const target = validateVersion(option('to'));
+  await loadConnections();
+  await runWithConnection(option('connection') ?? DEFAULT_CONNECTION, () => run(command, target));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error instanceof ApiError ? error.message : error);
+    process.exit(1);
+  });
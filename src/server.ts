@@ -1,124 +1,991 @@
 import express from 'express';
-import { getAllTables, getTableSchema, getTableData, insertRow, updateRow, deleteRow, createTable, deleteTable } from './database/queries';
+import { getAllTables, getTableSchema, getTableData, insertRow, insertRows, updateRow, deleteRow, softDeleteRow, runBulkAction, createTable, deleteTable, refreshMaterializedView, BULK_ACTIONS, BulkAction, BulkSelection, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, RowQueryOptions } from './database/queries';
+import { EXPORT_FORMATS, exportTable, isExportFormat } from './database/export';
+import { alterTable, getTableStructure } from './database/structure';
+import { createIndex, dropIndex, listIndexes } from './database/indexes';
+import { getTableProfile } from './database/profile';
+import { getLookupOptions, setDisplayColumn } from './database/foreignKeys';
+import { parseFilterGroup } from './database/filters';
+import { getLiveUpdates, setLiveUpdates, subscribeToTable } from './database/notifications';
+import { enableSoftDelete, getSoftDeleteSettings, purgeExpiredRows, setRetention } from './database/softDelete';
+import { createSavedView, deleteSavedView, listSavedViews, setDefaultView, updateSavedView } from './database/savedViews';
+import { SCHEMA_EXPORT_FORMATS, SchemaExportFormat, cloneTable, exportSchemaDocument, exportSchemaSql, importSchema } from './database/schemaTransfer';
+import { applyMigrations, listMigrations, rollbackMigrations, validateVersion } from './database/migrations';
+import { clearQueryHistory, getQueryHistory, runConsoleQuery } from './database/sqlConsole';
+import { DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE, getAuditEntry, getAuditLog, revertChange } from './database/audit';
+import {
+  AuthUser,
+  SESSION_TTL_HOURS,
+  TableAccess,
+  createUser,
+  deleteUser,
+  getSessionUser,
+  getTableAccess,
+  getTableAccessMap,
+  getTablePermissions,
+  hasAccess,
+  isSetupRequired,
+  listUsers,
+  login,
+  logout,
+  setTablePermission,
+  setupFirstAdmin,
+  updateUser,
+} from './database/auth';
+import { ApiError } from './database/errors';
+import { DEFAULT_CONNECTION, currentConnection, getConnectionProfile, listConnectionProfiles, requireWritableConnection, runWithConnection } from './database/connection';
+import { createConnection, deleteConnection, getConnection, listConnections, loadConnections, updateConnection } from './database/connections';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set for every API request except the auth routes
+      user?: AuthUser;
+    }
+  }
+}
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(express.json());
+// Bulk imports send whole files as JSON, so allow larger bodies than the default
+app.use(express.json({ limit: '25mb' }));
 app.use(express.static('dist'));
 app.use(express.static('src')); // Also serve from src for development
 
+// Send an ApiError with its own status, anything else as a 500
+function sendError(res: express.Response, error: unknown, message: string) {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ error: error.message, details: error.details });
+  }
+  console.error(`${message}:`, error);
+  return res.status(500).json({ 
+    error: message, 
+    details: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// Who to record in the audit log for a request
+function requestActor(req: express.Request): string {
+  return req.user!.username;
+}
+
+const SESSION_COOKIE = 'tomulator_session';
+// The connection picked in the switcher. Readable by the page, so other tabs
+// can tell when it changes.
+const CONNECTION_COOKIE = 'tomulator_connection';
+
+function readCookie(req: express.Request, cookieName: string): string | undefined {
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === cookieName) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+function readSessionToken(req: express.Request): string | undefined {
+  return readCookie(req, SESSION_COOKIE);
+}
+
+function setSessionCookie(res: express.Response, token: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL_HOURS * 60 * 60 * 1000,
+  });
+}
+
+// Load the signed-in user for every API request. Only the auth routes can
+// be used without one.
+app.use('/api', async (req, res, next) => {
+  try {
+    const token = readSessionToken(req);
+    const user = token ? await getSessionUser(token) : null;
+    if (user) {
+      req.user = user;
+    } else if (!req.path.startsWith('/auth/')) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    next();
+  } catch (error) {
+    sendError(res, error, 'Failed to check session');
+  }
+});
+
+const connectionsLoaded = loadConnections().catch(error => console.error('Failed to load connections:', error));
+
+// Run the rest of every API request against the connection picked in the
+// switcher, or the default one if that has since been removed
+app.use('/api', async (req, _res, next) => {
+  await connectionsLoaded;
+  const name = readCookie(req, CONNECTION_COOKIE);
+  runWithConnection(name && getConnectionProfile(name) ? name : DEFAULT_CONNECTION, next);
+});
+
+// Route guard: the signed-in user needs at least this access to :tableName
+function requireTableAccess(required: TableAccess): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const { tableName } = req.params;
+      const access = await getTableAccess(req.user!, tableName);
+      if (!hasAccess(access, required)) {
+        const connection = currentConnection();
+        return res.status(403).json({
+          error: connection.readOnly && hasAccess(required, 'write')
+            ? `Connection "${connection.name}" is read-only`
+            : `You do not have ${required} access to table "${tableName}"`
+        });
+      }
+      next();
+    } catch (error) {
+      sendError(res, error, 'Failed to check permissions');
+    }
+  };
+}
+
+// Route guard for user management and creating tables
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ error: 'Only admins can do this' });
+  }
+  next();
+};
+
+// Parse the search, filter and sort query parameters shared by the data and
+// export endpoints: sort, direction, search, hideDeleted, deleted (only the
+// soft-deleted rows), filter[column]=value and where
+function parseRowQueryOptions(query: express.Request['query']): RowQueryOptions {
+  const { sort, direction, search, hideDeleted, deleted, filter, where } = query;
+  if (direction !== undefined && direction !== 'asc' && direction !== 'desc') {
+    throw new ApiError(400, 'direction must be "asc" or "desc"');
+  }
+
+  const filters: Record<string, string> = {};
+  if (filter && typeof filter === 'object' && !Array.isArray(filter)) {
+    for (const [column, value] of Object.entries(filter)) {
+      filters[column] = String(value);
+    }
+  }
+
+  // where is a filter builder group, as JSON
+  let whereGroup;
+  if (where !== undefined) {
+    try {
+      whereGroup = JSON.parse(String(where));
+    } catch {
+      throw new ApiError(400, 'where must be JSON');
+    }
+  }
+
+  return {
+    sortColumn: sort ? String(sort) : undefined,
+    sortDirection: direction,
+    search: search ? String(search) : undefined,
+    filters,
+    where: whereGroup !== undefined ? parseFilterGroup(whereGroup) : undefined,
+    hideDeleted: hideDeleted === 'true',
+    onlyDeleted: deleted === 'true',
+  };
+}
+
+// Auth routes. The session reports setupRequired while no users exist, in
+// which case setup creates the first admin and signs them in.
+app.get('/api/auth/session', async (req, res) => {
+  try {
+    const user = req.user ? { username: req.user.username, role: req.user.role } : null;
+    res.json({ user, setupRequired: await isSetupRequired() });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch session');
+  }
+});
+
+app.post('/api/auth/setup', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    await setupFirstAdmin(username, password);
+    const session = await login(username, password);
+    setSessionCookie(res, session.token);
+    res.json({ username: session.user.username, role: session.user.role });
+  } catch (error) {
+    sendError(res, error, 'Failed to complete setup');
+  }
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    const session = await login(username, password);
+    setSessionCookie(res, session.token);
+    res.json({ username: session.user.username, role: session.user.role });
+  } catch (error) {
+    sendError(res, error, 'Failed to sign in');
+  }
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const token = readSessionToken(req);
+    if (token) {
+      await logout(token);
+    }
+    res.clearCookie(SESSION_COOKIE);
+    res.json({ message: 'Signed out' });
+  } catch (error) {
+    sendError(res, error, 'Failed to sign out');
+  }
+});
+
+// User management, admins only
+app.get('/api/users', requireAdmin, async (_req, res) => {
+  try {
+    res.json(await listUsers());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch users');
+  }
+});
+
+app.post('/api/users', requireAdmin, async (req, res) => {
+  try {
+    const { username, password, role } = req.body;
+    const user = await createUser(username, password, role);
+    res.json({ username: user.username, role: user.role });
+  } catch (error) {
+    sendError(res, error, 'Failed to create user');
+  }
+});
+
+// Body: { role, password }, either optional
+app.put('/api/users/:username', requireAdmin, async (req, res) => {
+  try {
+    const { role, password } = req.body;
+    const user = await updateUser(req.params.username, { role, password });
+    res.json({ username: user.username, role: user.role });
+  } catch (error) {
+    sendError(res, error, 'Failed to update user');
+  }
+});
+
+app.delete('/api/users/:username', requireAdmin, async (req, res) => {
+  try {
+    await deleteUser(req.params.username);
+    res.json({ message: `User "${req.params.username}" deleted successfully` });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete user');
+  }
+});
+
+// Per-table permissions that override a user's role
+app.get('/api/tables/:tableName/permissions', requireAdmin, async (req, res) => {
+  try {
+    res.json(await getTablePermissions(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch table permissions');
+  }
+});
+
+// Body: { username, access }, with access null to fall back to the role
+app.put('/api/tables/:tableName/permissions', requireAdmin, async (req, res) => {
+  try {
+    const { username, access } = req.body;
+    if (typeof username !== 'string' || !username) {
+      return res.status(400).json({ error: 'username is required' });
+    }
+    await setTablePermission(req.params.tableName, username, access ?? null);
+    res.json(await getTablePermissions(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to set table permission');
+  }
+});
+
+// Connections the user can switch between, and the one this request used.
+// Only admins see their URLs.
+app.get('/api/connections', (req, res) => {
+  const isAdmin = req.user!.role === 'admin';
+  res.json({
+    current: currentConnection().name,
+    connections: listConnections().map(connection => isAdmin ? connection : { ...connection, url: '' }),
+  });
+});
+
+// Switch this browser to another connection
+app.post('/api/connections/:name/select', (req, res) => {
+  try {
+    const connection = getConnection(req.params.name);
+    res.cookie(CONNECTION_COOKIE, connection.name, {
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+    });
+    res.json({ ...connection, url: '' });
+  } catch (error) {
+    sendError(res, error, 'Failed to switch connection');
+  }
+});
+
+// Add a connection. Body: { name, url, readOnly, color }
+app.post('/api/connections', requireAdmin, async (req, res) => {
+  try {
+    res.json(await createConnection(req.body));
+  } catch (error) {
+    sendError(res, error, 'Failed to add connection');
+  }
+});
+
+// Change a connection added in the app. Body: any of { url, readOnly, color }
+app.put('/api/connections/:name', requireAdmin, async (req, res) => {
+  try {
+    res.json(await updateConnection(req.params.name, req.body));
+  } catch (error) {
+    sendError(res, error, 'Failed to update connection');
+  }
+});
+
+app.delete('/api/connections/:name', requireAdmin, async (req, res) => {
+  try {
+    await deleteConnection(req.params.name);
+    res.json({ message: `Connection "${req.params.name}" deleted` });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete connection');
+  }
+});
+
+// Run SQL from the console (admins only, since it is not limited by table
+// permissions). Body: { sql, readOnly, timeoutSeconds, maxRows }
+app.post('/api/sql', requireAdmin, async (req, res) => {
+  try {
+    const { sql, readOnly, timeoutSeconds, maxRows } = req.body;
+    res.json(await runConsoleQuery(sql, { readOnly, timeoutSeconds, maxRows }, req.user!.username));
+  } catch (error) {
+    sendError(res, error, 'Failed to run query');
+  }
+});
+
+app.get('/api/sql/history', requireAdmin, async (req, res) => {
+  try {
+    res.json(await getQueryHistory(req.user!.username));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch query history');
+  }
+});
+
+app.delete('/api/sql/history', requireAdmin, async (req, res) => {
+  try {
+    await clearQueryHistory(req.user!.username);
+    res.json({ message: 'Query history cleared' });
+  } catch (error) {
+    sendError(res, error, 'Failed to clear query history');
+  }
+});
+
+// Migration files recorded from schema changes, and whether each has been
+// applied to the current connection
+app.get('/api/migrations', requireAdmin, async (_req, res) => {
+  try {
+    res.json(await listMigrations());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch migrations');
+  }
+});
+
+// Apply pending migrations. Body: { to } to stop at a version
+app.post('/api/migrations/apply', requireAdmin, async (req, res) => {
+  try {
+    res.json({ applied: await applyMigrations(requestActor(req), validateVersion(req.body?.to)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to apply migrations');
+  }
+});
+
+// Roll back the latest migration. Body: { to } to roll back every one after a version
+app.post('/api/migrations/rollback', requireAdmin, async (req, res) => {
+  try {
+    res.json({ rolledBack: await rollbackMigrations(requestActor(req), validateVersion(req.body?.to)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to roll back migrations');
+  }
+});
+
 // API Routes
+// Tables the user can see, each with their access level
 app.get('/api/tables', async (req, res) => {
   try {
     const tables = await getAllTables();
-    res.json(tables);
+    const access = await getTableAccessMap(req.user!, tables.map(table => table.name));
+    res.json(tables
+      .filter(table => access[table.name] !== 'none')
+      .map(table => ({ ...table, access: access[table.name] })));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch tables' });
+    sendError(res, error, 'Failed to fetch tables');
   }
 });
 
-app.get('/api/tables/:tableName/schema', async (req, res) => {
+app.get('/api/tables/:tableName/schema', requireTableAccess('read'), async (req, res) => {
   try {
     const { tableName } = req.params;
     const schema = await getTableSchema(tableName);
     res.json(schema);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch table schema' });
+    sendError(res, error, 'Failed to fetch table schema');
+  }
+});
+
+// Rows a foreign key column can reference. Query parameters: search, or
+// values (repeated) to fetch the labels of specific keys
+app.get('/api/tables/:tableName/columns/:columnName/lookup', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { tableName, columnName } = req.params;
+    const { search, values } = req.query;
+
+    if (search !== undefined && typeof search !== 'string') {
+      return res.status(400).json({ error: 'search must be a string' });
+    }
+    const valueList = values === undefined ? undefined : [values].flat();
+    if (valueList && !valueList.every(value => typeof value === 'string')) {
+      return res.status(400).json({ error: 'values must be strings' });
+    }
+
+    const result = await getLookupOptions(tableName, columnName, {
+      search,
+      values: valueList as string[] | undefined,
+      canRead: async (referenced) => hasAccess(await getTableAccess(req.user!, referenced), 'read'),
+    });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch lookup options');
+  }
+});
+
+// How the table soft deletes rows, and how long deleted rows are kept
+app.get('/api/tables/:tableName/soft-delete', requireTableAccess('read'), async (req, res) => {
+  try {
+    res.json(await getSoftDeleteSettings(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch soft delete settings');
+  }
+});
+
+// Turn on soft delete, adding or converting the table's columns. Body: { mode }
+// with mode "flag" (an is_deleted boolean) or "timestamp" (deleted_at and
+// deleted_by).
+app.post('/api/tables/:tableName/soft-delete', requireTableAccess('admin'), async (req, res) => {
+  try {
+    res.json(await enableSoftDelete(req.params.tableName, req.body.mode, requestActor(req)));
+  } catch (error) {
+    sendError(res, error, 'Failed to turn on soft delete');
+  }
+});
+
+// Body: { retentionDays }, or { retentionDays: null } to keep deleted rows
+app.put('/api/tables/:tableName/soft-delete/retention', requireTableAccess('admin'), async (req, res) => {
+  try {
+    res.json(await setRetention(req.params.tableName, req.body.retentionDays ?? null));
+  } catch (error) {
+    sendError(res, error, 'Failed to set retention');
+  }
+});
+
+// Choose the column used to label this table's rows in lookups
+app.put('/api/tables/:tableName/display-column', requireTableAccess('admin'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    const { column } = req.body;
+
+    if (typeof column !== 'string' || !column) {
+      return res.status(400).json({ error: 'column is required' });
+    }
+
+    await setDisplayColumn(tableName, column);
+    res.json({ table: tableName, displayColumn: column });
+  } catch (error) {
+    sendError(res, error, 'Failed to set display column');
+  }
+});
+
+// Query parameters: limit, offset or cursor, plus the shared search, filter
+// and sort parameters
+app.get('/api/tables/:tableName/data', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    const { limit, offset, cursor } = req.query;
+
+    const parsedLimit = limit !== undefined ? parseInt(String(limit), 10) : DEFAULT_PAGE_SIZE;
+    const parsedOffset = offset !== undefined ? parseInt(String(offset), 10) : 0;
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+    if (isNaN(parsedOffset) || parsedOffset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const page = await getTableData(tableName, {
+      ...parseRowQueryOptions(req.query),
+      limit: parsedLimit,
+      offset: parsedOffset,
+      cursor: cursor ? String(cursor) : undefined,
+    });
+    res.json(page);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch table data');
   }
 });
 
-app.get('/api/tables/:tableName/data', async (req, res) => {
+// Stream the whole table as a download. Query parameters: format (csv, json,
+// ndjson or sql) plus the shared search, filter and sort parameters.
+app.get('/api/tables/:tableName/export', requireTableAccess('read'), async (req, res) => {
   try {
     const { tableName } = req.params;
-    const data = await getTableData(tableName);
-    res.json(data);
+    const format = req.query.format || 'csv';
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ error: `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+
+    const options = parseRowQueryOptions(req.query);
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${tableName.replace(/[^\w.-]/g, '_')}.${extension}"`);
+
+    // Stop reading from the database if the browser goes away
+    let aborted = false;
+    res.on('close', () => { aborted = !res.writableEnded; });
+
+    await exportTable(tableName, format, options, async (chunk) => {
+      if (aborted) {
+        throw new Error('Export aborted by client');
+      }
+      if (!res.write(chunk)) {
+        await new Promise<void>(resolve => {
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        });
+      }
+    });
+    res.end();
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch table data' });
+    if (res.headersSent) {
+      // Part of the file has already been sent, so the error cannot be reported
+      console.error('Export error:', error);
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    sendError(res, error, 'Failed to export table data');
   }
 });
 
-app.post('/api/tables/:tableName/rows', async (req, res) => {
+// Saved grid views: the user's own and those shared with the team
+app.get('/api/tables/:tableName/views', requireTableAccess('read'), async (req, res) => {
+  try {
+    res.json(await listSavedViews(req.user!, req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch saved views');
+  }
+});
+
+// Body: { name, shared, settings }
+app.post('/api/tables/:tableName/views', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { name, shared, settings } = req.body;
+    res.status(201).json(await createSavedView(req.user!, req.params.tableName, { name, shared, settings }));
+  } catch (error) {
+    sendError(res, error, 'Failed to save view');
+  }
+});
+
+// Body: any of { name, shared, settings }. Owners and admins only.
+app.put('/api/tables/:tableName/views/:id', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { name, shared, settings } = req.body;
+    res.json(await updateSavedView(req.user!, req.params.tableName, Number(req.params.id), { name, shared, settings }));
+  } catch (error) {
+    sendError(res, error, 'Failed to update view');
+  }
+});
+
+app.delete('/api/tables/:tableName/views/:id', requireTableAccess('read'), async (req, res) => {
+  try {
+    await deleteSavedView(req.user!, req.params.tableName, Number(req.params.id));
+    res.json({ message: 'View deleted successfully' });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete view');
+  }
+});
+
+// Body: { viewId }, or { viewId: null } to open the table without a view
+app.put('/api/tables/:tableName/default-view', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { viewId } = req.body;
+    if (viewId !== null && !Number.isInteger(viewId)) {
+      return res.status(400).json({ error: 'viewId must be a view id or null' });
+    }
+    await setDefaultView(req.user!, req.params.tableName, viewId);
+    res.json(await listSavedViews(req.user!, req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to set default view');
+  }
+});
+
+// Stream changes to the table's rows as Server-Sent Events. Each message is
+// JSON: { type: 'changes', changes } listing inserted, updated and deleted
+// rows, or { type: 'reload' } when too much changed at once.
+const CHANGE_STREAM_HEARTBEAT_MS = 25000;
+
+app.get('/api/tables/:tableName/changes', requireTableAccess('read'), async (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), CHANGE_STREAM_HEARTBEAT_MS);
+  // The client may leave before the subscription is made
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+
+  try {
+    const stop = await subscribeToTable(req.params.tableName, message => {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    });
+    if (closed) {
+      stop();
+    } else {
+      unsubscribe = stop;
+    }
+  } catch (error) {
+    // The headers are sent, so the stream is ended and the browser retries
+    console.error('Failed to subscribe to table changes:', error);
+    res.end();
+  }
+});
+
+// Whether the table's open grids update live
+app.get('/api/tables/:tableName/live-updates', requireTableAccess('read'), async (req, res) => {
+  try {
+    res.json(await getLiveUpdates(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch live updates setting');
+  }
+});
+
+// Body: { enabled }. Installs or removes the triggers that send the table's
+// row changes.
+app.put('/api/tables/:tableName/live-updates', requireTableAccess('admin'), async (req, res) => {
+  try {
+    res.json(await setLiveUpdates(req.params.tableName, req.body.enabled));
+  } catch (error) {
+    sendError(res, error, 'Failed to change live updates');
+  }
+});
+
+app.post('/api/tables/:tableName/rows', requireTableAccess('write'), async (req, res) => {
   try {
     const { tableName } = req.params;
     const data = req.body;
-    const newRow = await insertRow(tableName, data);
+    const newRow = await insertRow(tableName, data, requestActor(req));
     res.json(newRow);
   } catch (error) {
-    console.error('Insert error:', error);
-    res.status(500).json({ 
-      error: 'Failed to insert row', 
-      details: error instanceof Error ? error.message : 'Unknown error'
+    sendError(res, error, 'Failed to insert row');
+  }
+});
+
+// Insert many rows in one transaction. Body: { rows, dryRun, rollbackOnError }.
+// Responds with counts of inserted and rejected rows and a per-row error list.
+app.post('/api/tables/:tableName/rows/bulk', requireTableAccess('write'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    const { rows, dryRun, rollbackOnError } = req.body;
+    if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+      return res.status(400).json({ error: 'rows must be an array of objects' });
+    }
+
+    const result = await insertRows(tableName, rows, requestActor(req), {
+      dryRun: dryRun === true,
+      rollbackOnError: rollbackOnError === true,
     });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to import rows');
   }
 });
 
-app.put('/api/tables/:tableName/rows/:id', async (req, res) => {
+// Apply one action to many rows in one transaction. Body: { action, selection,
+// column, value } where action is soft-delete, restore, hard-delete or set
+// (column to value), and selection is { keys } or { matching: { search,
+// filters, where, hideDeleted, deleted } }. Responds with the number of rows affected.
+app.post('/api/tables/:tableName/rows/bulk-action', requireTableAccess('write'), async (req, res) => {
   try {
-    const { tableName, id } = req.params;
+    const { tableName } = req.params;
+    const { action, selection, column, value } = req.body;
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${BULK_ACTIONS.join(', ')}` });
+    }
+    if (!selection || typeof selection !== 'object') {
+      return res.status(400).json({ error: 'selection is required' });
+    }
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return res.status(400).json({ error: 'value must be a string or null' });
+    }
+
+    const bulkSelection: BulkSelection = {};
+    if (selection.keys !== undefined) {
+      if (!Array.isArray(selection.keys) || !selection.keys.every((key: unknown) => typeof key === 'string')) {
+        return res.status(400).json({ error: 'selection.keys must be an array of row keys' });
+      }
+      bulkSelection.keys = selection.keys;
+    } else if (selection.matching && typeof selection.matching === 'object') {
+      const { search, filters, where, hideDeleted, deleted } = selection.matching;
+      bulkSelection.matching = {
+        search: typeof search === 'string' ? search : undefined,
+        filters: filters && typeof filters === 'object'
+          ? Object.fromEntries(Object.entries(filters).map(([name, filter]) => [name, String(filter)]))
+          : {},
+        where: where ? parseFilterGroup(where) : undefined,
+        hideDeleted: hideDeleted === true,
+        onlyDeleted: deleted === true,
+      };
+    }
+
+    const result = await runBulkAction(tableName, action as BulkAction, bulkSelection, requestActor(req), { column, value });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to apply bulk action');
+  }
+});
+
+// Rows are addressed by primary key: the raw value for single-column keys,
+// a JSON array in column order for composite keys
+app.put('/api/tables/:tableName/rows/:key', requireTableAccess('write'), async (req, res) => {
+  try {
+    const { tableName, key } = req.params;
     const data = req.body;
-    const updatedRow = await updateRow(tableName, parseInt(id), data);
+    const updatedRow = await updateRow(tableName, key, data, requestActor(req));
+    if (!updatedRow) {
+      return res.status(404).json({ error: 'Row not found' });
+    }
     res.json(updatedRow);
   } catch (error) {
-    console.error('Update error:', error);
-    res.status(500).json({ 
-      error: 'Failed to update row', 
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+    sendError(res, error, 'Failed to update row');
   }
 });
 
-app.delete('/api/tables/:tableName/rows/:id', async (req, res) => {
+// Soft delete a row, responding with the updated row. Tables without soft
+// delete turned on are rejected rather than hard deleted.
+app.delete('/api/tables/:tableName/rows/:key', requireTableAccess('write'), async (req, res) => {
   try {
-    const { tableName, id } = req.params;
-    const success = await deleteRow(tableName, parseInt(id));
-    if (success) {
-      res.json({ message: 'Row deleted successfully' });
-    } else {
-      res.status(404).json({ error: 'Row not found' });
+    const { tableName, key } = req.params;
+    const row = await softDeleteRow(tableName, key, requestActor(req), true);
+    if (!row) {
+      return res.status(404).json({ error: 'Row not found' });
+    }
+    res.json(row);
+  } catch (error) {
+    sendError(res, error, 'Failed to delete row');
+  }
+});
+
+// Bring a soft-deleted row back
+app.post('/api/tables/:tableName/rows/:key/restore', requireTableAccess('write'), async (req, res) => {
+  try {
+    const { tableName, key } = req.params;
+    const row = await softDeleteRow(tableName, key, requestActor(req), false);
+    if (!row) {
+      return res.status(404).json({ error: 'Row not found' });
     }
+    res.json(row);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to delete row' });
+    sendError(res, error, 'Failed to restore row');
   }
 });
 
 // Hard delete endpoint - permanently removes row from database
-app.delete('/api/tables/:tableName/rows/:id/hard-delete', async (req, res) => {
+app.delete('/api/tables/:tableName/rows/:key/hard-delete', requireTableAccess('write'), async (req, res) => {
   try {
-    const { tableName, id } = req.params;
-    const success = await deleteRow(tableName, parseInt(id), true); // true for hard delete
+    const { tableName, key } = req.params;
+    const success = await deleteRow(tableName, key, requestActor(req));
     if (success) {
       res.json({ message: 'Row permanently deleted successfully' });
     } else {
       res.status(404).json({ error: 'Row not found' });
     }
   } catch (error) {
-    res.status(500).json({ error: 'Failed to permanently delete row' });
+    sendError(res, error, 'Failed to permanently delete row');
   }
 });
 
-// Create new table endpoint
-app.post('/api/tables/create', async (req, res) => {
+// Create new table endpoint. Body: { tableName, columns, constraints,
+// indexes, dryRun }; a dry run returns the statements without running them.
+app.post('/api/tables/create', requireAdmin, async (req, res) => {
   try {
-    const { tableName, columns } = req.body;
+    const { tableName, columns, constraints, indexes, dryRun } = req.body;
+    requireWritableConnection();
     
     if (!tableName || !columns || !Array.isArray(columns)) {
       return res.status(400).json({ error: 'Invalid request data' });
     }
     
-    await createTable(tableName, columns);
-    res.json({ message: `Table "${tableName}" created successfully` });
+    const statements = await createTable(tableName, columns, requestActor(req), { constraints, indexes, dryRun: dryRun === true });
+    if (dryRun === true) {
+      return res.json({ statements });
+    }
+    res.json({ message: `Table "${tableName}" created successfully`, statements });
+  } catch (error) {
+    sendError(res, error, 'Failed to create table');
+  }
+});
+
+// Copy a table's structure, and its rows with withData, to a new table in
+// the same schema. Body: { newName, withData }
+app.post('/api/tables/:tableName/clone', requireAdmin, async (req, res) => {
+  try {
+    requireWritableConnection();
+    const { newName, withData } = req.body;
+    const name = await cloneTable(req.params.tableName, newName, withData === true, requestActor(req));
+    res.json({ message: `Table "${req.params.tableName}" copied to "${name}"`, tableName: name });
+  } catch (error) {
+    sendError(res, error, 'Failed to clone table');
+  }
+});
+
+// Table definitions as a JSON document of column definitions, constraints
+// and indexes, or as a DDL script. Query parameters: tables (comma-separated
+// or repeated) and format
+app.get('/api/schema/export', async (req, res) => {
+  try {
+    const format = (req.query.format || 'json') as SchemaExportFormat;
+    if (!SCHEMA_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${SCHEMA_EXPORT_FORMATS.join(', ')}` });
+    }
+    const tables = [req.query.tables].flat().flatMap(value => typeof value === 'string' ? value.split(',') : []);
+    for (const table of tables) {
+      if (table.trim() !== '' && !hasAccess(await getTableAccess(req.user!, table.trim()), 'read')) {
+        return res.status(403).json({ error: `You do not have read access to table "${table.trim()}"` });
+      }
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="schema.${format}"`);
+    if (format === 'sql') {
+      res.type('application/sql').send(await exportSchemaSql(tables));
+    } else {
+      res.json(await exportSchemaDocument(tables));
+    }
+  } catch (error) {
+    res.removeHeader('Content-Disposition');
+    sendError(res, error, 'Failed to export schema');
+  }
+});
+
+// Create the tables of an exported JSON document. Body: { document, dryRun }.
+// A dry run returns the statements without running them.
+app.post('/api/schema/import', requireAdmin, async (req, res) => {
+  try {
+    requireWritableConnection();
+    const { document, dryRun } = req.body;
+    res.json(await importSchema(document, requestActor(req), dryRun === true));
   } catch (error) {
-    console.error('Create table error:', error);
-    res.status(500).json({ 
-      error: 'Failed to create table', 
-      details: error instanceof Error ? error.message : 'Unknown error'
+    sendError(res, error, 'Failed to import schema');
+  }
+});
+
+// Table structure as the column definitions used by the table editor
+app.get('/api/tables/:tableName/structure', requireTableAccess('read'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    const columns = await getTableStructure(tableName);
+    res.json(columns);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch table structure');
+  }
+});
+
+// Alter table endpoint. Body: { columns, dryRun, statements }. A dry run only
+// returns the generated DDL; statements is the DDL the user reviewed.
+app.post('/api/tables/:tableName/alter', requireTableAccess('admin'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    const { columns, dryRun, statements } = req.body;
+    
+    if (!Array.isArray(columns)) {
+      return res.status(400).json({ error: 'Invalid request data' });
+    }
+    
+    const result = await alterTable(tableName, columns, requestActor(req), {
+      dryRun: dryRun === true,
+      expectedStatements: Array.isArray(statements) ? statements : undefined,
     });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to alter table');
+  }
+});
+
+// Row count, size, maintenance statistics and a profile of each column
+app.get('/api/tables/:tableName/profile', requireTableAccess('read'), async (req, res) => {
+  try {
+    res.json(await getTableProfile(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to profile table');
+  }
+});
+
+// The table's indexes with their size and how often they were scanned
+app.get('/api/tables/:tableName/indexes', requireTableAccess('read'), async (req, res) => {
+  try {
+    res.json(await listIndexes(req.params.tableName));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch indexes');
+  }
+});
+
+// Create an index. Body: { name, columns, method, unique, where,
+// concurrently, dryRun }; a dry run only returns the statement.
+app.post('/api/tables/:tableName/indexes', requireTableAccess('admin'), async (req, res) => {
+  try {
+    const { name, columns, method, unique, where, concurrently, dryRun } = req.body;
+    const result = await createIndex(req.params.tableName, {
+      name: typeof name === 'string' ? name : undefined,
+      columns,
+      method,
+      unique: unique === true,
+      where,
+      concurrently: concurrently === true,
+      dryRun: dryRun === true,
+    }, requestActor(req));
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to create index');
+  }
+});
+
+// Drop an index. Query parameters: concurrently=true, dryRun=true
+app.delete('/api/tables/:tableName/indexes/:indexName', requireTableAccess('admin'), async (req, res) => {
+  try {
+    const result = await dropIndex(req.params.tableName, req.params.indexName, requestActor(req), {
+      concurrently: req.query.concurrently === 'true',
+      dryRun: req.query.dryRun === 'true',
+    });
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to drop index');
   }
 });
 
 // Delete table endpoint
-app.delete('/api/tables/:tableName', async (req, res) => {
+app.delete('/api/tables/:tableName', requireTableAccess('admin'), async (req, res) => {
   try {
     const { tableName } = req.params;
     
@@ -126,14 +993,78 @@ app.delete('/api/tables/:tableName', async (req, res) => {
       return res.status(400).json({ error: 'Table name is required' });
     }
     
-    await deleteTable(tableName);
+    await deleteTable(tableName, requestActor(req));
     res.json({ message: `Table "${tableName}" deleted successfully` });
   } catch (error) {
-    console.error('Delete table error:', error);
-    res.status(500).json({ 
-      error: 'Failed to delete table', 
-      details: error instanceof Error ? error.message : 'Unknown error'
+    sendError(res, error, 'Failed to delete table');
+  }
+});
+
+// Re-run a materialized view's query
+app.post('/api/tables/:tableName/refresh', requireTableAccess('write'), async (req, res) => {
+  try {
+    const { tableName } = req.params;
+    await refreshMaterializedView(tableName, requestActor(req));
+    res.json({ message: `"${tableName}" refreshed` });
+  } catch (error) {
+    sendError(res, error, 'Failed to refresh materialized view');
+  }
+});
+
+// Audit log, newest first. Query parameters: table, key (a row key, with
+// table), limit, and beforeId from nextBeforeId for older entries
+app.get('/api/audit', async (req, res) => {
+  try {
+    const { table, key, limit, beforeId } = req.query;
+    const pageSize = limit === undefined ? DEFAULT_AUDIT_PAGE_SIZE : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_AUDIT_PAGE_SIZE) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}` });
+    }
+    if (beforeId !== undefined && !/^\d+$/.test(String(beforeId))) {
+      return res.status(400).json({ error: 'beforeId must be an audit entry id' });
+    }
+
+    // Table history needs read access to the table; the whole log is for admins
+    if (table) {
+      if (!hasAccess(await getTableAccess(req.user!, String(table)), 'read')) {
+        return res.status(403).json({ error: `You do not have read access to table "${table}"` });
+      }
+    } else if (req.user!.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admins can browse the history of all tables' });
+    }
+
+    const page = await getAuditLog({
+      table: table ? String(table) : undefined,
+      key: key !== undefined ? String(key) : undefined,
+      limit: pageSize,
+      beforeId: beforeId !== undefined ? String(beforeId) : undefined,
     });
+    res.json(page);
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch audit log');
+  }
+});
+
+// Restore the row image from before an audited change. Body: { force } to
+// revert even if the row was changed again since. Responds with the new
+// audit entry recording the revert.
+app.post('/api/audit/:id/revert', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!/^\d+$/.test(id)) {
+      return res.status(400).json({ error: 'Invalid audit entry id' });
+    }
+
+    requireWritableConnection();
+    const { table_name } = await getAuditEntry(id);
+    if (!hasAccess(await getTableAccess(req.user!, table_name), 'write')) {
+      return res.status(403).json({ error: `You do not have write access to table "${table_name}"` });
+    }
+
+    const entry = await revertChange(id, requestActor(req), { force: req.body?.force === true });
+    res.json(entry);
+  } catch (error) {
+    sendError(res, error, 'Failed to revert change');
   }
 });
 
@@ -142,8 +1073,28 @@ app.get('*', (req, res) => {
   res.sendFile('dist/index.html', { root: '.' });
 });
 
+// Purge soft-deleted rows past their table's retention period, at startup
+// and then every hour
+const RETENTION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+async function runRetentionPurge() {
+  await connectionsLoaded;
+  for (const connection of listConnectionProfiles().filter(profile => !profile.readOnly)) {
+    try {
+      const purged = await runWithConnection(connection.name, purgeExpiredRows);
+      if (purged > 0) {
+        console.log(`Purged ${purged} soft-deleted rows past their retention period on "${connection.name}"`);
+      }
+    } catch (error) {
+      console.error(`Retention purge failed on "${connection.name}":`, error);
+    }
+  }
+}
+
 const server = app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  runRetentionPurge();
+  setInterval(runRetentionPurge, RETENTION_PURGE_INTERVAL_MS);
 }).on('error', (err: any) => {
   if (err.code === 'EADDRINUSE') {
     const nextPort = Number(PORT) + 1;